@@ -4,12 +4,22 @@ import { AuthProvider } from './contexts/AuthContext'
 import ProtectedRoute from './components/ProtectedRoute'
 import Layout from './components/Layout'
 import Login from './pages/Login'
+import Setup from './pages/Setup'
+import TillLock from './pages/TillLock'
 import Dashboard from './pages/Dashboard'
 import Products from './pages/Products'
 import StockEntries from './pages/StockEntries'
 import Sales from './pages/Sales'
 import Users from './pages/Users'
 import Analytics from './pages/Analytics'
+import Account from './pages/Account'
+import Roles from './pages/Roles'
+import AuditLog from './pages/AuditLog'
+import Lookups from './pages/Lookups'
+import LowStock from './pages/LowStock'
+import Pricing from './pages/Pricing'
+import Suppliers from './pages/Suppliers'
+import PurchaseOrders from './pages/PurchaseOrders'
 
 function App() {
   return (
@@ -17,6 +27,8 @@ function App() {
       <Router>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/setup" element={<Setup />} />
+          <Route path="/till" element={<TillLock />} />
           <Route
             path="/"
             element={
@@ -30,27 +42,77 @@ function App() {
           <Route
             path="/products"
             element={
-              <ProtectedRoute requiredRoles={['super_admin', 'admin']}>
+              <ProtectedRoute requiredPermissions={['products.view']}>
                 <Layout>
                   <Products />
                 </Layout>
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/lookups"
+            element={
+              <ProtectedRoute requiredPermissions={['products.edit']}>
+                <Layout>
+                  <Lookups />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/pricing"
+            element={
+              <ProtectedRoute requiredPermissions={['products.edit']}>
+                <Layout>
+                  <Pricing />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/suppliers"
+            element={
+              <ProtectedRoute requiredPermissions={['purchasing.manage']}>
+                <Layout>
+                  <Suppliers />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/purchase-orders"
+            element={
+              <ProtectedRoute requiredPermissions={['purchasing.manage']}>
+                <Layout>
+                  <PurchaseOrders />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/stock"
             element={
-              <ProtectedRoute requiredRoles={['super_admin', 'admin']}>
+              <ProtectedRoute requiredPermissions={['stock.view']}>
                 <Layout>
                   <StockEntries />
                 </Layout>
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/low-stock"
+            element={
+              <ProtectedRoute requiredPermissions={['products.view']}>
+                <Layout>
+                  <LowStock />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/sales"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute requiredPermissions={['sales.view']}>
                 <Layout>
                   <Sales />
                 </Layout>
@@ -60,7 +122,7 @@ function App() {
           <Route
             path="/analytics"
             element={
-              <ProtectedRoute requiredRoles={['super_admin', 'admin']}>
+              <ProtectedRoute requiredPermissions={['analytics.view']}>
                 <Layout>
                   <Analytics />
                 </Layout>
@@ -70,13 +132,43 @@ function App() {
           <Route
             path="/users"
             element={
-              <ProtectedRoute requiredRoles={['super_admin']}>
+              <ProtectedRoute requiredPermissions={['users.manage']}>
                 <Layout>
                   <Users />
                 </Layout>
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/roles"
+            element={
+              <ProtectedRoute requiredPermissions={['users.manage']}>
+                <Layout>
+                  <Roles />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/audit"
+            element={
+              <ProtectedRoute requiredPermissions={['audit.view']}>
+                <Layout>
+                  <AuditLog />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/account"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <Account />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </Router>
     </AuthProvider>
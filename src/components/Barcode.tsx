@@ -0,0 +1,27 @@
+import React, { useEffect, useRef } from 'react'
+import { renderBarcode } from '../lib/barcodes'
+
+interface BarcodeProps {
+  value: string
+  height?: number
+  className?: string
+}
+
+const Barcode: React.FC<BarcodeProps> = ({ value, height, className }) => {
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  useEffect(() => {
+    if (!svgRef.current || !value) return
+
+    try {
+      renderBarcode(svgRef.current, value, height)
+    } catch (error) {
+      // Code 128 only takes ASCII; leave the space empty rather than break the page
+      console.error('Error rendering barcode:', error)
+    }
+  }, [value, height])
+
+  return <svg ref={svgRef} className={className} />
+}
+
+export default Barcode
@@ -0,0 +1,108 @@
+import React, { useEffect } from 'react'
+import { TableParams } from '../hooks/useTableParams'
+import { PAGE_SIZES } from '../lib/pagination'
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, ChevronsUpDown } from 'lucide-react'
+
+export interface DataTableColumn {
+  header: string
+  // Column (or `relation(column)`) the server sorts by; columns without one are not sortable
+  sortKey?: string
+}
+
+interface DataTableProps<T> {
+  columns: DataTableColumn[]
+  rows: T[]
+  total: number
+  params: TableParams
+  fetching?: boolean
+  // Title, search and filters shown above the table, inside its card
+  toolbar?: React.ReactNode
+  // Renders the <tr> elements for one row, so pages keep their own cells, group headers and sub-rows
+  renderRow: (row: T, index: number) => React.ReactNode
+  empty: React.ReactNode
+}
+
+// Header, body and pager for a table whose rows are paged, sorted and searched on the server
+const DataTable = <T,>({ columns, rows, total, params, fetching = false, toolbar, renderRow, empty }: DataTableProps<T>) => {
+  const { page, pageSize, sort, setPage, setPageSize, toggleSort } = params
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const firstRow = total === 0 ? 0 : (page - 1) * pageSize + 1
+  const lastRow = Math.min(page * pageSize, total)
+
+  // A bookmarked or shrunken result can leave us past the last page
+  useEffect(() => {
+    if (!fetching && page > pageCount) setPage(pageCount)
+  }, [fetching, page, pageCount, setPage])
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      {toolbar}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              {columns.map(({ header, sortKey }) => (
+                <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {sortKey ? (
+                    <button
+                      onClick={() => toggleSort(sortKey)}
+                      className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-700"
+                    >
+                      {header}
+                      {sort.column !== sortKey
+                        ? <ChevronsUpDown className="h-3 w-3 text-gray-300" />
+                        : sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                    </button>
+                  ) : header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={`divide-y divide-gray-200 ${fetching ? 'opacity-50' : ''}`}>
+            {rows.map((row, index) => renderRow(row, index))}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length === 0 && !fetching && empty}
+
+      {total > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+          <div className="flex items-center gap-2">
+            <span>Showing {firstRow}–{lastRow} of {total.toLocaleString()}</span>
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>{size} per page</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="p-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span>Page {page} of {pageCount}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+              className="p-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DataTable
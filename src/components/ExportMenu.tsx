@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import { ExportFormat, ExportOptions, exportTable } from '../lib/export'
+import { Download, FileText, FileSpreadsheet, File } from 'lucide-react'
+
+const FORMATS: { format: ExportFormat, label: string, icon: typeof FileText }[] = [
+  { format: 'csv', label: 'CSV', icon: FileText },
+  { format: 'xlsx', label: 'Excel (.xlsx)', icon: FileSpreadsheet },
+  { format: 'pdf', label: 'PDF', icon: File },
+]
+
+type ExportMenuProps<T> = Omit<ExportOptions<T>, 'rows'> & {
+  // Exports exactly these rows; paginated tables pass a loader for every row matching their filters
+  rows: T[] | (() => Promise<T[]>)
+  disabled?: boolean
+}
+
+const ExportMenu = <T,>({ rows, disabled = false, ...options }: ExportMenuProps<T>) => {
+  const [open, setOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setOpen(false)
+    setIsExporting(true)
+
+    try {
+      await exportTable(exportFormat, { ...options, rows: Array.isArray(rows) ? rows : await rows() })
+    } catch (error) {
+      console.error('Error exporting:', error)
+      alert('Error exporting')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={isExporting || disabled || (Array.isArray(rows) && rows.length === 0)}
+        className="inline-flex items-center gap-2 bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="h-4 w-4" />
+        {isExporting ? 'Exporting...' : 'Export'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg border border-gray-200 z-10">
+          {FORMATS.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Icon className="h-4 w-4 text-gray-400" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
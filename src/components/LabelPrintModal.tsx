@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { fetchBusinessSettings, BusinessSettings } from '../lib/export'
+import { LABEL_LAYOUTS, LabelLayout, buildLabelPdf } from '../lib/labels'
+import { ProductVariant, formatVariantLabel, getVariantPrice } from '../lib/variants'
+import Barcode from './Barcode'
+import { Printer, X } from 'lucide-react'
+
+interface CatalogueProduct {
+  id: string
+  name: string
+  sku: string
+  sell_price: number
+}
+
+interface LabelProduct {
+  key: string
+  name: string
+  variant: string
+  sku: string
+  price: number
+}
+
+interface Selection {
+  key: string
+  quantity: number
+}
+
+export interface LabelRequest {
+  productId: string
+  variantId: string | null
+  quantity: number
+}
+
+interface LabelPrintModalProps {
+  initialItems?: LabelRequest[]
+  onClose: () => void
+}
+
+const getKey = (productId: string, variantId: string | null) =>
+  variantId ? `variant:${variantId}` : `product:${productId}`
+
+const LabelPrintModal: React.FC<LabelPrintModalProps> = ({ initialItems = [], onClose }) => {
+  const [catalogue, setCatalogue] = useState<LabelProduct[]>([])
+  const [settings, setSettings] = useState<BusinessSettings>({ businessName: '', currency: 'KES' })
+  const [selections, setSelections] = useState<Selection[]>(() =>
+    initialItems.map(item => ({ key: getKey(item.productId, item.variantId), quantity: item.quantity }))
+  )
+  const [layout, setLayout] = useState<LabelLayout>('a4')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchCatalogue = async () => {
+      try {
+        const [productsResponse, variantsResponse, businessSettings] = await Promise.all([
+          supabase.from('product_catalog').select('id, name, sku, sell_price').is('archived_at', null).order('name'),
+          supabase.from('product_variants').select('id, product_id, size, colour, fit, sku, sell_price, quantity').order('created_at'),
+          fetchBusinessSettings()
+        ])
+
+        if (productsResponse.error) throw productsResponse.error
+        if (variantsResponse.error) throw variantsResponse.error
+
+        const variants: ProductVariant[] = variantsResponse.data || []
+
+        // Products with variants are labelled per variant
+        setCatalogue((productsResponse.data || []).flatMap((product: CatalogueProduct) => {
+          const productVariants = variants.filter(v => v.product_id === product.id)
+          if (productVariants.length === 0) {
+            return [{ key: getKey(product.id, null), name: product.name, variant: '', sku: product.sku, price: product.sell_price }]
+          }
+          return productVariants.map(variant => ({
+            key: getKey(product.id, variant.id),
+            name: product.name,
+            variant: formatVariantLabel(variant),
+            sku: variant.sku,
+            price: getVariantPrice(variant, product)
+          }))
+        }))
+        setSettings(businessSettings)
+      } catch (error) {
+        console.error('Error fetching products for labels:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCatalogue()
+  }, [])
+
+  const findProduct = (key: string) => catalogue.find(product => product.key === key)
+
+  const handleAdd = (key: string) => {
+    if (!key) return
+    setSelections(current => current.some(s => s.key === key)
+      ? current.map(s => s.key === key ? { ...s, quantity: s.quantity + 1 } : s)
+      : [...current, { key, quantity: 1 }]
+    )
+  }
+
+  const updateQuantity = (key: string, quantity: number) => {
+    setSelections(current => current.map(s => s.key === key ? { ...s, quantity: Math.max(0, quantity) } : s))
+  }
+
+  const handlePrint = () => {
+    const items = selections.flatMap(selection => {
+      const product = findProduct(selection.key)
+      return product && selection.quantity > 0 ? [{ ...product, quantity: selection.quantity }] : []
+    })
+
+    try {
+      const doc = buildLabelPdf(items, layout, settings.businessName, settings.currency)
+      window.open(doc.output('bloburl'), '_blank')
+    } catch (error) {
+      console.error('Error printing labels:', error)
+      alert(`Error printing labels: ${(error as Error).message}`)
+    }
+  }
+
+  const totalLabels = selections.reduce((sum, selection) => sum + (findProduct(selection.key) ? selection.quantity : 0), 0)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          Print Labels
+        </h2>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Add Product
+              </label>
+              <select
+                value=""
+                onChange={(e) => handleAdd(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select a product</option>
+                {catalogue.map((product) => (
+                  <option key={product.key} value={product.key}>
+                    {product.name}{product.variant && ` – ${product.variant}`} ({product.sku})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selections.length > 0 && (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {selections.map((selection) => {
+                  const product = findProduct(selection.key)
+                  if (!product) return null
+
+                  return (
+                    <li key={selection.key} className="flex items-center gap-4 px-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{product.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {product.variant && `${product.variant} · `}{settings.currency} {product.price.toLocaleString()}
+                        </div>
+                      </div>
+                      <Barcode value={product.sku} height={30} className="h-12 w-auto" />
+                      <input
+                        type="number"
+                        min="0"
+                        value={selection.quantity}
+                        onChange={(e) => updateQuantity(selection.key, Number(e.target.value))}
+                        className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        title="Labels to print"
+                      />
+                      <button
+                        onClick={() => setSelections(current => current.filter(s => s.key !== selection.key))}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Remove"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Label Stock
+              </label>
+              <select
+                value={layout}
+                onChange={(e) => setLayout(e.target.value as LabelLayout)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {LABEL_LAYOUTS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            onClick={handlePrint}
+            disabled={totalLabels === 0}
+            className="flex-1 inline-flex items-center justify-center gap-2 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Printer className="h-4 w-4" />
+            Print {totalLabels} Label(s)
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LabelPrintModal
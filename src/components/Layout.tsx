@@ -1,6 +1,8 @@
 import React from 'react'
 import { Link, useLocation, useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import SessionTimeoutWarning from './SessionTimeoutWarning'
+import NotificationBell from './NotificationBell'
 import { 
   Home, 
   Package, 
@@ -9,7 +11,16 @@ import {
   PlusCircle, 
   LogOut, 
   BarChart3,
-  ShoppingCart
+  ShoppingCart,
+  UserCircle,
+  ShieldCheck,
+  Lock,
+  History,
+  Tags,
+  AlertTriangle,
+  Percent,
+  Truck,
+  ClipboardList
 } from 'lucide-react'
 
 interface LayoutProps {
@@ -17,26 +28,45 @@ interface LayoutProps {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { user, logout } = useAuth()
+  const { user, logout, lockTill, closeTill, businessName } = useAuth()
   const location = useLocation()
   const navigate = useNavigate()
 
   const handleLogout = () => {
     logout()
+    closeTill()
     navigate('/login')
   }
 
+  const handleLock = async () => {
+    try {
+      await lockTill()
+      navigate('/till')
+    } catch (error) {
+      console.error('Error locking till:', error)
+      alert('Error locking till')
+    }
+  }
+
   const navigation = [
-    { name: 'Dashboard', href: '/', icon: Home, roles: ['super_admin', 'admin', 'sales_staff'] },
-    { name: 'Products', href: '/products', icon: Package, roles: ['super_admin', 'admin'] },
-    { name: 'Stock Entries', href: '/stock', icon: PlusCircle, roles: ['super_admin', 'admin'] },
-    { name: 'Sales', href: '/sales', icon: ShoppingCart, roles: ['super_admin', 'admin', 'sales_staff'] },
-    { name: 'Analytics', href: '/analytics', icon: BarChart3, roles: ['super_admin', 'admin'] },
-    { name: 'Users', href: '/users', icon: Users, roles: ['super_admin'] },
+    { name: 'Dashboard', href: '/', icon: Home },
+    { name: 'Products', href: '/products', icon: Package, permission: 'products.view' },
+    { name: 'Categories', href: '/lookups', icon: Tags, permission: 'products.edit' },
+    { name: 'Pricing', href: '/pricing', icon: Percent, permission: 'products.edit' },
+    { name: 'Stock Entries', href: '/stock', icon: PlusCircle, permission: 'stock.view' },
+    { name: 'Low Stock', href: '/low-stock', icon: AlertTriangle, permission: 'products.view' },
+    { name: 'Purchase Orders', href: '/purchase-orders', icon: ClipboardList, permission: 'purchasing.manage' },
+    { name: 'Suppliers', href: '/suppliers', icon: Truck, permission: 'purchasing.manage' },
+    { name: 'Sales', href: '/sales', icon: ShoppingCart, permission: 'sales.view' },
+    { name: 'Analytics', href: '/analytics', icon: BarChart3, permission: 'analytics.view' },
+    { name: 'Users', href: '/users', icon: Users, permission: 'users.manage' },
+    { name: 'Roles', href: '/roles', icon: ShieldCheck, permission: 'users.manage' },
+    { name: 'Audit Log', href: '/audit', icon: History, permission: 'audit.view' },
+    { name: 'My Account', href: '/account', icon: UserCircle },
   ]
 
   const filteredNavigation = navigation.filter(item => 
-    item.roles.includes(user?.role || '')
+    !item.permission || user?.permissions?.includes(item.permission)
   )
 
   return (
@@ -44,7 +74,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       {/* Sidebar */}
       <div className="fixed inset-y-0 left-0 z-50 w-64 bg-white shadow-lg">
         <div className="flex h-16 items-center justify-center border-b border-gray-200">
-          <h1 className="text-xl font-bold text-blue-600">Gents by Elegante</h1>
+          <h1 className="text-xl font-bold text-blue-600">{businessName}</h1>
         </div>
         
         <nav className="mt-8 px-4">
@@ -79,12 +109,23 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <p className="text-sm font-medium text-gray-900">{user?.username}</p>
                 <p className="text-xs text-gray-500 capitalize">{user?.role?.replace('_', ' ')}</p>
               </div>
-              <button
-                onClick={handleLogout}
-                className="rounded-md p-1 text-gray-400 hover:text-gray-600"
-              >
-                <LogOut className="h-4 w-4" />
-              </button>
+              <div className="flex items-center gap-1">
+                <NotificationBell />
+                <button
+                  onClick={handleLock}
+                  className="rounded-md p-1 text-gray-400 hover:text-gray-600"
+                  title="Lock till for the next person"
+                >
+                  <Lock className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={handleLogout}
+                  className="rounded-md p-1 text-gray-400 hover:text-gray-600"
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -96,6 +137,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           {children}
         </main>
       </div>
+
+      <SessionTimeoutWarning />
     </div>
   )
 }
@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { onStockChange } from '../lib/stock'
+import { usePermission } from '../hooks/usePermission'
+import { AlertTriangle, Bell, PackageX } from 'lucide-react'
+
+interface Notification {
+  id: string
+  kind: 'low_stock' | 'out_of_stock'
+  message: string
+  created_at: string
+}
+
+const POLL_INTERVAL_MS = 60 * 1000
+
+// Unread low-stock alerts for the people who restock
+const NotificationBell: React.FC = () => {
+  const canAddStock = usePermission('stock.edit')
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [open, setOpen] = useState(false)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, kind, message, created_at')
+        .is('read_at', null)
+        .order('created_at', { ascending: false })
+        .limit(20)
+
+      if (error) throw error
+      setNotifications(data || [])
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!canAddStock) return
+
+    fetchNotifications()
+    const interval = window.setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    const unsubscribe = onStockChange(fetchNotifications)
+    return () => {
+      window.clearInterval(interval)
+      unsubscribe()
+    }
+  }, [canAddStock, fetchNotifications])
+
+  const markAllRead = async () => {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', notifications.map(notification => notification.id))
+
+      if (error) throw error
+      setNotifications([])
+      setOpen(false)
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+      alert('Error marking notifications read')
+    }
+  }
+
+  if (!canAddStock) return null
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative rounded-md p-1 text-gray-400 hover:text-gray-600"
+        title="Stock alerts"
+      >
+        <Bell className="h-4 w-4" />
+        {notifications.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+            {notifications.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white rounded-md shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900">Stock Alerts</h3>
+            {notifications.length > 0 && (
+              <button onClick={markAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No new alerts</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id} className="flex items-start gap-2 px-4 py-3">
+                  {notification.kind === 'out_of_stock'
+                    ? <PackageX className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+                    : <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />}
+                  <div>
+                    <p className="text-sm text-gray-900">{notification.message}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            to="/low-stock"
+            onClick={() => setOpen(false)}
+            className="block px-4 py-2 text-sm text-center text-blue-600 hover:bg-gray-50 border-t border-gray-200"
+          >
+            View low stock
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationBell
@@ -0,0 +1,140 @@
+import React, { useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { ProductImage, deleteProductImage, getImageUrl, uploadProductImage } from '../lib/images'
+import { ImagePlus, Star, Trash2 } from 'lucide-react'
+
+interface ProductImagesModalProps {
+  product: { id: string, name: string }
+  images: ProductImage[]
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+const ProductImagesModal: React.FC<ProductImagesModalProps> = ({ product, images, onClose, onSaved }) => {
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    setIsUploading(true)
+    try {
+      // One at a time so the first upload of a new product reliably becomes primary
+      for (const file of Array.from(files)) {
+        await uploadProductImage(product.id, file)
+      }
+      await onSaved()
+    } catch (error) {
+      console.error('Error uploading image:', error)
+      alert(`Error uploading image: ${(error as Error).message}`)
+      await onSaved()
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleMakePrimary = async (image: ProductImage) => {
+    try {
+      const { error } = await supabase
+        .from('product_images')
+        .update({ is_primary: true })
+        .eq('id', image.id)
+
+      if (error) throw error
+      await onSaved()
+    } catch (error) {
+      console.error('Error setting primary image:', error)
+      alert('Error setting primary image')
+    }
+  }
+
+  const handleDelete = async (image: ProductImage) => {
+    if (!confirm('Remove this image?')) return
+
+    try {
+      await deleteProductImage(image)
+      await onSaved()
+    } catch (error) {
+      console.error('Error deleting image:', error)
+      alert('Error deleting image')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">
+          Images of {product.name}
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          The starred image is shown in the product list, the sale picker and on sales.
+        </p>
+
+        {images.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 mb-4">
+            {images.map((image) => (
+              <div
+                key={image.id}
+                className={`relative rounded-md border-2 overflow-hidden ${image.is_primary ? 'border-yellow-400' : 'border-gray-200'}`}
+              >
+                <a href={getImageUrl(image.path)} target="_blank" rel="noreferrer">
+                  <img
+                    src={getImageUrl(image.thumbnail_path)}
+                    alt={product.name}
+                    className="w-full h-32 object-cover"
+                  />
+                </a>
+                <div className="absolute top-1 right-1 flex gap-1">
+                  <button
+                    onClick={() => handleMakePrimary(image)}
+                    disabled={image.is_primary}
+                    className="bg-white rounded-full p-1 shadow text-yellow-500 hover:text-yellow-600 disabled:cursor-default"
+                    title={image.is_primary ? 'Primary image' : 'Make primary'}
+                  >
+                    <Star className={`h-4 w-4 ${image.is_primary ? 'fill-current' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(image)}
+                    className="bg-white rounded-full p-1 shadow text-red-600 hover:text-red-800"
+                    title="Remove image"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-md p-6 text-sm text-gray-600 ${
+          isUploading ? 'opacity-50' : 'cursor-pointer hover:border-blue-400 hover:text-blue-600'
+        }`}>
+          <ImagePlus className="h-8 w-8" />
+          {isUploading ? 'Uploading...' : 'Choose photos to upload'}
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            disabled={isUploading}
+            onChange={(e) => {
+              handleUpload(e.target.files)
+              e.target.value = ''
+            }}
+            className="hidden"
+          />
+        </label>
+
+        <div className="flex pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProductImagesModal
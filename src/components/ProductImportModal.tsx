@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from 'react'
+import Papa from 'papaparse'
+import readXlsxFile from 'read-excel-file'
+import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { Upload, FileSpreadsheet, CheckCircle, AlertTriangle } from 'lucide-react'
+
+type ImportField = 'name' | 'sku' | 'buy_price' | 'sell_price' | 'quantity'
+
+type Step = 'upload' | 'map' | 'preview'
+
+interface FieldDefinition {
+  key: ImportField
+  label: string
+  required: boolean
+  aliases: string[]
+}
+
+interface ImportRow {
+  row: number
+  name: string
+  sku: string
+  buy_price: number
+  sell_price: number
+  quantity: number
+  errors: string[]
+}
+
+interface ProductImportModalProps {
+  onClose: () => void
+  onImported: () => Promise<void>
+}
+
+const FIELDS: FieldDefinition[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'product', 'product name', 'item'] },
+  { key: 'sku', label: 'SKU', required: true, aliases: ['sku', 'code', 'item code', 'product code'] },
+  { key: 'buy_price', label: 'Buy Price', required: true, aliases: ['buy price', 'buy_price', 'cost', 'cost price'] },
+  { key: 'sell_price', label: 'Sell Price', required: true, aliases: ['sell price', 'sell_price', 'price', 'retail price'] },
+  { key: 'quantity', label: 'Opening Quantity', required: false, aliases: ['quantity', 'qty', 'stock', 'opening quantity', 'opening stock'] },
+]
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/[_\s]+/g, ' ')
+
+// "KES 1,200.00" -> 1200; blank or unreadable cells -> NaN
+const parseNumber = (value: string) => {
+  const cleaned = value.replace(/[^\d.-]/g, '')
+  return cleaned === '' ? NaN : Number(cleaned)
+}
+
+const readRows = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(file)
+    return rows.map(row => row.map(cell =>
+      cell === null || cell === undefined ? '' : cell instanceof Date ? cell.toISOString() : String(cell)
+    ))
+  }
+
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (results) => resolve(results.data),
+      error: reject
+    })
+  })
+}
+
+const ProductImportModal: React.FC<ProductImportModalProps> = ({ onClose, onImported }) => {
+  const canAddStock = usePermission('stock.edit')
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<Record<ImportField, string>>({
+    name: '', sku: '', buy_price: '', sell_price: '', quantity: ''
+  })
+  const [existingSkus, setExistingSkus] = useState<Set<string>>(new Set())
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState('')
+
+  // Opening stock becomes a stock entry, so it needs stock.edit
+  const fields = FIELDS.filter(field => field.key !== 'quantity' || canAddStock)
+
+  useEffect(() => {
+    const fetchSkus = async () => {
+      const [productsResponse, variantsResponse] = await Promise.all([
+        supabase.from('product_catalog').select('sku'),
+        supabase.from('product_variants').select('sku')
+      ])
+
+      if (productsResponse.error || variantsResponse.error) {
+        console.error('Error fetching SKUs:', productsResponse.error || variantsResponse.error)
+        return
+      }
+      setExistingSkus(new Set(
+        [...(productsResponse.data || []), ...(variantsResponse.data || [])].map(item => item.sku.toLowerCase())
+      ))
+    }
+
+    fetchSkus()
+  }, [])
+
+  const handleFile = async (file: File) => {
+    setError('')
+
+    try {
+      const [headerRow, ...dataRows] = await readRows(file)
+      if (!headerRow || dataRows.length === 0) {
+        throw new Error('The file needs a header row and at least one product')
+      }
+
+      // Guess the mapping from the header names
+      const guessed = { name: '', sku: '', buy_price: '', sell_price: '', quantity: '' }
+      FIELDS.forEach(field => {
+        const index = headerRow.findIndex(header => field.aliases.includes(normalise(header)))
+        if (index !== -1) guessed[field.key] = String(index)
+      })
+
+      setFileName(file.name)
+      setHeaders(headerRow)
+      setRows(dataRows)
+      setMapping(guessed)
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      setError((error as Error).message || 'Could not read the file')
+    }
+  }
+
+  const getCell = (cells: string[], field: ImportField) =>
+    mapping[field] === '' ? '' : (cells[Number(mapping[field])] ?? '').trim()
+
+  const buildPreview = (): ImportRow[] => {
+    const seen = new Map<string, number>()
+
+    return rows.map((cells, index) => {
+      // Row 1 is the header, so data starts on row 2 as in the spreadsheet
+      const row = index + 2
+      const errors: string[] = []
+      const name = getCell(cells, 'name')
+      const sku = getCell(cells, 'sku')
+      const buyPrice = parseNumber(getCell(cells, 'buy_price'))
+      const sellPrice = parseNumber(getCell(cells, 'sell_price'))
+      const quantityCell = canAddStock ? getCell(cells, 'quantity') : ''
+      const quantity = quantityCell === '' ? 0 : parseNumber(quantityCell)
+
+      if (!name) errors.push('Name is missing')
+      if (!sku) {
+        errors.push('SKU is missing')
+      } else if (existingSkus.has(sku.toLowerCase())) {
+        errors.push('SKU already exists')
+      } else if (seen.has(sku.toLowerCase())) {
+        errors.push(`Duplicate SKU (also on row ${seen.get(sku.toLowerCase())})`)
+      }
+      if (sku) seen.set(sku.toLowerCase(), seen.get(sku.toLowerCase()) ?? row)
+
+      if (Number.isNaN(buyPrice)) errors.push('Buy price is not a number')
+      else if (buyPrice < 0) errors.push('Buy price is negative')
+      if (Number.isNaN(sellPrice)) errors.push('Sell price is not a number')
+      else if (sellPrice < 0) errors.push('Sell price is negative')
+      if (!Number.isNaN(buyPrice) && !Number.isNaN(sellPrice) && sellPrice < buyPrice) {
+        errors.push('Sell price is below buy price')
+      }
+      if (!Number.isInteger(quantity) || quantity < 0) errors.push('Opening quantity must be a whole number, 0 or more')
+
+      return { row, name, sku, buy_price: buyPrice, sell_price: sellPrice, quantity, errors }
+    })
+  }
+
+  const handlePreview = () => {
+    const missing = fields.filter(field => field.required && mapping[field.key] === '')
+    if (missing.length > 0) {
+      alert(`Choose a column for ${missing.map(field => field.label).join(', ')}`)
+      return
+    }
+    setStep('preview')
+  }
+
+  const handleImport = async (validRows: ImportRow[]) => {
+    setIsImporting(true)
+    setError('')
+
+    try {
+      const { data, error } = await supabase.rpc('import_products', {
+        items: validRows.map(({ row, name, sku, buy_price, sell_price, quantity }) => ({
+          row, name, sku, buy_price, sell_price, quantity
+        }))
+      })
+
+      if (error) throw error
+
+      alert(`Imported ${data} product(s)`)
+      await onImported()
+      onClose()
+    } catch (error) {
+      console.error('Error importing products:', error)
+      setError(`Nothing was imported: ${(error as Error).message}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const preview = step === 'preview' ? buildPreview() : []
+  const validRows = preview.filter(row => row.errors.length === 0)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">
+          Import Products
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one product per row and a header row.'}
+          {step === 'map' && `Match the columns in ${fileName} to product fields.`}
+          {step === 'preview' && 'Check the rows below. Rows with errors are skipped.'}
+        </p>
+
+        {error && (
+          <div className="p-3 mb-4 rounded-md bg-red-50 border border-red-200">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-lg py-12 cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition-colors">
+            <Upload className="h-10 w-10 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">Choose a file</span>
+            <span className="text-xs text-gray-500">.csv or .xlsx</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <FileSpreadsheet className="h-4 w-4 text-gray-400" />
+              {rows.length} row(s) found
+            </div>
+
+            {fields.map((field) => (
+              <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
+                <label className="text-sm font-medium text-gray-700">
+                  {field.label}{field.required && ' *'}
+                </label>
+                <select
+                  value={mapping[field.key]}
+                  onChange={(e) => setMapping(current => ({ ...current, [field.key]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">{field.required ? 'Choose a column' : 'Not imported'}</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            {!canAddStock && (
+              <p className="text-xs text-gray-500">
+                Opening quantities are not imported because your role cannot record stock entries.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex items-center gap-4 mb-4 text-sm">
+              <span className="inline-flex items-center gap-1 text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                {validRows.length} ready
+              </span>
+              {preview.length > validRows.length && (
+                <span className="inline-flex items-center gap-1 text-red-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.length - validRows.length} with errors
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-md mb-4">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buy</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sell</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Qty</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.map((row) => (
+                    <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{row.row}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{row.name}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{row.sku}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{Number.isNaN(row.buy_price) ? '—' : row.buy_price.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{Number.isNaN(row.sell_price) ? '—' : row.sell_price.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{Number.isNaN(row.quantity) ? '—' : row.quantity}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-700">Ready</span>
+                        ) : (
+                          <span className="text-red-700">{row.errors.join('; ')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          {step === 'map' && (
+            <button
+              onClick={handlePreview}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <>
+              <button
+                onClick={() => handleImport(validRows)}
+                disabled={isImporting || validRows.length === 0}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importing...' : `Import ${validRows.length} Product(s)`}
+              </button>
+              <button
+                onClick={() => setStep('map')}
+                disabled={isImporting}
+                className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Back
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProductImportModal
@@ -0,0 +1,18 @@
+import React from 'react'
+import { Package } from 'lucide-react'
+
+interface ProductThumbnailProps {
+  url?: string
+  name: string
+  className?: string
+}
+
+// Falls back to the generic icon for products without a primary image
+const ProductThumbnail: React.FC<ProductThumbnailProps> = ({ url, name, className = 'h-8 w-8 mr-3' }) =>
+  url ? (
+    <img src={url} alt={name} className={`${className} rounded object-cover flex-shrink-0`} />
+  ) : (
+    <Package className={`${className} text-gray-400 flex-shrink-0`} />
+  )
+
+export default ProductThumbnail
@@ -1,17 +1,20 @@
 import React from 'react'
-import { Navigate } from 'react-router-dom'
+import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { usePermission } from '../hooks/usePermission'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
-  requiredRoles?: string[]
+  requiredPermissions?: string[]
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
-  requiredRoles = [] 
+  requiredPermissions = [] 
 }) => {
-  const { user, loading } = useAuth()
+  const { user, needsSetup, tillMode, loading } = useAuth()
+  const isAllowed = usePermission(...requiredPermissions)
+  const location = useLocation()
 
   if (loading) {
     return (
@@ -21,11 +24,21 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     )
   }
 
+  if (needsSetup) {
+    return <Navigate to="/setup" replace />
+  }
+
   if (!user) {
-    return <Navigate to="/login" replace />
+    return <Navigate to={tillMode ? '/till' : '/login'} replace />
+  }
+
+  // A temporary password has to be replaced, and two-factor set up where the
+  // role requires it, before anything else is usable
+  if ((user.must_change_password || user.must_enroll_two_factor) && location.pathname !== '/account') {
+    return <Navigate to="/account" replace />
   }
 
-  if (requiredRoles.length > 0 && !requiredRoles.includes(user.role)) {
+  if (!isAllowed) {
     return <Navigate to="/" replace />
   }
 
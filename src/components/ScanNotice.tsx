@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react'
+import { CheckCircle, AlertCircle } from 'lucide-react'
+
+export interface ScanNoticeMessage {
+  type: 'success' | 'error'
+  text: string
+}
+
+interface ScanNoticeProps {
+  notice: ScanNoticeMessage | null
+  onDismiss: () => void
+}
+
+// Floats above any open modal so the result of a scan is seen wherever the cashier is looking
+const ScanNotice: React.FC<ScanNoticeProps> = ({ notice, onDismiss }) => {
+  useEffect(() => {
+    if (!notice) return
+
+    const timer = window.setTimeout(onDismiss, 4000)
+    return () => window.clearTimeout(timer)
+  }, [notice, onDismiss])
+
+  if (!notice) return null
+
+  const Icon = notice.type === 'success' ? CheckCircle : AlertCircle
+
+  return (
+    <div
+      role={notice.type === 'error' ? 'alert' : 'status'}
+      className={`fixed top-4 right-4 z-[60] flex items-center gap-2 px-4 py-3 rounded-lg shadow-lg border text-sm font-medium ${
+        notice.type === 'success'
+          ? 'bg-green-50 border-green-200 text-green-800'
+          : 'bg-red-50 border-red-200 text-red-800'
+      }`}
+    >
+      <Icon className="h-5 w-5" />
+      {notice.text}
+    </div>
+  )
+}
+
+export default ScanNotice
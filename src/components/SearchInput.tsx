@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react'
+import { Search } from 'lucide-react'
+
+interface SearchInputProps {
+  value: string
+  onSearch: (value: string) => void
+  placeholder?: string
+  className?: string
+}
+
+const SEARCH_DELAY_MS = 300
+
+// Searches once typing pauses rather than on every keystroke
+const SearchInput: React.FC<SearchInputProps> = ({ value, onSearch, placeholder = 'Search...', className = '' }) => {
+  const [text, setText] = useState(value)
+
+  // Follow the URL when it changes underneath us, e.g. on back/forward, without
+  // eating a trailing space the user is still typing past
+  useEffect(() => {
+    setText(current => current.trim() === value ? current : value)
+  }, [value])
+
+  useEffect(() => {
+    if (text.trim() === value) return
+
+    const timer = window.setTimeout(() => onSearch(text), SEARCH_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [text, value, onSearch])
+
+  return (
+    <div className={`relative ${className}`}>
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <input
+        type="text"
+        placeholder={placeholder}
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+    </div>
+  )
+}
+
+export default SearchInput
@@ -0,0 +1,49 @@
+import React from 'react'
+import { Clock } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+
+const SessionTimeoutWarning: React.FC = () => {
+  const { secondsUntilLogout, canExtendSession, extendSession, logout } = useAuth()
+
+  if (secondsUntilLogout === null) {
+    return null
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Clock className="h-6 w-6 text-yellow-600" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            {canExtendSession ? 'Are you still there?' : 'Your session is ending'}
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          {canExtendSession
+            ? `You will be signed out in ${secondsUntilLogout} seconds because of inactivity.`
+            : `Your session reaches its time limit in ${secondsUntilLogout} seconds. Save your work and sign in again.`}
+        </p>
+        <div className="flex gap-3">
+          {canExtendSession && (
+            <button
+              type="button"
+              onClick={extendSession}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Stay Signed In
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={logout}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SessionTimeoutWarning
@@ -0,0 +1,213 @@
+import React, { useState } from 'react'
+import { QRCodeSVG } from 'qrcode.react'
+import { useForm } from 'react-hook-form'
+import { useAuth } from '../contexts/AuthContext'
+import { callAuthHelpers } from '../lib/supabase'
+import { ShieldCheck, AlertTriangle } from 'lucide-react'
+
+interface Enrollment {
+  secret: string
+  otpauth_url: string
+}
+
+interface CodeForm {
+  code: string
+}
+
+interface DisableForm {
+  current_password: string
+}
+
+const TwoFactorSettings: React.FC = () => {
+  const { user, enableTwoFactor, disableTwoFactor } = useAuth()
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const codeForm = useForm<CodeForm>()
+  const disableForm = useForm<DisableForm>()
+
+  const handleStart = async () => {
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const result = await callAuthHelpers('two_factor_setup')
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to start two-factor setup')
+      }
+
+      setEnrollment({ secret: result.secret, otpauth_url: result.otpauth_url })
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error)
+      setError((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const onConfirm = async (data: CodeForm) => {
+    setIsSaving(true)
+    setError('')
+
+    try {
+      setRecoveryCodes(await enableTwoFactor(data.code))
+      setEnrollment(null)
+      codeForm.reset()
+    } catch (error) {
+      console.error('Error enabling two-factor sign-in:', error)
+      setError((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const onDisable = async (data: DisableForm) => {
+    if (!confirm('Turn off two-factor sign-in? Your account will be protected by your password only.')) return
+
+    setIsSaving(true)
+    setError('')
+
+    try {
+      await disableTwoFactor(data.current_password)
+      setRecoveryCodes(null)
+      disableForm.reset()
+    } catch (error) {
+      console.error('Error disabling two-factor sign-in:', error)
+      setError((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 max-w-md">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-1">
+        <ShieldCheck className="h-5 w-5 text-gray-400" />
+        Two-Factor Sign-In
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {user?.two_factor_enabled
+          ? 'On. Signing in asks for a code from your authenticator app.'
+          : 'Off. Add a code from an authenticator app to every sign-in.'}
+      </p>
+
+      {user?.must_enroll_two_factor && !enrollment && (
+        <div className="flex items-start gap-3 p-3 mb-4 rounded-md bg-yellow-50 border border-yellow-200">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+          <p className="text-sm text-yellow-800">
+            Your role requires two-factor sign-in. Set it up to continue.
+          </p>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="p-4 mb-4 rounded-md bg-green-50 border border-green-200">
+          <p className="text-sm font-medium text-green-800 mb-2">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((code) => (
+              <span key={code}>{code}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 mb-4 rounded-md bg-red-50 border border-red-200">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!user?.two_factor_enabled && !enrollment && (
+        <button
+          onClick={handleStart}
+          disabled={isSaving}
+          className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Set Up Two-Factor Sign-In
+        </button>
+      )}
+
+      {enrollment && (
+        <form onSubmit={codeForm.handleSubmit(onConfirm)} className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this code with an authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex justify-center">
+            <QRCodeSVG value={enrollment.otpauth_url} size={180} />
+          </div>
+          <p className="text-xs text-gray-500 text-center break-all">
+            Or enter this key by hand: <span className="font-mono">{enrollment.secret}</span>
+          </p>
+
+          <div>
+            <input
+              {...codeForm.register('code', {
+                required: 'Code is required',
+                pattern: { value: /^\d{6}$/, message: 'Enter the 6-digit code' }
+              })}
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="123456"
+            />
+            {codeForm.formState.errors.code && (
+              <p className="text-sm text-red-600 mt-1">{codeForm.formState.errors.code.message}</p>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Turn On
+            </button>
+            <button
+              type="button"
+              onClick={() => setEnrollment(null)}
+              className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {user?.two_factor_enabled && (
+        <form onSubmit={disableForm.handleSubmit(onDisable)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Current Password
+            </label>
+            <input
+              {...disableForm.register('current_password', { required: 'Current password is required' })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Enter current password"
+            />
+            {disableForm.formState.errors.current_password && (
+              <p className="text-sm text-red-600 mt-1">{disableForm.formState.errors.current_password.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Turn Off Two-Factor Sign-In
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
+
+export default TwoFactorSettings
@@ -0,0 +1,305 @@
+import React, { useState } from 'react'
+import { supabase } from '../lib/supabase'
+import {
+  ProductVariant,
+  VariantOption,
+  VARIANT_OPTIONS,
+  buildVariantSku,
+  formatVariantLabel
+} from '../lib/variants'
+import { isDuplicateSku } from '../lib/skus'
+import { Layers, Trash2 } from 'lucide-react'
+
+interface ParentProduct {
+  id: string
+  name: string
+  sku: string
+  sell_price: number
+  quantity: number
+}
+
+interface VariantDraft {
+  sku: string
+  sell_price: string
+}
+
+interface VariantMatrixModalProps {
+  product: ParentProduct
+  variants: ProductVariant[]
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+const OPTION_LABELS: Record<VariantOption, { label: string, placeholder: string }> = {
+  size: { label: 'Sizes', placeholder: 'e.g. S, M, L, XL' },
+  colour: { label: 'Colours', placeholder: 'e.g. White, Navy' },
+  fit: { label: 'Fits', placeholder: 'e.g. Slim, Regular' },
+}
+
+const splitValues = (value: string) =>
+  Array.from(new Set(value.split(',').map(item => item.trim()).filter(Boolean)))
+
+const VariantMatrixModal: React.FC<VariantMatrixModalProps> = ({ product, variants, onClose, onSaved }) => {
+  // Start from the option values already in use so adding a size keeps the existing colours
+  const [optionValues, setOptionValues] = useState<Record<VariantOption, string>>(() => ({
+    size: Array.from(new Set(variants.map(v => v.size).filter(Boolean))).join(', '),
+    colour: Array.from(new Set(variants.map(v => v.colour).filter(Boolean))).join(', '),
+    fit: Array.from(new Set(variants.map(v => v.fit).filter(Boolean))).join(', '),
+  }))
+  const [drafts, setDrafts] = useState<Record<string, VariantDraft>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Every combination of the entered values that is not a variant yet
+  const missingCombinations = () => {
+    let combinations: Record<VariantOption, string>[] = [{ size: '', colour: '', fit: '' }]
+
+    VARIANT_OPTIONS.forEach(option => {
+      const values = splitValues(optionValues[option])
+      if (values.length === 0) return
+      combinations = combinations.flatMap(combination =>
+        values.map(value => ({ ...combination, [option]: value }))
+      )
+    })
+
+    return combinations.filter(combination =>
+      VARIANT_OPTIONS.some(option => combination[option]) &&
+      !variants.some(v => VARIANT_OPTIONS.every(option => v[option] === combination[option]))
+    )
+  }
+
+  const handleGenerate = async () => {
+    const combinations = missingCombinations()
+    if (combinations.length === 0) {
+      alert('Every combination already exists')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { error } = await supabase
+        .from('product_variants')
+        .insert(combinations.map(combination => ({
+          product_id: product.id,
+          ...combination,
+          sku: buildVariantSku(product.sku, combination)
+        })))
+
+      if (error) throw error
+      await onSaved()
+    } catch (error) {
+      console.error('Error adding variants:', error)
+      alert(isDuplicateSku(error)
+        ? 'One of the new variant SKUs is already in use. Change the product SKU or the existing variant first.'
+        : `Error adding variants: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Unedited variants show their saved values
+  const getDraft = (variant: ProductVariant): VariantDraft =>
+    drafts[variant.id] ?? { sku: variant.sku, sell_price: variant.sell_price?.toString() ?? '' }
+
+  const updateDraft = (variant: ProductVariant, key: keyof VariantDraft, value: string) => {
+    setDrafts(current => ({ ...current, [variant.id]: { ...getDraft(variant), [key]: value } }))
+  }
+
+  const handleSave = async () => {
+    const changed = variants.filter(v => {
+      const draft = getDraft(v)
+      return draft.sku !== v.sku || draft.sell_price !== (v.sell_price?.toString() ?? '')
+    })
+
+    if (changed.some(v => !getDraft(v).sku.trim())) {
+      alert('Every variant needs a SKU')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      for (const variant of changed) {
+        const draft = getDraft(variant)
+        const { error } = await supabase
+          .from('product_variants')
+          .update({
+            sku: draft.sku.trim(),
+            sell_price: draft.sell_price === '' ? null : Number(draft.sell_price)
+          })
+          .eq('id', variant.id)
+
+        if (error) throw error
+      }
+
+      await onSaved()
+      onClose()
+    } catch (error) {
+      console.error('Error saving variants:', error)
+      alert(isDuplicateSku(error)
+        ? 'One of these SKUs is already used by another variant. Each variant needs its own SKU.'
+        : `Error saving variants: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (variant: ProductVariant) => {
+    if (variant.quantity !== 0) {
+      alert(`The ${formatVariantLabel(variant)} variant still has ${variant.quantity} unit(s) in stock. Only variants without stock can be removed.`)
+      return
+    }
+    if (!confirm(`Remove the ${formatVariantLabel(variant)} variant?`)) return
+
+    try {
+      const { error } = await supabase
+        .from('product_variants')
+        .delete()
+        .eq('id', variant.id)
+
+      // Sales and stock entries keep their variant
+      if (error?.code === '23503') {
+        alert(`The ${formatVariantLabel(variant)} variant has sales or stock entries, so it cannot be removed.`)
+        return
+      }
+      if (error) throw error
+      await onSaved()
+    } catch (error) {
+      console.error('Error deleting variant:', error)
+      alert('Error deleting variant')
+    }
+  }
+
+  const pendingCount = missingCombinations().length
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">
+          Variants of {product.name}
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          List the sizes, colours and fits you stock, separated by commas. Leave an option empty if it does not apply.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          {VARIANT_OPTIONS.map((option) => (
+            <div key={option}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {OPTION_LABELS[option].label}
+              </label>
+              <input
+                type="text"
+                value={optionValues[option]}
+                onChange={(e) => setOptionValues(current => ({ ...current, [option]: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder={OPTION_LABELS[option].placeholder}
+              />
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={isSaving || pendingCount === 0}
+          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed mb-6"
+        >
+          <Layers className="h-4 w-4" />
+          Add {pendingCount} Combination(s)
+        </button>
+
+        {variants.length === 0 && product.quantity > 0 && (
+          <p className="text-sm text-amber-700 -mt-4 mb-6">
+            The {product.quantity} unit(s) of {product.name} in stock now move to the first combination added.
+          </p>
+        )}
+
+        {variants.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-md mb-4">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Variant
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Sell Price (KES)
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Stock
+                  </th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {variants.map((variant) => (
+                  <tr key={variant.id}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                      {formatVariantLabel(variant)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        value={getDraft(variant).sku}
+                        onChange={(e) => updateDraft(variant, 'sku', e.target.value)}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={getDraft(variant).sell_price}
+                        onChange={(e) => updateDraft(variant, 'sell_price', e.target.value)}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder={product.sell_price.toString()}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {variant.quantity}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <button
+                        onClick={() => handleDelete(variant)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Remove variant"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mb-4">
+          Leave the price empty to sell at the product's price of KES {product.sell_price.toLocaleString()}.
+          Add stock to each variant from Stock Entries.
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Changes
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default VariantMatrixModal
@@ -1,18 +1,54 @@
-import React, { createContext, useContext, useEffect, useState } from 'react'
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { callAuthHelpers, getSessionToken, setSessionToken, getTillToken, setTillToken } from '../lib/supabase'
 
 interface User {
   id: string
   username: string
-  role: 'super_admin' | 'admin' | 'sales_staff'
+  role: string
+  permissions: string[]
+  must_change_password?: boolean
+  two_factor_enabled?: boolean
+  must_enroll_two_factor?: boolean
+}
+
+export type LoginResult = 'success' | 'two_factor_required' | 'failed'
+
+interface SessionInfo {
+  expiresAt: number
+  idleTimeoutMs: number
 }
 
 interface AuthContextType {
   user: User | null
-  login: (username: string, password: string) => Promise<boolean>
+  login: (username: string, password: string) => Promise<LoginResult>
+  verifyTwoFactor: (code: string) => Promise<void>
+  enableTwoFactor: (code: string) => Promise<string[]>
+  disableTwoFactor: (currentPassword: string) => Promise<void>
   logout: () => void
+  extendSession: () => void
+  secondsUntilLogout: number | null
+  canExtendSession: boolean
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>
+  completeSetup: (businessName: string, username: string, password: string) => Promise<void>
+  tillMode: boolean
+  lockTill: () => Promise<void>
+  pinLogin: (userId: string, pin: string) => Promise<void>
+  closeTill: () => void
+  needsSetup: boolean
+  businessName: string
   loading: boolean
 }
 
+const DEFAULT_BUSINESS_NAME = 'Gents by Elegante'
+const LOGOUT_WARNING_SECONDS = 60
+const HEARTBEAT_INTERVAL_MS = 60 * 1000
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll']
+
+const toSessionInfo = (session: { expires_at: string, idle_timeout_minutes: number }): SessionInfo => ({
+  expiresAt: new Date(session.expires_at).getTime(),
+  idleTimeoutMs: session.idle_timeout_minutes * 60 * 1000
+})
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export const useAuth = () => {
@@ -25,84 +61,277 @@ export const useAuth = () => {
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null)
+  const [needsSetup, setNeedsSetup] = useState(false)
+  const [businessName, setBusinessName] = useState(DEFAULT_BUSINESS_NAME)
   const [loading, setLoading] = useState(true)
+  const [session, setSession] = useState<SessionInfo | null>(null)
+  const [secondsUntilLogout, setSecondsUntilLogout] = useState<number | null>(null)
+  const [canExtendSession, setCanExtendSession] = useState(true)
+  const [tillMode, setTillMode] = useState(() => !!getTillToken())
+  const lastActivityRef = useRef(Date.now())
+  const lastHeartbeatRef = useRef(0)
+  const challengeTokenRef = useRef<string | null>(null)
 
   useEffect(() => {
-    const savedUser = localStorage.getItem('elegante_user')
-    if (savedUser) {
-      setUser(JSON.parse(savedUser))
-    }
-    
-    // Create default admin user if it doesn't exist
-    createDefaultAdmin()
-    
-    setLoading(false)
+    // Drop the unsigned user blob older builds stored
+    localStorage.removeItem('elegante_user')
+
+    initialize()
   }, [])
 
-  const createDefaultAdmin = async () => {
+  const logout = useCallback(() => {
+    // Revoke server-side first; the request captures the token before it is cleared
+    callAuthHelpers('logout').catch((error) => console.error('Error revoking session:', error))
+
+    setUser(null)
+    setSession(null)
+    setSecondsUntilLogout(null)
+    setSessionToken(null)
+  }, [])
+
+  const refreshSession = useCallback(async () => {
+    lastHeartbeatRef.current = Date.now()
+
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/auth-helpers`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ action: 'create_default_admin' })
-      })
-
-      const result = await response.json()
-      if (result.success) {
-        console.log('Default admin setup completed')
+      const result = await callAuthHelpers('session')
+
+      if (result.success && result.session) {
+        setSession(toSessionInfo(result.session))
+      } else {
+        // Revoked by a super_admin, expired or idle on the server
+        logout()
       }
     } catch (error) {
-      console.error('Error setting up default admin:', error)
+      console.error('Error refreshing session:', error)
+    }
+  }, [logout])
+
+  useEffect(() => {
+    if (!user) return
+
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now()
     }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user || !session) return
+
+    const timer = setInterval(() => {
+      const now = Date.now()
+      const idleLogoutAt = lastActivityRef.current + session.idleTimeoutMs
+      const secondsLeft = Math.ceil((Math.min(idleLogoutAt, session.expiresAt) - now) / 1000)
+
+      if (secondsLeft <= 0) {
+        logout()
+        return
+      }
+
+      setSecondsUntilLogout(secondsLeft <= LOGOUT_WARNING_SECONDS ? secondsLeft : null)
+      setCanExtendSession(idleLogoutAt < session.expiresAt)
+
+      // Keep the server's idle clock in step, but only while someone is using the app
+      if (lastActivityRef.current > lastHeartbeatRef.current && now - lastHeartbeatRef.current >= HEARTBEAT_INTERVAL_MS) {
+        refreshSession()
+      }
+    }, 1000)
+
+    return () => clearInterval(timer)
+  }, [user, session, logout, refreshSession])
+
+  const extendSession = () => {
+    lastActivityRef.current = Date.now()
+    setSecondsUntilLogout(null)
+    refreshSession()
   }
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const initialize = async () => {
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/auth-helpers`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          action: 'login',
-          username,
-          password
-        })
-      })
-
-      const result = await response.json()
-      
-      if (result.success && result.user) {
-        const userData = {
-          id: result.user.id,
-          username: result.user.username,
-          role: result.user.role
+      const status = await callAuthHelpers('setup_status')
+
+      setNeedsSetup(!!status.needs_setup)
+      if (status.business_name) {
+        setBusinessName(status.business_name)
+      }
+
+      // The token is only a claim; the server verifies it and returns the current role
+      if (!status.needs_setup && getSessionToken()) {
+        const result = await callAuthHelpers('session')
+
+        if (result.success && result.user) {
+          lastActivityRef.current = Date.now()
+          lastHeartbeatRef.current = Date.now()
+          setUser(result.user)
+          setSession(toSessionInfo(result.session))
+        } else {
+          setSessionToken(null)
         }
+      }
+    } catch (error) {
+      console.error('Error checking setup status:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
 
-        setUser(userData)
-        localStorage.setItem('elegante_user', JSON.stringify(userData))
-        return true
+  const completeSetup = async (newBusinessName: string, username: string, password: string) => {
+    const result = await callAuthHelpers('complete_setup', {
+      business_name: newBusinessName,
+      username,
+      password
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to complete setup')
+    }
+
+    setSessionToken(result.token)
+    lastActivityRef.current = Date.now()
+    setUser(result.user)
+    setBusinessName(newBusinessName)
+    setNeedsSetup(false)
+    await refreshSession()
+  }
+
+  const beginSession = async (token: string, sessionUser: User) => {
+    setSessionToken(token)
+    lastActivityRef.current = Date.now()
+    setUser(sessionUser)
+    await refreshSession()
+  }
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
+    try {
+      const result = await callAuthHelpers('login', { username, password })
+
+      // The password was right, but the account needs a code before it gets a session
+      if (result.success && result.two_factor_required) {
+        challengeTokenRef.current = result.challenge_token
+        return 'two_factor_required'
+      }
+      
+      if (result.success && result.token && result.user) {
+        await beginSession(result.token, result.user)
+        return 'success'
       }
 
       console.error('Login failed:', result.error)
-      return false
+      return 'failed'
     } catch (error) {
       console.error('Login error:', error)
-      return false
+      return 'failed'
+    }
+  }
+
+  const verifyTwoFactor = async (code: string) => {
+    const result = await callAuthHelpers('verify_two_factor', {
+      challenge_token: challengeTokenRef.current,
+      code
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Invalid code')
+    }
+
+    challengeTokenRef.current = null
+    await beginSession(result.token, result.user)
+  }
+
+  const enableTwoFactor = async (code: string): Promise<string[]> => {
+    const result = await callAuthHelpers('two_factor_enable', { code })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to enable two-factor sign-in')
+    }
+
+    setUser(result.user)
+    return result.recovery_codes
+  }
+
+  const disableTwoFactor = async (currentPassword: string) => {
+    const result = await callAuthHelpers('two_factor_disable', { current_password: currentPassword })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to turn off two-factor sign-in')
     }
+
+    setUser(result.user)
   }
 
-  const logout = () => {
+  // Ends the current session but keeps the terminal open on the PIN lock screen
+  const lockTill = async () => {
+    const result = await callAuthHelpers('lock_till')
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to lock the till')
+    }
+
+    setTillToken(result.till_token)
+    setTillMode(true)
     setUser(null)
-    localStorage.removeItem('elegante_user')
+    setSession(null)
+    setSecondsUntilLogout(null)
+    setSessionToken(null)
+  }
+
+  const pinLogin = async (userId: string, pin: string) => {
+    const result = await callAuthHelpers('pin_login', {
+      till_token: getTillToken(),
+      user_id: userId,
+      pin
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Incorrect PIN')
+    }
+
+    await beginSession(result.token, result.user)
+  }
+
+  const closeTill = useCallback(() => {
+    setTillToken(null)
+    setTillMode(false)
+  }, [])
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    const result = await callAuthHelpers('change_password', {
+      current_password: currentPassword,
+      new_password: newPassword
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to change password')
+    }
+
+    setUser(result.user)
   }
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, loading }}>
+    <AuthContext.Provider value={{
+      user,
+      login,
+      verifyTwoFactor,
+      enableTwoFactor,
+      disableTwoFactor,
+      logout,
+      extendSession,
+      secondsUntilLogout,
+      canExtendSession,
+      changePassword,
+      completeSetup,
+      tillMode,
+      lockTill,
+      pinLogin,
+      closeTill,
+      needsSetup,
+      businessName,
+      loading
+    }}>
       {children}
     </AuthContext.Provider>
   )
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react'
+
+// Keyboard-wedge scanners "type" the code far faster than a person and finish with Enter
+const MAX_KEY_GAP_MS = 50
+const MIN_CODE_LENGTH = 3
+
+type TextField = HTMLInputElement | HTMLTextAreaElement
+
+const isTextField = (target: EventTarget | null): target is TextField => {
+  if (target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit'].includes(target.type)
+}
+
+// Sets the value the way typing does, so React state and react-hook-form both see it
+const restoreValue = (field: TextField, value: string) => {
+  const setValue = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), 'value')?.set
+  setValue?.call(field, value)
+  field.dispatchEvent(new Event('input', { bubbles: true }))
+}
+
+// Calls onScan with each scanned code, wherever focus is. A scan into a text field gives the
+// field back the value it had before the scan, so scanning again with the quantity field
+// focused adds one instead of leaving the code behind as the quantity.
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const onScanRef = useRef(onScan)
+  onScanRef.current = onScan
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ''
+    let lastKeyAt = 0
+    let burstField: TextField | null = null
+    let valueBeforeBurst = ''
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return
+
+      const now = Date.now()
+      const isBurst = now - lastKeyAt <= MAX_KEY_GAP_MS
+      lastKeyAt = now
+
+      if (event.key === 'Enter') {
+        if (isBurst && buffer.length >= MIN_CODE_LENGTH) {
+          // Stop the Enter from submitting a form or pressing the focused button
+          event.preventDefault()
+          event.stopPropagation()
+          if (burstField && burstField === event.target) restoreValue(burstField, valueBeforeBurst)
+          onScanRef.current(buffer)
+        }
+        buffer = ''
+        burstField = null
+        return
+      }
+
+      if (event.key.length !== 1) return
+
+      // Swallowing keys mid-burst would also drop a fast typist's letters, so the field is
+      // only put back once the Enter shows the burst was a scan
+      if (!isBurst) {
+        burstField = isTextField(event.target) ? event.target : null
+        valueBeforeBurst = burstField?.value ?? ''
+      }
+
+      buffer = isBurst ? buffer + event.key : event.key
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [enabled])
+}
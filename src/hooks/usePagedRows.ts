@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { PageResponse, pageRange } from '../lib/pagination'
+
+// Loads one page through `fetchRange`, which must ask for an exact count. Pass a memoised
+// fetcher: a new one (new search, filter or sort) reloads the page. Responses that arrive
+// after a newer request has gone out are dropped, so fast typing cannot show stale results.
+export const usePagedRows = <T>(
+  fetchRange: (from: number, to: number) => PromiseLike<PageResponse<T>>,
+  page: number,
+  pageSize: number
+) => {
+  const [rows, setRows] = useState<T[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [fetching, setFetching] = useState(false)
+  const latestRequest = useRef(0)
+
+  const refresh = useCallback(async () => {
+    const request = ++latestRequest.current
+    const { from, to } = pageRange(page, pageSize)
+    setFetching(true)
+
+    try {
+      const { data, count, error } = await fetchRange(from, to)
+      if (error) throw error
+      if (request !== latestRequest.current) return
+
+      setRows(data || [])
+      setTotal(count ?? 0)
+    } catch (error) {
+      console.error('Error fetching page:', error)
+    } finally {
+      if (request === latestRequest.current) {
+        setFetching(false)
+        setLoading(false)
+      }
+    }
+  }, [fetchRange, page, pageSize])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { rows, total, loading, fetching, refresh }
+}
@@ -0,0 +1,7 @@
+import { useAuth } from '../contexts/AuthContext'
+
+// True when the signed-in user's role grants every listed permission
+export const usePermission = (...permissions: string[]) => {
+  const { user } = useAuth()
+  return permissions.every(permission => user?.permissions?.includes(permission) ?? false)
+}
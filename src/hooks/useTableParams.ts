@@ -0,0 +1,74 @@
+import { useCallback } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZES } from '../lib/pagination'
+
+export interface TableSort {
+  column: string
+  ascending: boolean
+}
+
+export interface TableParams {
+  page: number
+  pageSize: number
+  sort: TableSort
+  search: string
+  // Page-specific filters kept in the URL alongside the table state
+  getFilter: (key: string) => string
+  setFilter: (key: string, value: string) => void
+  setSearch: (search: string) => void
+  setPage: (page: number) => void
+  setPageSize: (pageSize: number) => void
+  toggleSort: (column: string) => void
+}
+
+type ParamChanges = Record<string, string | number | null>
+
+// Page, page size, sort, search and filters live in the query string so a view can be bookmarked
+// or shared. Defaults are left out of the URL; any change other than the page goes back to page 1.
+export const useTableParams = (defaultSort: TableSort): TableParams => {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const page = Math.max(1, Math.floor(Number(searchParams.get('page'))) || 1)
+  const requestedPageSize = Number(searchParams.get('size'))
+  const pageSize = PAGE_SIZES.includes(requestedPageSize) ? requestedPageSize : DEFAULT_PAGE_SIZE
+  const sortColumn = searchParams.get('sort')
+  const sort: TableSort = sortColumn
+    ? { column: sortColumn, ascending: searchParams.get('dir') !== 'desc' }
+    : defaultSort
+  const search = searchParams.get('q') ?? ''
+
+  // Changes whenever the URL does, so callbacks that read filters through it can list it as a dependency
+  const getFilter = useCallback((key: string) => searchParams.get(key) ?? '', [searchParams])
+
+  const update = useCallback((changes: ParamChanges) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === '') next.delete(key)
+        else next.set(key, String(value))
+      })
+      if (!('page' in changes)) next.delete('page')
+      return next
+    }, { replace: true })
+  }, [setSearchParams])
+
+  return {
+    page,
+    pageSize,
+    sort,
+    search,
+    getFilter,
+    setFilter: (key, value) => update({ [key]: value }),
+    setSearch: (value) => update({ q: value.trim() }),
+    setPage: (value) => update({ page: value > 1 ? value : null }),
+    setPageSize: (value) => update({ size: value === DEFAULT_PAGE_SIZE ? null : value }),
+    toggleSort: (column) => {
+      const ascending = sort.column === column ? !sort.ascending : true
+      const isDefault = column === defaultSort.column && ascending === defaultSort.ascending
+      update({
+        sort: isDefault ? null : column,
+        dir: isDefault || ascending ? null : 'desc'
+      })
+    },
+  }
+}
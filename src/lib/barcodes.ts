@@ -0,0 +1,69 @@
+import JsBarcode from 'jsbarcode'
+import { supabase } from './supabase'
+import { formatVariantLabel } from './variants'
+
+export type BarcodeFormat = 'EAN13' | 'CODE128'
+
+// A 13-digit SKU whose last digit is a valid GS1 check digit is printed as EAN-13;
+// anything else is printed as Code 128, which takes any ASCII text
+export const isValidEan13 = (value: string) => {
+  if (!/^\d{13}$/.test(value)) return false
+
+  const digits = value.split('').map(Number)
+  const sum = digits.slice(0, 12).reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0)
+  return (10 - (sum % 10)) % 10 === digits[12]
+}
+
+export const getBarcodeFormat = (value: string): BarcodeFormat =>
+  isValidEan13(value) ? 'EAN13' : 'CODE128'
+
+export const renderBarcode = (target: SVGSVGElement | HTMLCanvasElement, value: string, height = 40) => {
+  JsBarcode(target, value, {
+    format: getBarcodeFormat(value),
+    height,
+    width: 2,
+    fontSize: 14,
+    margin: 4,
+    displayValue: true
+  })
+}
+
+// PNG of the barcode for embedding in PDFs
+export const barcodeDataUrl = (value: string) => {
+  const canvas = document.createElement('canvas')
+  renderBarcode(canvas, value, 60)
+  return { dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height }
+}
+
+export interface BarcodeMatch {
+  productId: string
+  variantId: string | null
+  name: string
+  quantity: number
+}
+
+// Scanned codes are matched against variant SKUs first, then product SKUs.
+// Looks at the whole catalogue so out-of-stock items can be told apart from unknown codes;
+// archived products are no longer sold or restocked, so their codes count as unknown.
+export const findByBarcode = async (code: string): Promise<BarcodeMatch | null> => {
+  const { data: variant, error: variantError } = await supabase
+    .from('product_variants')
+    .select('id, product_id, size, colour, fit, quantity')
+    .eq('sku', code)
+    .maybeSingle()
+
+  if (variantError) throw variantError
+
+  const productQuery = supabase.from('product_catalog').select('id, name, quantity').is('archived_at', null)
+  const { data: product, error: productError } = await (variant
+    ? productQuery.eq('id', variant.product_id)
+    : productQuery.eq('sku', code)
+  ).maybeSingle()
+
+  if (productError) throw productError
+  if (!product) return null
+
+  return variant
+    ? { productId: product.id, variantId: variant.id, name: `${product.name} (${formatVariantLabel(variant)})`, quantity: variant.quantity }
+    : { productId: product.id, variantId: null, name: product.name, quantity: product.quantity }
+}
@@ -0,0 +1,110 @@
+import Papa from 'papaparse'
+import writeXlsxFile, { SheetData } from 'write-excel-file'
+import { jsPDF } from 'jspdf'
+import { autoTable } from 'jspdf-autotable'
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => string | number | null | undefined
+  // Money columns get the currency in their header and two decimals in Excel and PDF
+  money?: boolean
+}
+
+export interface ExportOptions<T> {
+  title: string
+  fileName: string
+  columns: ExportColumn<T>[]
+  rows: T[]
+}
+
+export interface BusinessSettings {
+  businessName: string
+  currency: string
+}
+
+// Business name and currency printed on exports and labels
+export const fetchBusinessSettings = async (): Promise<BusinessSettings> => {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('key, value')
+    .in('key', ['business_name', 'currency'])
+
+  if (error) throw error
+
+  const settings = Object.fromEntries((data || []).map(setting => [setting.key, setting.value]))
+  return {
+    businessName: settings.business_name || '',
+    currency: settings.currency || 'KES'
+  }
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const formatCell = (value: string | number | null | undefined, money?: boolean) => {
+  if (value === null || value === undefined) return ''
+  if (money && typeof value === 'number') {
+    return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  }
+  return String(value)
+}
+
+export const exportTable = async <T>(exportFormat: ExportFormat, { title, fileName, columns, rows }: ExportOptions<T>) => {
+  const { businessName, currency } = await fetchBusinessSettings()
+  const headers = columns.map(column => column.money ? `${column.header} (${currency})` : column.header)
+  const baseName = `${fileName}-${format(new Date(), 'yyyy-MM-dd')}`
+
+  if (exportFormat === 'csv') {
+    const csv = Papa.unparse({
+      fields: headers,
+      data: rows.map(row => columns.map(column => column.value(row) ?? ''))
+    })
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`)
+    return
+  }
+
+  if (exportFormat === 'xlsx') {
+    const data: SheetData = [
+      headers.map(header => ({ value: header, fontWeight: 'bold' as const })),
+      ...rows.map(row => columns.map(column => {
+        const value = column.value(row)
+        if (value === null || value === undefined || value === '') return null
+        return typeof value === 'number'
+          ? { value, type: Number, format: column.money ? '#,##0.00' : undefined }
+          : { value, type: String }
+      }))
+    ]
+    await writeXlsxFile(data, { fileName: `${baseName}.xlsx`, sheet: title.slice(0, 31), stickyRowsCount: 1 })
+    return
+  }
+
+  const doc = new jsPDF({ orientation: columns.length > 6 ? 'landscape' : 'portrait' })
+  doc.setFontSize(14)
+  doc.text(businessName || title, 14, 16)
+  doc.setFontSize(10)
+  doc.text(`${businessName ? `${title} · ` : ''}Generated ${format(new Date(), 'MMM dd, yyyy HH:mm')} · Amounts in ${currency}`, 14, 22)
+
+  autoTable(doc, {
+    startY: 28,
+    head: [headers],
+    body: rows.map(row => columns.map(column => formatCell(column.value(row), column.money))),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [37, 99, 235] },
+    didDrawPage: () => {
+      doc.setFontSize(8)
+      doc.text(`Page ${doc.getNumberOfPages()}`, doc.internal.pageSize.getWidth() - 14, doc.internal.pageSize.getHeight() - 8, { align: 'right' })
+    }
+  })
+
+  doc.save(`${baseName}.pdf`)
+}
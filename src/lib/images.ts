@@ -0,0 +1,105 @@
+import { supabase } from './supabase'
+
+export const PRODUCT_IMAGES_BUCKET = 'product-images'
+
+export interface ProductImage {
+  id: string
+  product_id: string
+  path: string
+  thumbnail_path: string
+  is_primary: boolean
+  created_at: string
+}
+
+// Longest edge in pixels. Images are resized here rather than by the storage image
+// transformer, which a local stack or MinIO does not have.
+const FULL_SIZE = 1200
+const THUMBNAIL_SIZE = 160
+
+export const getImageUrl = (path: string) =>
+  supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl
+
+const resizeImage = async (file: File, maxSize: number) => {
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available')
+
+  // JPEG has no transparency; give cut-out product shots a white background
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode image')), 'image/jpeg', 0.85)
+  })
+}
+
+export const uploadProductImage = async (productId: string, file: File) => {
+  const [full, thumbnail] = await Promise.all([
+    resizeImage(file, FULL_SIZE),
+    resizeImage(file, THUMBNAIL_SIZE)
+  ])
+
+  const name = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  const path = `${productId}/${name}.jpg`
+  const thumbnailPath = `${productId}/${name}-thumb.jpg`
+  const bucket = supabase.storage.from(PRODUCT_IMAGES_BUCKET)
+
+  const { error: fullError } = await bucket.upload(path, full, { contentType: 'image/jpeg' })
+  if (fullError) throw fullError
+
+  const { error: thumbnailError } = await bucket.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' })
+  if (thumbnailError) {
+    await bucket.remove([path])
+    throw thumbnailError
+  }
+
+  const { error } = await supabase
+    .from('product_images')
+    .insert([{ product_id: productId, path, thumbnail_path: thumbnailPath }])
+
+  if (error) {
+    await bucket.remove([path, thumbnailPath])
+    throw error
+  }
+}
+
+export const removeImageFiles = async (images: Pick<ProductImage, 'path' | 'thumbnail_path'>[]) => {
+  if (images.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .remove(images.flatMap(image => [image.path, image.thumbnail_path]))
+
+  if (error) throw error
+}
+
+export const deleteProductImage = async (image: ProductImage) => {
+  const { error } = await supabase
+    .from('product_images')
+    .delete()
+    .eq('id', image.id)
+
+  if (error) throw error
+  await removeImageFiles([image])
+}
+
+// Thumbnail URL of each product's primary image, keyed by product id
+export const fetchPrimaryThumbnails = async () => {
+  const { data, error } = await supabase
+    .from('product_images')
+    .select('product_id, thumbnail_path')
+    .eq('is_primary', true)
+
+  if (error) throw error
+
+  return Object.fromEntries(
+    (data || []).map(image => [image.product_id, getImageUrl(image.thumbnail_path)])
+  ) as Record<string, string>
+}
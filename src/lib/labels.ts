@@ -0,0 +1,134 @@
+import { jsPDF } from 'jspdf'
+import { barcodeDataUrl } from './barcodes'
+
+export type LabelLayout = 'a4' | 'thermal58'
+
+export interface LabelItem {
+  name: string
+  variant: string
+  sku: string
+  price: number
+  quantity: number
+}
+
+interface SheetSpec {
+  pageSize: [number, number]
+  columns: number
+  rows: number
+  labelWidth: number
+  labelHeight: number
+  marginLeft: number
+  marginTop: number
+  gapX: number
+  gapY: number
+}
+
+// All sizes in millimetres. A4 matches the common 21-up sheets (L7160 and compatibles);
+// the thermal roll prints one 58 x 40 mm label per page.
+const SHEETS: Record<LabelLayout, SheetSpec> = {
+  a4: {
+    pageSize: [210, 297],
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginLeft: 7.2,
+    marginTop: 15.1,
+    gapX: 2.5,
+    gapY: 0
+  },
+  thermal58: {
+    pageSize: [58, 40],
+    columns: 1,
+    rows: 1,
+    labelWidth: 58,
+    labelHeight: 40,
+    marginLeft: 0,
+    marginTop: 0,
+    gapX: 0,
+    gapY: 0
+  }
+}
+
+export const LABEL_LAYOUTS: { value: LabelLayout, label: string }[] = [
+  { value: 'a4', label: 'A4 sheet, 21 labels (63.5 × 38.1 mm)' },
+  { value: 'thermal58', label: '58 mm thermal roll (58 × 40 mm)' },
+]
+
+const drawLabel = (
+  doc: jsPDF,
+  item: LabelItem,
+  barcode: ReturnType<typeof barcodeDataUrl>,
+  x: number,
+  y: number,
+  spec: SheetSpec,
+  businessName: string,
+  currency: string
+) => {
+  const padding = 2.5
+  const innerWidth = spec.labelWidth - padding * 2
+  const centre = x + spec.labelWidth / 2
+  let cursor = y + padding + 2
+
+  if (businessName) {
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(6)
+    doc.text(businessName, centre, cursor, { align: 'center' })
+    cursor += 3
+  }
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(8)
+  doc.text(doc.splitTextToSize(item.name, innerWidth)[0], centre, cursor, { align: 'center' })
+  cursor += 3
+
+  if (item.variant) {
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(7)
+    doc.text(item.variant, centre, cursor, { align: 'center' })
+  }
+  cursor += 1
+
+  // Keep the barcode's proportions inside the space left above the price
+  const availableHeight = y + spec.labelHeight - padding - 5 - cursor
+  const scale = Math.min(innerWidth / barcode.width, availableHeight / barcode.height)
+  const width = barcode.width * scale
+  const height = barcode.height * scale
+  doc.addImage(barcode.dataUrl, 'PNG', centre - width / 2, cursor, width, height)
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(10)
+  doc.text(
+    `${currency} ${item.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+    centre,
+    y + spec.labelHeight - padding - 0.5,
+    { align: 'center' }
+  )
+}
+
+// One label per unit of each item, filling sheets left to right, top to bottom
+export const buildLabelPdf = (items: LabelItem[], layout: LabelLayout, businessName: string, currency: string) => {
+  const spec = SHEETS[layout]
+  const perPage = spec.columns * spec.rows
+  const orientation = spec.pageSize[0] > spec.pageSize[1] ? 'landscape' : 'portrait'
+  const doc = new jsPDF({ unit: 'mm', format: spec.pageSize, orientation })
+  const barcodes = new Map<string, ReturnType<typeof barcodeDataUrl>>()
+
+  let position = 0
+  items.forEach(item => {
+    const barcode = barcodes.get(item.sku) ?? barcodeDataUrl(item.sku)
+    barcodes.set(item.sku, barcode)
+
+    for (let copy = 0; copy < item.quantity; copy++) {
+      if (position > 0 && position % perPage === 0) doc.addPage(spec.pageSize, orientation)
+
+      const slot = position % perPage
+      const x = spec.marginLeft + (slot % spec.columns) * (spec.labelWidth + spec.gapX)
+      const y = spec.marginTop + Math.floor(slot / spec.columns) * (spec.labelHeight + spec.gapY)
+      drawLabel(doc, item, barcode, x, y, spec, businessName, currency)
+      position++
+    }
+  })
+
+  return doc
+}
@@ -0,0 +1,28 @@
+export interface LookupValue {
+  id: string
+  name: string
+}
+
+export type LookupTable = 'categories' | 'brands' | 'collections'
+
+export type LookupColumn = 'category_id' | 'brand_id' | 'collection_id'
+
+export interface LookupDefinition {
+  table: LookupTable
+  column: LookupColumn
+  label: string
+  plural: string
+  placeholder: string
+}
+
+// The product fields backed by a lookup table, in the order they are shown
+export const LOOKUPS: LookupDefinition[] = [
+  { table: 'categories', column: 'category_id', label: 'Category', plural: 'Categories', placeholder: 'e.g. Shirts' },
+  { table: 'brands', column: 'brand_id', label: 'Brand', plural: 'Brands', placeholder: 'e.g. Elegante' },
+  { table: 'collections', column: 'collection_id', label: 'Collection', plural: 'Collections', placeholder: 'e.g. Summer 2025' },
+]
+
+export type LookupValues = Record<LookupTable, LookupValue[]>
+
+export const getLookupName = (values: LookupValue[], id: string | null | undefined) =>
+  values.find(value => value.id === id)?.name
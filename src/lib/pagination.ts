@@ -0,0 +1,32 @@
+import { PostgrestError } from '@supabase/supabase-js'
+
+export const PAGE_SIZES = [25, 50, 100]
+
+export const DEFAULT_PAGE_SIZE = PAGE_SIZES[0]
+
+export interface PageResponse<T> {
+  data: T[] | null
+  count?: number | null
+  error: PostgrestError | null
+}
+
+// Inclusive row offsets for a 1-based page, as `.range()` takes them
+export const pageRange = (page: number, pageSize: number) => {
+  const from = (page - 1) * pageSize
+  return { from, to: from + pageSize - 1 }
+}
+
+// The API caps how many rows one request returns, so exports walk the whole result in chunks
+const EXPORT_CHUNK_SIZE = 1000
+
+export const fetchAllRows = async <T>(fetchRange: (from: number, to: number) => PromiseLike<PageResponse<T>>) => {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += EXPORT_CHUNK_SIZE) {
+    const { data, error } = await fetchRange(from, from + EXPORT_CHUNK_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if ((data || []).length < EXPORT_CHUNK_SIZE) return rows
+  }
+}
@@ -0,0 +1,53 @@
+export type PriceChangeMode = 'percent' | 'fixed' | 'margin'
+
+export interface PriceChange {
+  mode: PriceChangeMode
+  amount: number
+}
+
+export const PRICE_CHANGE_MODES: { mode: PriceChangeMode, label: string, hint: string, costOnly?: boolean }[] = [
+  { mode: 'percent', label: 'By percentage', hint: 'e.g. -20 for 20% off, 10 for a 10% rise' },
+  { mode: 'fixed', label: 'By amount', hint: 'e.g. -500 to take KES 500 off' },
+  { mode: 'margin', label: 'To a target margin', hint: 'e.g. 40 for a 40% margin over buy price', costOnly: true },
+]
+
+export interface Markdown {
+  id: string
+  name: string
+  starts_at: string
+  ends_at: string
+  applied_at: string | null
+  reverted_at: string | null
+  cancelled_at: string | null
+  created_at: string
+}
+
+export type MarkdownStatus = 'scheduled' | 'active' | 'ended' | 'cancelled'
+
+export const MARKDOWN_STATUS_STYLES: Record<MarkdownStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  ended: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export const getMarkdownStatus = (markdown: Markdown): MarkdownStatus => {
+  if (markdown.reverted_at) return 'ended'
+  if (markdown.cancelled_at) return markdown.applied_at ? 'ended' : 'cancelled'
+  return markdown.applied_at ? 'active' : 'scheduled'
+}
+
+// Rounded to the cent and never below zero
+export const applyPriceChange = (product: { sell_price: number, buy_price?: number | null }, { mode, amount }: PriceChange) => {
+  const price = mode === 'percent'
+    ? product.sell_price * (1 + amount / 100)
+    : mode === 'fixed'
+      ? product.sell_price + amount
+      : (product.buy_price ?? 0) / (1 - amount / 100)
+
+  return Math.max(0, Math.round(price * 100) / 100)
+}
+
+// Share of the sell price left after cost, the same measure the Analytics page uses
+export const getMargin = (sellPrice: number, buyPrice: number) =>
+  sellPrice > 0 ? ((sellPrice - buyPrice) / sellPrice) * 100 : 0
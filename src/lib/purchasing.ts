@@ -0,0 +1,66 @@
+export interface Supplier {
+  id: string
+  name: string
+  contact_name: string
+  phone: string
+  email: string
+  notes: string
+}
+
+export interface SupplierBalance {
+  supplier_id: string
+  open_orders: number
+  outstanding_value: number
+  received_value: number
+  paid: number
+  balance: number
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received'
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+}
+
+export const PURCHASE_ORDER_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+}
+
+export interface PurchaseOrderLine {
+  id: string
+  product_id: string
+  variant_id: string | null
+  quantity_ordered: number
+  quantity_received: number
+  unit_cost: number
+}
+
+export interface PurchaseOrder {
+  id: string
+  reference: string
+  supplier_id: string
+  status: PurchaseOrderStatus
+  expected_date: string | null
+  notes: string
+  sent_at: string | null
+  created_at: string
+  purchase_order_lines: PurchaseOrderLine[]
+}
+
+// Sent orders still waiting on some or all of their goods
+export const isOpenOrder = (order: Pick<PurchaseOrder, 'status'>) =>
+  order.status === 'sent' || order.status === 'partially_received'
+
+export const getOrderTotals = (lines: PurchaseOrderLine[]) => lines.reduce(
+  (totals, line) => ({
+    ordered: totals.ordered + line.quantity_ordered * line.unit_cost,
+    received: totals.received + line.quantity_received * line.unit_cost,
+  }),
+  { ordered: 0, received: 0 }
+)
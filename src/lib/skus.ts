@@ -0,0 +1,40 @@
+import { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+export const DEFAULT_SKU_TEMPLATE = '{CAT}-{BRAND}-{SEQ:5}'
+
+// What each template token becomes; the database does the actual substitution
+export const SKU_TOKENS = [
+  { token: '{CAT}', description: 'First three letters of the category' },
+  { token: '{BRAND}', description: 'First three letters of the brand' },
+  { token: '{COLL}', description: 'First three letters of the collection' },
+  { token: '{SEQ:5}', description: 'Next number for that prefix, padded to 5 digits' },
+]
+
+export const hasSequenceToken = (template: string) => /\{SEQ(:\d+)?\}/.test(template)
+
+interface SkuLookups {
+  category_id?: string | null
+  brand_id?: string | null
+  collection_id?: string | null
+}
+
+// The SKU the next product with these lookups would be given. Nothing is reserved, so
+// someone else adding a product first can move it on by one.
+export const previewSku = async ({ category_id, brand_id, collection_id }: SkuLookups, template?: string) => {
+  const { data, error } = await supabase.rpc('preview_sku', {
+    category_id: category_id || null,
+    brand_id: brand_id || null,
+    collection_id: collection_id || null,
+    template: template ?? null
+  })
+
+  if (error) throw error
+  return data as string
+}
+
+// Unique violation on products.sku or product_variants.sku
+export const isDuplicateSku = (error: unknown) => {
+  const { code, message } = (error ?? {}) as Partial<PostgrestError>
+  return code === '23505' && !!message?.includes('sku')
+}
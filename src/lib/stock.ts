@@ -0,0 +1,41 @@
+export type StockStatus = 'out' | 'low' | 'ok'
+
+export interface StockLevel {
+  quantity: number
+  reorder_point: number
+}
+
+// At or below the reorder point counts as low, matching the notification trigger
+export const getStockStatus = ({ quantity, reorder_point }: StockLevel): StockStatus =>
+  quantity <= 0 ? 'out' : quantity <= reorder_point ? 'low' : 'ok'
+
+export const needsReorder = (product: StockLevel) => getStockStatus(product) !== 'ok'
+
+export const STOCK_STATUS_STYLES: Record<StockStatus, string> = {
+  out: 'bg-red-100 text-red-800',
+  low: 'bg-yellow-100 text-yellow-800',
+  ok: 'bg-green-100 text-green-800',
+}
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  out: 'Out of stock',
+  low: 'Low stock',
+  ok: 'In stock',
+}
+
+// Empty shelves first, then whatever is furthest below its reorder point
+export const sortByUrgency = <T extends StockLevel>(products: T[]) =>
+  [...products].sort((a, b) =>
+    Number(b.quantity <= 0) - Number(a.quantity <= 0) ||
+    (a.quantity - a.reorder_point) - (b.quantity - b.reorder_point)
+  )
+
+// Lets the notification bell refresh straight after a sale instead of waiting for its next poll
+const STOCK_CHANGED_EVENT = 'stock-changed'
+
+export const announceStockChange = () => window.dispatchEvent(new Event(STOCK_CHANGED_EVENT))
+
+export const onStockChange = (listener: () => void) => {
+  window.addEventListener(STOCK_CHANGED_EVENT, listener)
+  return () => window.removeEventListener(STOCK_CHANGED_EVENT, listener)
+}
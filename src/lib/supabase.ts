@@ -3,7 +3,49 @@ import { createClient } from '@supabase/supabase-js'
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || ''
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || ''
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+const SESSION_TOKEN_KEY = 'elegante_session_token'
+
+export const getSessionToken = () => localStorage.getItem(SESSION_TOKEN_KEY)
+
+export const setSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+  }
+}
+
+// Held by a shared till while it sits on the PIN lock screen
+const TILL_TOKEN_KEY = 'elegante_till_token'
+
+export const getTillToken = () => localStorage.getItem(TILL_TOKEN_KEY)
+
+export const setTillToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TILL_TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(TILL_TOKEN_KEY)
+  }
+}
+
+// Every request carries the signed session token issued by auth-helpers so
+// RLS sees the caller's id and role; before login it falls back to the anon key.
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  accessToken: async () => getSessionToken()
+})
+
+export const callAuthHelpers = async (action: string, payload: Record<string, unknown> = {}) => {
+  const response = await fetch(`${supabaseUrl}/functions/v1/auth-helpers`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${getSessionToken() ?? supabaseAnonKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action, ...payload })
+  })
+
+  return response.json()
+}
 
 export type Database = {
   public: {
@@ -13,21 +55,72 @@ export type Database = {
           id: string
           username: string
           password: string
-          role: 'super_admin' | 'admin' | 'sales_staff'
+          role: string
           created_at: string
         }
         Insert: {
           id?: string
           username: string
           password: string
-          role: 'super_admin' | 'admin' | 'sales_staff'
+          role: string
           created_at?: string
         }
         Update: {
           id?: string
           username?: string
           password?: string
-          role?: 'super_admin' | 'admin' | 'sales_staff'
+          role?: string
+          created_at?: string
+        }
+      }
+      categories: {
+        Row: {
+          id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_at?: string
+        }
+      }
+      brands: {
+        Row: {
+          id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_at?: string
+        }
+      }
+      collections: {
+        Row: {
+          id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
           created_at?: string
         }
       }
@@ -39,6 +132,12 @@ export type Database = {
           buy_price: number
           sell_price: number
           quantity: number
+          category_id: string | null
+          brand_id: string | null
+          collection_id: string | null
+          reorder_point: number
+          reorder_quantity: number
+          archived_at: string | null
           created_at: string
         }
         Insert: {
@@ -48,6 +147,12 @@ export type Database = {
           buy_price: number
           sell_price: number
           quantity?: number
+          category_id?: string | null
+          brand_id?: string | null
+          collection_id?: string | null
+          reorder_point?: number
+          reorder_quantity?: number
+          archived_at?: string | null
           created_at?: string
         }
         Update: {
@@ -57,20 +162,101 @@ export type Database = {
           buy_price?: number
           sell_price?: number
           quantity?: number
+          category_id?: string | null
+          brand_id?: string | null
+          collection_id?: string | null
+          reorder_point?: number
+          reorder_quantity?: number
+          archived_at?: string | null
+          created_at?: string
+        }
+      }
+      product_variants: {
+        Row: {
+          id: string
+          product_id: string
+          size: string
+          colour: string
+          fit: string
+          sku: string
+          sell_price: number | null
+          quantity: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          size?: string
+          colour?: string
+          fit?: string
+          sku: string
+          sell_price?: number | null
+          created_at?: string
+        }
+        Update: {
+          size?: string
+          colour?: string
+          fit?: string
+          sku?: string
+          sell_price?: number | null
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          kind: 'low_stock' | 'out_of_stock'
+          product_id: string
+          message: string
+          created_at: string
+          read_at: string | null
+        }
+        Insert: {
+          id?: string
+          kind: 'low_stock' | 'out_of_stock'
+          product_id: string
+          message: string
+          created_at?: string
+          read_at?: string | null
+        }
+        Update: {
+          read_at?: string | null
+        }
+      }
+      product_images: {
+        Row: {
+          id: string
+          product_id: string
+          path: string
+          thumbnail_path: string
+          is_primary: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          path: string
+          thumbnail_path: string
+          is_primary?: boolean
           created_at?: string
         }
+        Update: {
+          is_primary?: boolean
+        }
       }
       stock_entries: {
         Row: {
           id: string
           product_id: string
+          variant_id: string | null
           quantity: number
           date: string
+          purchase_order_line_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           product_id: string
+          variant_id?: string | null
           quantity: number
           date?: string
           created_at?: string
@@ -78,17 +264,145 @@ export type Database = {
         Update: {
           id?: string
           product_id?: string
+          variant_id?: string | null
           quantity?: number
           date?: string
           created_at?: string
         }
       }
+      suppliers: {
+        Row: {
+          id: string
+          name: string
+          contact_name: string
+          phone: string
+          email: string
+          notes: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          contact_name?: string
+          phone?: string
+          email?: string
+          notes?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          contact_name?: string
+          phone?: string
+          email?: string
+          notes?: string
+          created_at?: string
+        }
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          reference: string
+          supplier_id: string
+          status: 'draft' | 'sent' | 'partially_received' | 'received'
+          expected_date: string | null
+          notes: string
+          sent_at: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          product_id: string
+          variant_id: string | null
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      supplier_payments: {
+        Row: {
+          id: string
+          supplier_id: string
+          amount: number
+          paid_on: string
+          reference: string
+          recorded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          supplier_id: string
+          amount: number
+          paid_on?: string
+          reference?: string
+          recorded_by?: string | null
+          created_at?: string
+        }
+        Update: never
+      }
+      product_prices: {
+        Row: {
+          id: string
+          product_id: string
+          buy_price: number
+          sell_price: number
+          effective_from: string
+          effective_to: string | null
+          changed_by: string | null
+        }
+        Insert: never
+        Update: never
+      }
+      markdowns: {
+        Row: {
+          id: string
+          name: string
+          starts_at: string
+          ends_at: string
+          applied_at: string | null
+          reverted_at: string | null
+          cancelled_at: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      markdown_items: {
+        Row: {
+          markdown_id: string
+          product_id: string
+          sell_price: number
+          original_price: number | null
+        }
+        Insert: never
+        Update: never
+      }
+      sale_costs: {
+        Row: {
+          sale_id: string
+          unit_cost: number
+        }
+        Insert: never
+        Update: never
+      }
       sales: {
         Row: {
           id: string
           product_id: string
+          variant_id: string | null
           quantity: number
           price: number
+          list_price: number
           date: string
           recorded_by_user_id: string
           created_at: string
@@ -96,6 +410,7 @@ export type Database = {
         Insert: {
           id?: string
           product_id: string
+          variant_id?: string | null
           quantity: number
           price: number
           date?: string
@@ -105,6 +420,7 @@ export type Database = {
         Update: {
           id?: string
           product_id?: string
+          variant_id?: string | null
           quantity?: number
           price?: number
           date?: string
@@ -129,6 +445,231 @@ export type Database = {
           created_at?: string
         }
       }
+      roles: {
+        Row: {
+          key: string
+          name: string
+          is_system: boolean
+          requires_two_factor: boolean
+          created_at: string
+        }
+        Insert: {
+          key: string
+          name: string
+          is_system?: boolean
+          requires_two_factor?: boolean
+          created_at?: string
+        }
+        Update: {
+          key?: string
+          name?: string
+          is_system?: boolean
+          requires_two_factor?: boolean
+          created_at?: string
+        }
+      }
+      permissions: {
+        Row: {
+          key: string
+          description: string
+        }
+        Insert: {
+          key: string
+          description: string
+        }
+        Update: {
+          key?: string
+          description?: string
+        }
+      }
+      role_permissions: {
+        Row: {
+          role: string
+          permission: string
+        }
+        Insert: {
+          role: string
+          permission: string
+        }
+        Update: {
+          role?: string
+          permission?: string
+        }
+      }
+      audit_log: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_username: string | null
+          table_name: string
+          row_id: string | null
+          action: 'INSERT' | 'UPDATE' | 'DELETE'
+          old_data: Record<string, unknown> | null
+          new_data: Record<string, unknown> | null
+          created_at: string
+        }
+      }
+    }
+    Views: {
+      product_catalog: {
+        Row: {
+          id: string
+          name: string
+          sku: string
+          sell_price: number
+          quantity: number
+          category_id: string | null
+          brand_id: string | null
+          collection_id: string | null
+          reorder_point: number
+          reorder_quantity: number
+          archived_at: string | null
+          created_at: string
+        }
+      }
+      staff_directory: {
+        Row: {
+          id: string
+          username: string
+        }
+      }
+      supplier_balances: {
+        Row: {
+          supplier_id: string
+          open_orders: number
+          outstanding_value: number
+          received_value: number
+          paid: number
+          balance: number
+        }
+      }
+    }
+    Functions: {
+      import_products: {
+        Args: {
+          items: {
+            row: number
+            name: string
+            sku: string
+            buy_price: number
+            sell_price: number
+            quantity: number
+          }[]
+        }
+        Returns: number
+      }
+      search_products: {
+        Args: { term?: string }
+        Returns: Database['public']['Tables']['products']['Row'][]
+      }
+      search_product_catalog: {
+        Args: { term?: string }
+        Returns: Database['public']['Views']['product_catalog']['Row'][]
+      }
+      search_sales: {
+        Args: { term?: string }
+        Returns: Database['public']['Tables']['sales']['Row'][]
+      }
+      search_stock_entries: {
+        Args: { term?: string }
+        Returns: Database['public']['Tables']['stock_entries']['Row'][]
+      }
+      save_product: {
+        Args: {
+          product_id: string | null
+          product: {
+            name: string
+            sku: string
+            buy_price?: number
+            sell_price: number
+            category_id: string | null
+            brand_id: string | null
+            collection_id: string | null
+            reorder_point: number
+            reorder_quantity: number
+          }
+        }
+        Returns: string
+      }
+      set_product_archived: {
+        Args: { product_id: string, archived: boolean }
+        Returns: undefined
+      }
+      delete_product: {
+        Args: { product_id: string }
+        Returns: undefined
+      }
+      reprice_products: {
+        Args: {
+          items: { product_id: string, sell_price: number }[]
+        }
+        Returns: number
+      }
+      schedule_markdown: {
+        Args: {
+          name: string
+          starts_at: string
+          ends_at: string
+          items: { product_id: string, sell_price: number }[]
+        }
+        Returns: string
+      }
+      end_markdown: {
+        Args: { markdown_id: string }
+        Returns: undefined
+      }
+      save_purchase_order: {
+        Args: {
+          order_id: string | null
+          supplier_id: string
+          expected_date: string | null
+          notes: string
+          lines: {
+            product_id: string
+            variant_id: string | null
+            quantity_ordered: number
+            unit_cost: number
+          }[]
+        }
+        Returns: string
+      }
+      send_purchase_order: {
+        Args: { order_id: string }
+        Returns: undefined
+      }
+      receive_purchase_order: {
+        Args: {
+          order_id: string
+          lines: { line_id: string, quantity: number }[]
+        }
+        Returns: undefined
+      }
+      preview_sku: {
+        Args: {
+          category_id?: string | null
+          brand_id?: string | null
+          collection_id?: string | null
+          template?: string | null
+        }
+        Returns: string
+      }
+      sales_by_category: {
+        Args: { since: string }
+        Returns: {
+          category: string
+          units_sold: number
+          revenue: number
+          cost: number | null
+        }[]
+      }
+      sales_summary: {
+        Args: { term?: string, date_from?: string | null, date_to?: string | null }
+        Returns: {
+          revenue: number
+          sales_count: number
+          items_sold: number
+        }[]
+      }
     }
   }
 }
\ No newline at end of file
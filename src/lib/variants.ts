@@ -0,0 +1,28 @@
+export interface ProductVariant {
+  id: string
+  product_id: string
+  size: string
+  colour: string
+  fit: string
+  sku: string
+  sell_price: number | null
+  quantity: number
+}
+
+export const VARIANT_OPTIONS = ['size', 'colour', 'fit'] as const
+
+export type VariantOption = typeof VARIANT_OPTIONS[number]
+
+// "M / Navy / Slim", skipping options the variant does not use
+export const formatVariantLabel = (variant: Pick<ProductVariant, VariantOption>) =>
+  VARIANT_OPTIONS.map(option => variant[option]).filter(Boolean).join(' / ')
+
+// A variant without its own price sells at the parent's price
+export const getVariantPrice = (variant: Pick<ProductVariant, 'sell_price'>, product: { sell_price: number }) =>
+  variant.sell_price ?? product.sell_price
+
+// SHIRT-01 + M / Navy Blue -> SHIRT-01-M-NAVYBLUE
+export const buildVariantSku = (parentSku: string, variant: Pick<ProductVariant, VariantOption>) =>
+  [parentSku, ...VARIANT_OPTIONS.map(option => variant[option].toUpperCase().replace(/[^A-Z0-9]/g, ''))]
+    .filter(Boolean)
+    .join('-')
@@ -0,0 +1,301 @@
+import React, { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { callAuthHelpers } from '../lib/supabase'
+import TwoFactorSettings from '../components/TwoFactorSettings'
+import { useForm } from 'react-hook-form'
+import { User, Key, AlertTriangle, Grid3x3 } from 'lucide-react'
+
+interface ChangePasswordForm {
+  current_password: string
+  new_password: string
+  confirm_password: string
+}
+
+interface PinForm {
+  pin: string
+  confirm_pin: string
+  current_password: string
+}
+
+const Account: React.FC = () => {
+  const { user, changePassword } = useAuth()
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<ChangePasswordForm>()
+
+  const newPassword = watch('new_password')
+
+  const [pinError, setPinError] = useState('')
+  const [pinMessage, setPinMessage] = useState('')
+  const [isSavingPin, setIsSavingPin] = useState(false)
+
+  const {
+    register: registerPin,
+    handleSubmit: handlePinSubmit,
+    reset: resetPin,
+    watch: watchPin,
+    getValues: getPinValues,
+    formState: { errors: pinErrors }
+  } = useForm<PinForm>()
+
+  const pin = watchPin('pin')
+
+  const onSubmit = async (data: ChangePasswordForm) => {
+    setIsSaving(true)
+    setError('')
+    setMessage('')
+
+    try {
+      await changePassword(data.current_password, data.new_password)
+      setMessage('Your password has been changed and your other sessions have been signed out')
+      reset()
+    } catch (error) {
+      console.error('Error changing password:', error)
+      setError((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const savePin = async (newPin: string | null, currentPassword: string) => {
+    setIsSavingPin(true)
+    setPinError('')
+    setPinMessage('')
+
+    try {
+      const result = await callAuthHelpers('set_pin', {
+        current_password: currentPassword,
+        pin: newPin
+      })
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save PIN')
+      }
+
+      setPinMessage(newPin ? 'Your PIN has been saved' : 'Your PIN has been removed')
+      resetPin()
+    } catch (error) {
+      console.error('Error saving PIN:', error)
+      setPinError((error as Error).message)
+    } finally {
+      setIsSavingPin(false)
+    }
+  }
+
+  const handleRemovePin = () => {
+    const currentPassword = getPinValues('current_password')
+    if (!currentPassword) {
+      setPinError('Enter your current password to remove your PIN')
+      return
+    }
+    savePin(null, currentPassword)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">My Account</h1>
+        <p className="text-gray-600">Manage your sign-in details</p>
+      </div>
+
+      {user?.must_change_password && (
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-yellow-50 border border-yellow-200">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+          <p className="text-sm text-yellow-800">
+            You signed in with a temporary password. Choose a new password to continue.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center">
+          <User className="h-8 w-8 text-gray-400 mr-3" />
+          <div>
+            <div className="text-sm font-medium text-gray-900">{user?.username}</div>
+            <div className="text-xs text-gray-500 capitalize">{user?.role?.replace('_', ' ')}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 max-w-md">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-4">
+          <Key className="h-5 w-5 text-gray-400" />
+          Change Password
+        </h2>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Current Password
+            </label>
+            <input
+              {...register('current_password', { required: 'Current password is required' })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Enter current password"
+            />
+            {errors.current_password && (
+              <p className="text-sm text-red-600 mt-1">{errors.current_password.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              New Password
+            </label>
+            <input
+              {...register('new_password', {
+                required: 'New password is required',
+                minLength: { value: 6, message: 'Password must be at least 6 characters' }
+              })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Enter new password"
+            />
+            {errors.new_password && (
+              <p className="text-sm text-red-600 mt-1">{errors.new_password.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Confirm New Password
+            </label>
+            <input
+              {...register('confirm_password', {
+                required: 'Please confirm the new password',
+                validate: (value) => value === newPassword || 'Passwords do not match'
+              })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Re-enter new password"
+            />
+            {errors.confirm_password && (
+              <p className="text-sm text-red-600 mt-1">{errors.confirm_password.message}</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 border border-red-200">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {message && (
+            <div className="p-3 rounded-md bg-green-50 border border-green-200">
+              <p className="text-sm text-green-700">{message}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Change Password
+          </button>
+        </form>
+      </div>
+
+      <TwoFactorSettings />
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 max-w-md">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-1">
+          <Grid3x3 className="h-5 w-5 text-gray-400" />
+          Till PIN
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          A 4 to 6 digit PIN lets you switch in quickly at a locked till.
+        </p>
+
+        <form onSubmit={handlePinSubmit((data) => savePin(data.pin, data.current_password))} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              New PIN
+            </label>
+            <input
+              {...registerPin('pin', {
+                required: 'PIN is required',
+                pattern: { value: /^\d{4,6}$/, message: 'PIN must be 4 to 6 digits' }
+              })}
+              type="password"
+              inputMode="numeric"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Enter PIN"
+            />
+            {pinErrors.pin && (
+              <p className="text-sm text-red-600 mt-1">{pinErrors.pin.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Confirm PIN
+            </label>
+            <input
+              {...registerPin('confirm_pin', {
+                validate: (value) => value === pin || 'PINs do not match'
+              })}
+              type="password"
+              inputMode="numeric"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Re-enter PIN"
+            />
+            {pinErrors.confirm_pin && (
+              <p className="text-sm text-red-600 mt-1">{pinErrors.confirm_pin.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Current Password
+            </label>
+            <input
+              {...registerPin('current_password', { required: 'Current password is required' })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Enter current password"
+            />
+            {pinErrors.current_password && (
+              <p className="text-sm text-red-600 mt-1">{pinErrors.current_password.message}</p>
+            )}
+          </div>
+
+          {pinError && (
+            <div className="p-3 rounded-md bg-red-50 border border-red-200">
+              <p className="text-sm text-red-600">{pinError}</p>
+            </div>
+          )}
+
+          {pinMessage && (
+            <div className="p-3 rounded-md bg-green-50 border border-green-200">
+              <p className="text-sm text-green-700">{pinMessage}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSavingPin}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save PIN
+            </button>
+            <button
+              type="button"
+              onClick={handleRemovePin}
+              disabled={isSavingPin}
+              className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Remove PIN
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default Account
@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts'
 import { TrendingUp, DollarSign, Package, ShoppingCart } from 'lucide-react'
 import { format, subDays, startOfMonth, endOfMonth } from 'date-fns'
+import { ProductVariant, formatVariantLabel } from '../lib/variants'
 
 interface MonthlyData {
   month: string
@@ -14,15 +16,82 @@ interface MonthlyData {
 
 interface TopProduct {
   name: string
+  variant: string
   sku: string
   totalSold: number
   revenue: number
 }
 
+interface CategoryBreakdown {
+  category: string
+  unitsSold: number
+  revenue: number
+  profit: number
+  margin: number
+}
+
+// Cost is null for roles without cost.view
+interface CategoryTotals {
+  category: string
+  units_sold: number
+  revenue: number
+  cost: number | null
+}
+
+interface ProductSale {
+  product_id: string
+  variant_id: string | null
+  quantity: number
+  price: number
+  products: {
+    name: string
+    sku: string
+  }
+  product_variants: Pick<ProductVariant, 'size' | 'colour' | 'fit' | 'sku'> | null
+}
+
+// sale_costs is one-to-one with sales, so it embeds as a single row
+interface CostedSale {
+  quantity: number
+  price: number
+  sale_costs: { unit_cost: number } | null
+}
+
+// Variant sales roll up to their parent unless split out by variant
+const rankTopProducts = (sales: ProductSale[], byVariant: boolean): TopProduct[] => {
+  const productMap = new Map<string, TopProduct>()
+
+  sales.forEach(sale => {
+    const variant = byVariant ? sale.product_variants : null
+    const key = variant ? `${sale.product_id}-${sale.variant_id}` : sale.product_id
+    const existing = productMap.get(key)
+
+    if (existing) {
+      existing.totalSold += sale.quantity
+      existing.revenue += sale.price * sale.quantity
+    } else {
+      productMap.set(key, {
+        name: sale.products.name,
+        variant: variant ? formatVariantLabel(variant) : '',
+        sku: variant ? variant.sku : sale.products.sku,
+        totalSold: sale.quantity,
+        revenue: sale.price * sale.quantity
+      })
+    }
+  })
+
+  return Array.from(productMap.values())
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, 5)
+}
+
 const Analytics: React.FC = () => {
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([])
-  const [topProducts, setTopProducts] = useState<TopProduct[]>([])
+  const [productSales, setProductSales] = useState<ProductSale[]>([])
+  const [byVariant, setByVariant] = useState(false)
+  const [categoryBreakdown, setCategoryBreakdown] = useState<CategoryBreakdown[]>([])
   const [loading, setLoading] = useState(true)
+  const canViewCost = usePermission('cost.view')
   const [stats, setStats] = useState({
     totalRevenue: 0,
     totalProfit: 0,
@@ -44,18 +113,20 @@ const Analytics: React.FC = () => {
         const monthEnd = format(endOfMonth(date), 'yyyy-MM-dd')
         const monthName = format(date, 'MMM yyyy')
 
+        // Costed at the buy price when each sale was made, not today's
         const { data: sales } = await supabase
           .from('sales')
           .select(`
             quantity,
             price,
-            products!inner(buy_price)
+            sale_costs(unit_cost)
           `)
           .gte('date', monthStart)
           .lte('date', monthEnd)
+          .overrideTypes<CostedSale[], { merge: false }>()
 
         const revenue = sales?.reduce((sum, sale) => sum + (sale.price * sale.quantity), 0) || 0
-        const cost = sales?.reduce((sum, sale) => sum + (sale.products.buy_price * sale.quantity), 0) || 0
+        const cost = sales?.reduce((sum, sale) => sum + ((sale.sale_costs?.unit_cost ?? 0) * sale.quantity), 0) || 0
         const profit = revenue - cost
 
         months.push({
@@ -69,37 +140,38 @@ const Analytics: React.FC = () => {
 
       setMonthlyData(months)
 
-      // Get top products
+      // Revenue and margin per category over the same six months, totalled in the database
+      const { data: categoryTotals, error: categoryError } = await supabase
+        .rpc('sales_by_category', { since: format(startOfMonth(subDays(new Date(), 150)), 'yyyy-MM-dd') })
+
+      if (categoryError) throw categoryError
+
+      const categoryRows: CategoryTotals[] = categoryTotals || []
+      setCategoryBreakdown(categoryRows.map(totals => {
+        const profit = totals.revenue - (totals.cost ?? 0)
+        return {
+          category: totals.category,
+          unitsSold: totals.units_sold,
+          revenue: totals.revenue,
+          profit,
+          margin: totals.revenue > 0 ? (profit / totals.revenue) * 100 : 0
+        }
+      }))
+
+      // Get top products; the catalog names them without needing cost.view
       const { data: topProductsData } = await supabase
         .from('sales')
         .select(`
+          product_id,
+          variant_id,
           quantity,
           price,
-          products!inner(name, sku)
+          products:product_catalog(name, sku),
+          product_variants(size, colour, fit, sku)
         `)
+        .overrideTypes<ProductSale[], { merge: false }>()
 
-      const productMap = new Map()
-      topProductsData?.forEach(sale => {
-        const key = `${sale.products.name}-${sale.products.sku}`
-        if (productMap.has(key)) {
-          const existing = productMap.get(key)
-          existing.totalSold += sale.quantity
-          existing.revenue += sale.price * sale.quantity
-        } else {
-          productMap.set(key, {
-            name: sale.products.name,
-            sku: sale.products.sku,
-            totalSold: sale.quantity,
-            revenue: sale.price * sale.quantity
-          })
-        }
-      })
-
-      const topProductsArray = Array.from(productMap.values())
-        .sort((a, b) => b.revenue - a.revenue)
-        .slice(0, 5)
-
-      setTopProducts(topProductsArray)
+      setProductSales(topProductsData || [])
 
       // Calculate overall stats
       const totalRevenue = months.reduce((sum, month) => sum + month.revenue, 0)
@@ -122,6 +194,8 @@ const Analytics: React.FC = () => {
     }
   }
 
+  const topProducts = rankTopProducts(productSales, byVariant)
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -138,7 +212,7 @@ const Analytics: React.FC = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className={`grid grid-cols-1 md:grid-cols-2 ${canViewCost ? 'lg:grid-cols-4' : ''} gap-6`}>
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between">
             <div>
@@ -151,17 +225,20 @@ const Analytics: React.FC = () => {
           </div>
         </div>
 
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600">Total Profit</p>
-              <p className={`text-2xl font-bold ${stats.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                KES {stats.totalProfit.toLocaleString()}
-              </p>
+        {/* Profit is only known to roles that can see what stock cost */}
+        {canViewCost && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Total Profit</p>
+                <p className={`text-2xl font-bold ${stats.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  KES {stats.totalProfit.toLocaleString()}
+                </p>
+              </div>
+              <TrendingUp className="h-8 w-8 text-blue-600 opacity-20" />
             </div>
-            <TrendingUp className="h-8 w-8 text-blue-600 opacity-20" />
           </div>
-        </div>
+        )}
 
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between">
@@ -173,24 +250,28 @@ const Analytics: React.FC = () => {
           </div>
         </div>
 
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600">Profit Margin</p>
-              <p className={`text-2xl font-bold ${stats.profitMargin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                {stats.profitMargin.toFixed(1)}%
-              </p>
+        {canViewCost && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Profit Margin</p>
+                <p className={`text-2xl font-bold ${stats.profitMargin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {stats.profitMargin.toFixed(1)}%
+                </p>
+              </div>
+              <Package className="h-8 w-8 text-orange-600 opacity-20" />
             </div>
-            <Package className="h-8 w-8 text-orange-600 opacity-20" />
           </div>
-        </div>
+        )}
       </div>
 
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Revenue & Profit Chart */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Revenue & Profit Trends</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {canViewCost ? 'Revenue & Profit Trends' : 'Revenue Trend'}
+          </h3>
           <ResponsiveContainer width="100%" height={300}>
             <BarChart data={monthlyData}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -201,7 +282,7 @@ const Analytics: React.FC = () => {
               />
               <Legend />
               <Bar dataKey="revenue" fill="#059669" name="Revenue" />
-              <Bar dataKey="profit" fill="#2563EB" name="Profit" />
+              {canViewCost && <Bar dataKey="profit" fill="#2563EB" name="Profit" />}
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -228,9 +309,81 @@ const Analytics: React.FC = () => {
         </div>
       </div>
 
+      {/* Category Breakdown */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Revenue &amp; Margin by Category</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Units Sold
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Revenue
+                </th>
+                {canViewCost && (
+                  <>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Profit
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Margin
+                    </th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {categoryBreakdown.map((row) => (
+                <tr key={row.category} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {row.category}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {row.unitsSold}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    KES {row.revenue.toLocaleString()}
+                  </td>
+                  {canViewCost && (
+                    <>
+                      <td className={`px-6 py-4 text-sm font-semibold ${row.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        KES {row.profit.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {row.margin.toFixed(1)}%
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {categoryBreakdown.length === 0 && (
+          <p className="text-center text-sm text-gray-600 py-8">No sales in the last six months</p>
+        )}
+      </div>
+
       {/* Top Products */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Top Performing Products</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Top Performing Products</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={byVariant}
+              onChange={(e) => setByVariant(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Split by size and colour
+          </label>
+        </div>
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-gray-50">
@@ -255,8 +408,15 @@ const Analytics: React.FC = () => {
                   <td className="px-6 py-4">
                     <div className="flex items-center">
                       <Package className="h-8 w-8 text-gray-400 mr-3" />
-                      <div className="text-sm font-medium text-gray-900">
-                        {product.name}
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {product.name}
+                        </div>
+                        {product.variant && (
+                          <div className="text-sm text-gray-500">
+                            {product.variant}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
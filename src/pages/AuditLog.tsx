@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { History, ChevronDown, ChevronRight, User } from 'lucide-react'
+import { format, startOfDay, endOfDay, parseISO } from 'date-fns'
+
+interface AuditEntry {
+  id: string
+  actor_id: string | null
+  actor_username: string | null
+  table_name: string
+  row_id: string | null
+  action: 'INSERT' | 'UPDATE' | 'DELETE'
+  old_data: Record<string, unknown> | null
+  new_data: Record<string, unknown> | null
+  created_at: string
+}
+
+interface StaffMember {
+  id: string
+  username: string
+}
+
+interface Filters {
+  actorId: string
+  tableName: string
+  from: string
+  to: string
+}
+
+const PAGE_SIZE = 100
+
+const ENTITIES: Record<string, string> = {
+  products: 'Product',
+  product_variants: 'Variant',
+  product_images: 'Product Image',
+  stock_entries: 'Stock Entry',
+  sales: 'Sale',
+  users: 'User',
+  purchase_orders: 'Purchase Order',
+  purchase_order_lines: 'Purchase Order Line',
+  supplier_payments: 'Supplier Payment',
+}
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case 'INSERT': return 'bg-green-100 text-green-800'
+    case 'UPDATE': return 'bg-blue-100 text-blue-800'
+    case 'DELETE': return 'bg-red-100 text-red-800'
+    default: return 'bg-gray-100 text-gray-800'
+  }
+}
+
+const getActionLabel = (action: string) => {
+  switch (action) {
+    case 'INSERT': return 'Created'
+    case 'UPDATE': return 'Changed'
+    case 'DELETE': return 'Deleted'
+    default: return action
+  }
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Only the fields that differ for updates; every field for inserts and deletes
+const getChanges = (entry: AuditEntry) => {
+  const before = entry.old_data ?? {}
+  const after = entry.new_data ?? {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+
+  return fields
+    .filter(field => entry.action !== 'UPDATE' || JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }))
+}
+
+const getRecordLabel = (entry: AuditEntry) => {
+  const data = entry.new_data ?? entry.old_data ?? {}
+  return formatValue(data.name ?? data.username ?? data.sku ?? entry.row_id?.slice(0, 8))
+}
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [filters, setFilters] = useState<Filters>({ actorId: '', tableName: '', from: '', to: '' })
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      const { data, error } = await supabase
+        .from('staff_directory')
+        .select('id, username')
+        .order('username')
+
+      if (error) {
+        console.error('Error fetching staff:', error)
+        return
+      }
+      setStaff(data || [])
+    }
+
+    fetchStaff()
+  }, [])
+
+  useEffect(() => {
+    fetchEntries(filters, 0)
+  }, [filters])
+
+  const fetchEntries = async (activeFilters: Filters, offset: number) => {
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (activeFilters.actorId) query = query.eq('actor_id', activeFilters.actorId)
+      if (activeFilters.tableName) query = query.eq('table_name', activeFilters.tableName)
+      if (activeFilters.from) query = query.gte('created_at', startOfDay(parseISO(activeFilters.from)).toISOString())
+      if (activeFilters.to) query = query.lte('created_at', endOfDay(parseISO(activeFilters.to)).toISOString())
+
+      const { data, error } = await query
+
+      if (error) throw error
+
+      setEntries(current => offset === 0 ? (data || []) : [...current, ...(data || [])])
+      setHasMore((data || []).length === PAGE_SIZE)
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Every change to products, stock, sales and users</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+            <select
+              value={filters.actorId}
+              onChange={(e) => updateFilter('actorId', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Everyone</option>
+              {staff.map((member) => (
+                <option key={member.id} value={member.id}>{member.username}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+            <select
+              value={filters.tableName}
+              onChange={(e) => updateFilter('tableName', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Everything</option>
+              {Object.entries(ENTITIES).map(([tableName, label]) => (
+                <option key={tableName} value={tableName}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Audit Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="w-8 px-6 py-3"></th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Who
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Record
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map((entry) => (
+                <React.Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 text-gray-400">
+                      {expandedId === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm:ss')}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div className="flex items-center">
+                        <User className="h-4 w-4 text-gray-400 mr-2" />
+                        {entry.actor_username || 'System'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getActionColor(entry.action)}`}>
+                        {getActionLabel(entry.action)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <span className="text-gray-500">{ENTITIES[entry.table_name] ?? entry.table_name}:</span>{' '}
+                      {getRecordLabel(entry)}
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="bg-gray-50">
+                      <td></td>
+                      <td colSpan={4} className="px-6 py-4">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase">
+                              <th className="py-1 pr-4">Field</th>
+                              <th className="py-1 pr-4">Before</th>
+                              <th className="py-1">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {getChanges(entry).map(({ field, before, after }) => (
+                              <tr key={field}>
+                                <td className="py-1 pr-4 font-medium text-gray-700">{field}</td>
+                                <td className="py-1 pr-4 text-red-700 break-all">{formatValue(before)}</td>
+                                <td className="py-1 text-green-700 break-all">{formatValue(after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {entries.length === 0 && (
+          <div className="text-center py-12">
+            <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No changes found</h3>
+            <p className="text-gray-600">Try widening the filters</p>
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="px-6 py-4 border-t border-gray-200 text-center">
+            <button
+              onClick={() => fetchEntries(filters, entries.length)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AuditLog
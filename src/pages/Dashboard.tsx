@@ -1,16 +1,38 @@
 import React, { useEffect, useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { STOCK_STATUS_STYLES, getStockStatus, needsReorder, sortByUrgency } from '../lib/stock'
+import { Link } from 'react-router-dom'
 import { 
   Package, 
   TrendingUp, 
   DollarSign, 
   Users,
   ShoppingCart,
-  Calendar
+  Calendar,
+  AlertTriangle
 } from 'lucide-react'
 import { format, startOfMonth, endOfMonth } from 'date-fns'
 
+interface LowStockProduct {
+  id: string
+  name: string
+  sku: string
+  quantity: number
+  reorder_point: number
+}
+
+// sale_costs is one-to-one with sales, so it embeds as a single row
+interface CostedSale {
+  quantity: number
+  price: number
+  sale_costs: { unit_cost: number } | null
+}
+
+// The card shows the most urgent few; the Low Stock page has the rest
+const LOW_STOCK_CARD_LIMIT = 6
+
 interface DashboardStats {
   totalProducts: number
   totalStockValue: number
@@ -24,6 +46,11 @@ interface DashboardStats {
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth()
+  const canViewCost = usePermission('cost.view')
+  const canManageUsers = usePermission('users.manage')
+  const canEditProducts = usePermission('products.edit')
+  const canRecordSale = usePermission('sales.record')
+  const canAddStock = usePermission('stock.edit')
   const [stats, setStats] = useState<DashboardStats>({
     totalProducts: 0,
     totalStockValue: 0,
@@ -34,6 +61,7 @@ const Dashboard: React.FC = () => {
     todaysSales: 0,
     weekSales: 0,
   })
+  const [lowStock, setLowStock] = useState<LowStockProduct[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -48,38 +76,41 @@ const Dashboard: React.FC = () => {
       const today = format(new Date(), 'yyyy-MM-dd')
       const weekAgo = format(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd')
 
-      // Get total products and stock value
+      // Get total products and stock value (buy_price needs cost.view); archived products are out of the range
       const { data: products } = await supabase
-        .from('products')
+        .from(canViewCost ? 'products' : 'product_catalog')
         .select('*')
+        .is('archived_at', null)
 
       const totalProducts = products?.length || 0
       const totalStockValue = products?.reduce((sum, product) => 
-        sum + (product.buy_price * product.quantity), 0) || 0
+        sum + ((product.buy_price ?? 0) * product.quantity), 0) || 0
+
+      setLowStock(sortByUrgency((products || []).filter(needsReorder)))
 
-      // Get monthly sales for revenue calculation
+      // Get monthly sales for revenue calculation, costed at the price paid when sold
       const { data: monthlySales } = await supabase
         .from('sales')
         .select(`
           quantity,
           price,
-          product_id,
-          products!inner(buy_price)
+          sale_costs(unit_cost)
         `)
         .gte('date', monthStart)
         .lte('date', monthEnd)
+        .overrideTypes<CostedSale[], { merge: false }>()
 
-      const monthlyRevenue = monthlySales?.reduce((sum, sale) => 
+      const monthlyRevenue = monthlySales?.reduce((sum, sale) =>
         sum + (sale.price * sale.quantity), 0) || 0
 
-      const monthlyCost = monthlySales?.reduce((sum, sale) => 
-        sum + (sale.products.buy_price * sale.quantity), 0) || 0
+      const monthlyCost = monthlySales?.reduce((sum, sale) =>
+        sum + ((sale.sale_costs?.unit_cost ?? 0) * sale.quantity), 0) || 0
 
       const monthlyProfit = monthlyRevenue - monthlyCost
 
-      // Get user count (for super admin)
+      // Get user count (for user managers)
       let totalUsers = 0
-      if (user?.role === 'super_admin') {
+      if (canManageUsers) {
         const { data: users } = await supabase
           .from('users')
           .select('id')
@@ -163,8 +194,8 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
-      {user?.role === 'sales_staff' ? (
-        // Sales Staff Dashboard
+      {!canViewCost ? (
+        // Dashboard without cost figures
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <StatCard
             title="Today's Sales"
@@ -189,7 +220,7 @@ const Dashboard: React.FC = () => {
           />
         </div>
       ) : (
-        // Admin and Super Admin Dashboard
+        // Dashboard with cost and profit figures
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <StatCard
             title="Total Products"
@@ -223,7 +254,7 @@ const Dashboard: React.FC = () => {
             icon={<TrendingUp className="h-6 w-6" />}
             color={stats.monthlyProfit >= 0 ? "text-green-600" : "text-red-600"}
           />
-          {user?.role === 'super_admin' && (
+          {canManageUsers && (
             <StatCard
               title="Total Users"
               value={stats.totalUsers}
@@ -234,11 +265,40 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {lowStock.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              Below Reorder Point
+            </h2>
+            <Link to="/low-stock" className="text-sm text-blue-600 hover:text-blue-800">
+              View all {lowStock.length}
+            </Link>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {lowStock.slice(0, LOW_STOCK_CARD_LIMIT).map((product) => (
+              <li key={product.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{product.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {product.sku}{product.reorder_point > 0 && ` · reorder at ${product.reorder_point}`}
+                  </p>
+                </div>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STOCK_STATUS_STYLES[getStockStatus(product)]}`}>
+                  {product.quantity}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Recent Activity Section */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {user?.role !== 'sales_staff' && (
+          {canEditProducts && (
             <button
               onClick={() => window.location.href = '/products'}
               className="p-4 text-left border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
@@ -249,16 +309,18 @@ const Dashboard: React.FC = () => {
             </button>
           )}
           
-          <button
-            onClick={() => window.location.href = '/sales'}
-            className="p-4 text-left border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
-          >
-            <ShoppingCart className="h-6 w-6 text-green-600 mb-2" />
-            <h3 className="font-medium text-gray-900">Record Sale</h3>
-            <p className="text-sm text-gray-600">Add new sales transaction</p>
-          </button>
+          {canRecordSale && (
+            <button
+              onClick={() => window.location.href = '/sales'}
+              className="p-4 text-left border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ShoppingCart className="h-6 w-6 text-green-600 mb-2" />
+              <h3 className="font-medium text-gray-900">Record Sale</h3>
+              <p className="text-sm text-gray-600">Add new sales transaction</p>
+            </button>
+          )}
 
-          {user?.role !== 'sales_staff' && (
+          {canAddStock && (
             <button
               onClick={() => window.location.href = '/stock'}
               className="p-4 text-left border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
@@ -2,20 +2,35 @@ import React, { useState } from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { useForm } from 'react-hook-form'
-import { Shirt, Eye, EyeOff } from 'lucide-react'
+import { Shirt, Eye, EyeOff, ShieldCheck } from 'lucide-react'
 
 interface LoginForm {
   username: string
   password: string
 }
 
+interface TwoFactorForm {
+  code: string
+}
+
 const Login: React.FC = () => {
-  const { user, login } = useAuth()
+  const { user, login, verifyTwoFactor, needsSetup, businessName } = useAuth()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const [showPassword, setShowPassword] = useState(false)
+  const [needsCode, setNeedsCode] = useState(false)
 
   const { register, handleSubmit, formState: { errors } } = useForm<LoginForm>()
+  const {
+    register: registerCode,
+    handleSubmit: handleCodeSubmit,
+    reset: resetCode,
+    formState: { errors: codeErrors }
+  } = useForm<TwoFactorForm>()
+
+  if (needsSetup) {
+    return <Navigate to="/setup" replace />
+  }
 
   if (user) {
     return <Navigate to="/" replace />
@@ -25,15 +40,37 @@ const Login: React.FC = () => {
     setIsLoading(true)
     setError('')
 
-    const success = await login(data.username, data.password)
+    const result = await login(data.username, data.password)
     
-    if (!success) {
+    if (result === 'two_factor_required') {
+      setNeedsCode(true)
+    } else if (result === 'failed') {
       setError('Invalid username or password')
     }
     
     setIsLoading(false)
   }
 
+  const onSubmitCode = async (data: TwoFactorForm) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await verifyTwoFactor(data.code)
+    } catch (error) {
+      console.error('Two-factor error:', error)
+      setError((error as Error).message)
+      resetCode()
+      setIsLoading(false)
+    }
+  }
+
+  const handleBackToPassword = () => {
+    setNeedsCode(false)
+    setError('')
+    resetCode()
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8">
@@ -41,78 +78,127 @@ const Login: React.FC = () => {
           <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
             <Shirt className="h-8 w-8 text-blue-600" />
           </div>
-          <h1 className="text-2xl font-bold text-gray-900">Gents by Elegante</h1>
+          <h1 className="text-2xl font-bold text-gray-900">{businessName}</h1>
           <p className="text-gray-600 mt-2">Inventory Management System</p>
         </div>
 
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-          <div>
-            <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-              Username
-            </label>
-            <input
-              {...register('username', { required: 'Username is required' })}
-              type="text"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Enter your username"
-            />
-            {errors.username && (
-              <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>
-            )}
-          </div>
+        {needsCode ? (
+          <form onSubmit={handleCodeSubmit(onSubmitCode)} className="space-y-6">
+            <div className="flex items-start gap-3 p-3 rounded-md bg-blue-50 border border-blue-200">
+              <ShieldCheck className="h-5 w-5 text-blue-600 mt-0.5" />
+              <p className="text-sm text-blue-800">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
 
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
-            <div className="relative">
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                Authentication Code
+              </label>
               <input
-                {...register('password', { required: 'Password is required' })}
-                type={showPassword ? 'text' : 'password'}
-                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Enter your password"
+                {...registerCode('code', { required: 'Code is required' })}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="123456"
               />
-              <button
-                type="button"
-                className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                onClick={() => setShowPassword(!showPassword)}
-              >
-                {showPassword ? (
-                  <EyeOff className="h-4 w-4 text-gray-400" />
-                ) : (
-                  <Eye className="h-4 w-4 text-gray-400" />
-                )}
-              </button>
+              {codeErrors.code && (
+                <p className="mt-1 text-sm text-red-600">{codeErrors.code.message}</p>
+              )}
             </div>
-            {errors.password && (
-              <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+
+            {error && (
+              <div className="p-3 rounded-md bg-red-50 border border-red-200">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
             )}
-          </div>
 
-          {error && (
-            <div className="p-3 rounded-md bg-red-50 border border-red-200">
-              <p className="text-sm text-red-600">{error}</p>
-            </div>
-          )}
-
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isLoading ? (
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
             ) : (
-              'Sign in'
+                'Verify'
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleBackToPassword}
+              className="w-full text-sm text-blue-600 hover:text-blue-800"
+            >
+              Back to sign in
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                Username
+              </label>
+              <input
+                {...register('username', { required: 'Username is required' })}
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Enter your username"
+              />
+              {errors.username && (
+                <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <div className="relative">
+                <input
+                  {...register('password', { required: 'Password is required' })}
+                  type={showPassword ? 'text' : 'password'}
+                  className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Enter your password"
+                />
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeOff className="h-4 w-4 text-gray-400" />
+                ) : (
+                    <Eye className="h-4 w-4 text-gray-400" />
+                  )}
+                </button>
+              </div>
+              {errors.password && (
+                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-md bg-red-50 border border-red-200">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
             )}
-          </button>
-        </form>
 
-        <div className="mt-6 text-center">
-          <p className="text-xs text-gray-500">
-            Default login: admin / admin123
-          </p>
-        </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+                'Sign in'
+              )}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   )
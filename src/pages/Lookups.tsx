@@ -0,0 +1,335 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { LOOKUPS, LookupDefinition, LookupTable, LookupValue, LookupValues } from '../lib/lookups'
+import { DEFAULT_SKU_TEMPLATE, SKU_TOKENS, hasSequenceToken, previewSku } from '../lib/skus'
+import { Plus, Edit, Trash2, Tags, Check, X, Hash } from 'lucide-react'
+
+interface ProductLookups {
+  category_id: string | null
+  brand_id: string | null
+  collection_id: string | null
+}
+
+const Lookups: React.FC = () => {
+  const [values, setValues] = useState<LookupValues>({ categories: [], brands: [], collections: [] })
+  const [products, setProducts] = useState<ProductLookups[]>([])
+  const [newNames, setNewNames] = useState<Record<LookupTable, string>>({ categories: '', brands: '', collections: '' })
+  const [editing, setEditing] = useState<{ id: string, name: string } | null>(null)
+  const [skuTemplate, setSkuTemplate] = useState(DEFAULT_SKU_TEMPLATE)
+  const [templateDraft, setTemplateDraft] = useState(DEFAULT_SKU_TEMPLATE)
+  const [templatePreview, setTemplatePreview] = useState('')
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const canManageSettings = usePermission('settings.manage')
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  // Example SKU for the template being typed, using the first category, brand and collection
+  useEffect(() => {
+    if (loading) return
+
+    const timer = window.setTimeout(() => {
+      previewSku({
+        category_id: values.categories[0]?.id,
+        brand_id: values.brands[0]?.id,
+        collection_id: values.collections[0]?.id
+      }, templateDraft)
+        .then(setTemplatePreview)
+        .catch(error => console.error('Error previewing SKU:', error))
+    }, 300)
+    return () => window.clearTimeout(timer)
+  }, [loading, values, templateDraft])
+
+  const fetchData = async () => {
+    try {
+      const [categoriesResponse, brandsResponse, collectionsResponse, productsResponse, templateResponse] = await Promise.all([
+        supabase.from('categories').select('id, name').order('name'),
+        supabase.from('brands').select('id, name').order('name'),
+        supabase.from('collections').select('id, name').order('name'),
+        supabase.from('product_catalog').select('category_id, brand_id, collection_id'),
+        supabase.from('settings').select('value').eq('key', 'sku_template').maybeSingle()
+      ])
+
+      if (categoriesResponse.error) throw categoriesResponse.error
+      if (brandsResponse.error) throw brandsResponse.error
+      if (collectionsResponse.error) throw collectionsResponse.error
+      if (productsResponse.error) throw productsResponse.error
+      if (templateResponse.error) throw templateResponse.error
+
+      setValues({
+        categories: categoriesResponse.data || [],
+        brands: brandsResponse.data || [],
+        collections: collectionsResponse.data || []
+      })
+      setProducts(productsResponse.data || [])
+      setSkuTemplate(templateResponse.data?.value || DEFAULT_SKU_TEMPLATE)
+      setTemplateDraft(templateResponse.data?.value || DEFAULT_SKU_TEMPLATE)
+    } catch (error) {
+      console.error('Error fetching lookups:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const countProducts = (lookup: LookupDefinition, id: string) =>
+    products.filter(product => product[lookup.column] === id).length
+
+  const handleAdd = async (lookup: LookupDefinition) => {
+    const name = newNames[lookup.table].trim()
+    if (!name) return
+
+    try {
+      const { error } = await supabase
+        .from(lookup.table)
+        .insert([{ name }])
+
+      if (error) throw error
+
+      setNewNames(current => ({ ...current, [lookup.table]: '' }))
+      await fetchData()
+    } catch (error) {
+      console.error(`Error adding ${lookup.label.toLowerCase()}:`, error)
+      alert(`Error adding ${lookup.label.toLowerCase()}: ${(error as Error).message}`)
+    }
+  }
+
+  const handleRename = async (lookup: LookupDefinition) => {
+    if (!editing || !editing.name.trim()) return
+
+    try {
+      const { error } = await supabase
+        .from(lookup.table)
+        .update({ name: editing.name.trim() })
+        .eq('id', editing.id)
+
+      if (error) throw error
+
+      setEditing(null)
+      await fetchData()
+    } catch (error) {
+      console.error(`Error renaming ${lookup.label.toLowerCase()}:`, error)
+      alert(`Error renaming ${lookup.label.toLowerCase()}: ${(error as Error).message}`)
+    }
+  }
+
+  const handleDelete = async (lookup: LookupDefinition, value: LookupValue) => {
+    const count = countProducts(lookup, value.id)
+    const warning = count > 0 ? ` ${count} product(s) will be left without a ${lookup.label.toLowerCase()}.` : ''
+    if (!confirm(`Delete ${value.name}?${warning}`)) return
+
+    try {
+      const { error } = await supabase
+        .from(lookup.table)
+        .delete()
+        .eq('id', value.id)
+
+      if (error) throw error
+      await fetchData()
+    } catch (error) {
+      console.error(`Error deleting ${lookup.label.toLowerCase()}:`, error)
+      alert(`Error deleting ${lookup.label.toLowerCase()}`)
+    }
+  }
+
+  const handleSaveTemplate = async () => {
+    const template = templateDraft.trim()
+    if (!hasSequenceToken(template)) {
+      alert('The template needs a {SEQ} number so every SKU is different')
+      return
+    }
+
+    setIsSavingTemplate(true)
+    try {
+      const { error } = await supabase
+        .from('settings')
+        .upsert({ key: 'sku_template', value: template }, { onConflict: 'key' })
+
+      if (error) throw error
+      setSkuTemplate(template)
+      setTemplateDraft(template)
+    } catch (error) {
+      console.error('Error saving SKU template:', error)
+      alert(`Error saving SKU template: ${(error as Error).message}`)
+    } finally {
+      setIsSavingTemplate(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Categories &amp; Brands</h1>
+        <p className="text-gray-600">The categories, brands and collections products can be filed under</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {LOOKUPS.map((lookup) => (
+          <div key={lookup.table} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">{lookup.plural}</h2>
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleAdd(lookup)
+              }}
+              className="flex gap-2 px-6 py-4 border-b border-gray-200"
+            >
+              <input
+                type="text"
+                value={newNames[lookup.table]}
+                onChange={(e) => setNewNames(current => ({ ...current, [lookup.table]: e.target.value }))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder={lookup.placeholder}
+              />
+              <button
+                type="submit"
+                className="inline-flex items-center gap-1 bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                Add
+              </button>
+            </form>
+
+            <ul className="divide-y divide-gray-200">
+              {values[lookup.table].map((value) => (
+                <li key={value.id} className="flex items-center justify-between px-6 py-3 hover:bg-gray-50">
+                  {editing?.id === value.id ? (
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ id: value.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(lookup)
+                        if (e.key === 'Escape') setEditing(null)
+                      }}
+                      autoFocus
+                      className="flex-1 mr-2 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  ) : (
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{value.name}</div>
+                      <div className="text-xs text-gray-500">{countProducts(lookup, value.id)} product(s)</div>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    {editing?.id === value.id ? (
+                      <>
+                        <button
+                          onClick={() => handleRename(lookup)}
+                          className="text-green-600 hover:text-green-800"
+                          title="Save"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditing(null)}
+                          className="text-gray-500 hover:text-gray-700"
+                          title="Cancel"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setEditing({ id: value.id, name: value.name })}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="Rename"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(lookup, value)}
+                          className="text-red-600 hover:text-red-800"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {values[lookup.table].length === 0 && (
+              <div className="text-center py-8">
+                <Tags className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+                <p className="text-sm text-gray-600">No {lookup.plural.toLowerCase()} yet</p>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">SKU Format</h2>
+          <p className="text-sm text-gray-600">
+            Products added without a SKU are given one built from this template. Variants add their size, colour and fit to it.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSaveTemplate()
+            }}
+            className="flex flex-wrap gap-2"
+          >
+            <input
+              type="text"
+              value={templateDraft}
+              onChange={(e) => setTemplateDraft(e.target.value)}
+              disabled={!canManageSettings}
+              className="flex-1 min-w-[16rem] px-3 py-2 font-mono border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+              placeholder={DEFAULT_SKU_TEMPLATE}
+            />
+            {canManageSettings && (
+              <button
+                type="submit"
+                disabled={isSavingTemplate || templateDraft.trim() === skuTemplate}
+                className="inline-flex items-center gap-1 bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="h-4 w-4" />
+                {isSavingTemplate ? 'Saving...' : 'Save'}
+              </button>
+            )}
+          </form>
+
+          {templatePreview && (
+            <p className="flex items-center gap-2 text-sm text-gray-700">
+              <Hash className="h-4 w-4 text-gray-400" />
+              Next SKU would look like <span className="font-mono font-medium">{templatePreview}</span>
+            </p>
+          )}
+
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            {SKU_TOKENS.map(({ token, description }) => (
+              <div key={token} className="flex gap-2">
+                <dt className="font-mono text-gray-900">{token}</dt>
+                <dd className="text-gray-600">{description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Lookups
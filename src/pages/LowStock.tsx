@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { fetchPrimaryThumbnails } from '../lib/images'
+import { ExportColumn } from '../lib/export'
+import {
+  StockStatus,
+  STOCK_STATUS_LABELS,
+  STOCK_STATUS_STYLES,
+  getStockStatus,
+  needsReorder,
+  sortByUrgency
+} from '../lib/stock'
+import ExportMenu from '../components/ExportMenu'
+import ProductThumbnail from '../components/ProductThumbnail'
+import { AlertTriangle } from 'lucide-react'
+
+interface Product {
+  id: string
+  name: string
+  sku: string
+  quantity: number
+  reorder_point: number
+  reorder_quantity: number
+}
+
+const EXPORT_COLUMNS: ExportColumn<Product>[] = [
+  { header: 'Product', value: (product) => product.name },
+  { header: 'SKU', value: (product) => product.sku },
+  { header: 'Status', value: (product) => STOCK_STATUS_LABELS[getStockStatus(product)] },
+  { header: 'In Stock', value: (product) => product.quantity },
+  { header: 'Reorder Point', value: (product) => product.reorder_point },
+  { header: 'Reorder Quantity', value: (product) => product.reorder_quantity || null },
+]
+
+const LowStock: React.FC = () => {
+  const [products, setProducts] = useState<Product[]>([])
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({})
+  const [statusFilter, setStatusFilter] = useState<StockStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [productsResponse, primaryThumbnails] = await Promise.all([
+        supabase
+          .from('product_catalog')
+          .select('id, name, sku, quantity, reorder_point, reorder_quantity')
+          .is('archived_at', null),
+        fetchPrimaryThumbnails()
+      ])
+
+      if (productsResponse.error) throw productsResponse.error
+
+      setProducts(sortByUrgency((productsResponse.data || []).filter(needsReorder)))
+      setThumbnails(primaryThumbnails)
+    } catch (error) {
+      console.error('Error fetching low stock:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const filteredProducts = products.filter(product => !statusFilter || getStockStatus(product) === statusFilter)
+  const outCount = products.filter(product => getStockStatus(product) === 'out').length
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Low Stock</h1>
+        <p className="text-gray-600">
+          Products at or below their reorder point, and products that have run out
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {outCount} out of stock · {products.length - outCount} low
+          </h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StockStatus | '')}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Low and out of stock</option>
+              <option value="out">{STOCK_STATUS_LABELS.out}</option>
+              <option value="low">{STOCK_STATUS_LABELS.low}</option>
+            </select>
+            <ExportMenu title="Low Stock" fileName="low-stock" columns={EXPORT_COLUMNS} rows={filteredProducts} />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  In Stock
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reorder Point
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reorder Quantity
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredProducts.map((product) => {
+                const status = getStockStatus(product)
+
+                return (
+                  <tr key={product.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <ProductThumbnail url={thumbnails[product.id]} name={product.name} className="h-10 w-10 mr-3" />
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                          <div className="text-sm text-gray-500">{product.sku}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STOCK_STATUS_STYLES[status]}`}>
+                        {STOCK_STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {product.quantity}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {product.reorder_point || '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {product.reorder_quantity || '—'}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredProducts.length === 0 && (
+          <div className="text-center py-12">
+            <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to reorder</h3>
+            <p className="text-gray-600">Every product is above its reorder point</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LowStock
@@ -0,0 +1,504 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { LOOKUPS, LookupColumn, LookupValues } from '../lib/lookups'
+import { fetchAllRows } from '../lib/pagination'
+import {
+  Markdown,
+  MARKDOWN_STATUS_STYLES,
+  PRICE_CHANGE_MODES,
+  PriceChangeMode,
+  applyPriceChange,
+  getMargin,
+  getMarkdownStatus
+} from '../lib/pricing'
+import SearchInput from '../components/SearchInput'
+import { Percent, CalendarClock, XCircle } from 'lucide-react'
+
+interface Product {
+  id: string
+  name: string
+  sku: string
+  sell_price: number
+  buy_price?: number
+}
+
+interface MarkdownRow extends Markdown {
+  markdown_items: { count: number }[]
+}
+
+type ApplyMode = 'now' | 'schedule'
+
+const EMPTY_FILTERS: Record<LookupColumn, string> = { category_id: '', brand_id: '', collection_id: '' }
+
+const Pricing: React.FC = () => {
+  const [products, setProducts] = useState<Product[]>([])
+  const [markdowns, setMarkdowns] = useState<MarkdownRow[]>([])
+  const [lookups, setLookups] = useState<LookupValues>({ categories: [], brands: [], collections: [] })
+  const [search, setSearch] = useState('')
+  const [filters, setFilters] = useState(EMPTY_FILTERS)
+  const [mode, setMode] = useState<PriceChangeMode>('percent')
+  const [amount, setAmount] = useState('')
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [applyMode, setApplyMode] = useState<ApplyMode>('now')
+  const [markdownName, setMarkdownName] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [endsAt, setEndsAt] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [fetching, setFetching] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const canViewCost = usePermission('cost.view')
+
+  useEffect(() => {
+    fetchLookups()
+    fetchMarkdowns()
+  }, [])
+
+  const fetchLookups = async () => {
+    try {
+      const [categoriesResponse, brandsResponse, collectionsResponse] = await Promise.all([
+        supabase.from('categories').select('id, name').order('name'),
+        supabase.from('brands').select('id, name').order('name'),
+        supabase.from('collections').select('id, name').order('name')
+      ])
+
+      if (categoriesResponse.error) throw categoriesResponse.error
+      if (brandsResponse.error) throw brandsResponse.error
+      if (collectionsResponse.error) throw collectionsResponse.error
+
+      setLookups({
+        categories: categoriesResponse.data || [],
+        brands: brandsResponse.data || [],
+        collections: collectionsResponse.data || []
+      })
+    } catch (error) {
+      console.error('Error fetching lookups:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchMarkdowns = async () => {
+    const { data, error } = await supabase
+      .from('markdowns')
+      .select('*, markdown_items(count)')
+      .order('starts_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching markdowns:', error)
+      return
+    }
+    setMarkdowns(data || [])
+  }
+
+  // Every active product matching the search and filters; buy_price only for roles allowed to see cost
+  const fetchProducts = useCallback(async () => {
+    setFetching(true)
+    try {
+      const rows = await fetchAllRows<Product>((from, to) => {
+        let query = supabase
+          .rpc(canViewCost ? 'search_products' : 'search_product_catalog', { term: search })
+          .is('archived_at', null)
+        LOOKUPS.forEach(lookup => {
+          if (filters[lookup.column]) query = query.eq(lookup.column, filters[lookup.column])
+        })
+
+        return (canViewCost ? query.select('id, name, sku, sell_price, buy_price') : query.select('id, name, sku, sell_price'))
+          .order('name')
+          .order('id')
+          .range(from, to)
+      })
+
+      setProducts(rows)
+      setExcluded(new Set())
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    } finally {
+      setFetching(false)
+    }
+  }, [canViewCost, search, filters])
+
+  useEffect(() => {
+    fetchProducts()
+  }, [fetchProducts])
+
+  const amountValue = Number(amount)
+  const hasChange = amount.trim() !== '' && Number.isFinite(amountValue) && !(mode === 'margin' && amountValue >= 100)
+
+  const preview = products.map(product => ({
+    product,
+    newPrice: hasChange ? applyPriceChange(product, { mode, amount: amountValue }) : product.sell_price
+  }))
+  const changes = preview.filter(({ product, newPrice }) => !excluded.has(product.id) && newPrice !== product.sell_price)
+  const belowCost = canViewCost ? changes.filter(({ product, newPrice }) => newPrice < (product.buy_price ?? 0)).length : 0
+
+  const toggleExcluded = (productId: string) => {
+    setExcluded(current => {
+      const next = new Set(current)
+      if (next.has(productId)) next.delete(productId)
+      else next.add(productId)
+      return next
+    })
+  }
+
+  const handleApply = async () => {
+    const items = changes.map(({ product, newPrice }) => ({ product_id: product.id, sell_price: newPrice }))
+    if (items.length === 0) return
+
+    if (applyMode === 'schedule' && (!markdownName.trim() || !startsAt || !endsAt)) {
+      alert('Give the markdown a name, a start and an end')
+      return
+    }
+    const warning = belowCost > 0 ? ` ${belowCost} of them will sell below cost.` : ''
+    const question = applyMode === 'now'
+      ? `Change the price of ${items.length} product(s)?${warning}`
+      : `Mark down ${items.length} product(s) from ${format(new Date(startsAt), 'MMM dd, yyyy HH:mm')} to ${format(new Date(endsAt), 'MMM dd, yyyy HH:mm')}?${warning}`
+    if (!confirm(question)) return
+
+    setIsSaving(true)
+    try {
+      const { error } = applyMode === 'now'
+        ? await supabase.rpc('reprice_products', { items })
+        : await supabase.rpc('schedule_markdown', {
+          name: markdownName.trim(),
+          starts_at: new Date(startsAt).toISOString(),
+          ends_at: new Date(endsAt).toISOString(),
+          items
+        })
+
+      if (error) throw error
+
+      setAmount('')
+      setMarkdownName('')
+      setStartsAt('')
+      setEndsAt('')
+      await Promise.all([fetchProducts(), fetchMarkdowns()])
+    } catch (error) {
+      console.error('Error changing prices:', error)
+      alert(`Error changing prices: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEndMarkdown = async (markdown: MarkdownRow) => {
+    const question = getMarkdownStatus(markdown) === 'active'
+      ? `End ${markdown.name} now? Its products go back to their original prices.`
+      : `Cancel ${markdown.name}? Its prices will not be applied.`
+    if (!confirm(question)) return
+
+    try {
+      const { error } = await supabase.rpc('end_markdown', { markdown_id: markdown.id })
+
+      if (error) throw error
+      await Promise.all([fetchProducts(), fetchMarkdowns()])
+    } catch (error) {
+      console.error('Error ending markdown:', error)
+      alert(`Error ending markdown: ${(error as Error).message}`)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const modes = PRICE_CHANGE_MODES.filter(option => canViewCost || !option.costOnly)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Pricing</h1>
+        <p className="text-gray-600">Reprice products in bulk, now or as a markdown that ends by itself</p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">1. Choose products</h2>
+        <SearchInput value={search} onSearch={(value) => setSearch(value.trim())} placeholder="Search products by name or SKU..." />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {LOOKUPS.map((lookup) => (
+            <select
+              key={lookup.column}
+              value={filters[lookup.column]}
+              onChange={(e) => setFilters(current => ({ ...current, [lookup.column]: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All {lookup.plural.toLowerCase()}</option>
+              {lookups[lookup.table].map((value) => (
+                <option key={value.id} value={value.id}>{value.name}</option>
+              ))}
+            </select>
+          ))}
+        </div>
+
+        <h2 className="text-lg font-semibold text-gray-900 pt-2">2. Set the change</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as PriceChangeMode)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {modes.map((option) => (
+              <option key={option.mode} value={option.mode}>{option.label}</option>
+            ))}
+          </select>
+          <div className="md:col-span-2">
+            <input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder={mode === 'fixed' ? 'KES' : '%'}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {mode === 'margin' && amountValue >= 100
+                ? 'A margin must be below 100%'
+                : PRICE_CHANGE_MODES.find(option => option.mode === mode)?.hint}
+            </p>
+          </div>
+        </div>
+
+        <h2 className="text-lg font-semibold text-gray-900 pt-2">3. Apply</h2>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={applyMode === 'now'}
+              onChange={() => setApplyMode('now')}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            Change prices now
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={applyMode === 'schedule'}
+              onChange={() => setApplyMode('schedule')}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            Schedule a markdown
+          </label>
+        </div>
+        {applyMode === 'schedule' && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              value={markdownName}
+              onChange={(e) => setMarkdownName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Name, e.g. End of season"
+            />
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              title="Starts"
+            />
+            <input
+              type="datetime-local"
+              value={endsAt}
+              min={startsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              title="Ends"
+            />
+            <p className="md:col-span-3 text-xs text-gray-500 -mt-2">
+              Prices switch at the start and go back at the end, unless someone has changed them by hand in between.
+            </p>
+          </div>
+        )}
+        <button
+          onClick={handleApply}
+          disabled={isSaving || changes.length === 0}
+          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {applyMode === 'now' ? <Percent className="h-4 w-4" /> : <CalendarClock className="h-4 w-4" />}
+          {isSaving ? 'Saving...' : applyMode === 'now' ? `Reprice ${changes.length} Product(s)` : `Schedule ${changes.length} Product(s)`}
+        </button>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {products.length} product(s) match · {changes.length} will change
+          </h2>
+          {belowCost > 0 && (
+            <span className="text-sm text-red-600">{belowCost} below cost</span>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3"></th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Current Price
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  New Price
+                </th>
+                {canViewCost && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Buy Price
+                  </th>
+                )}
+                {canViewCost && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Margin
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className={`divide-y divide-gray-200 ${fetching ? 'opacity-50' : ''}`}>
+              {preview.map(({ product, newPrice }) => {
+                const isExcluded = excluded.has(product.id)
+                const buyPrice = product.buy_price ?? 0
+
+                return (
+                  <tr key={product.id} className={isExcluded ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={!isExcluded}
+                        onChange={() => toggleExcluded(product.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        title={isExcluded ? 'Include' : 'Leave out'}
+                      />
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                      <div className="text-xs text-gray-500">{product.sku}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      KES {product.sell_price.toLocaleString()}
+                    </td>
+                    <td className={`px-6 py-4 text-sm font-medium ${
+                      isExcluded || newPrice === product.sell_price
+                        ? 'text-gray-400'
+                        : newPrice < product.sell_price ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      KES {newPrice.toLocaleString()}
+                    </td>
+                    {canViewCost && (
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        KES {buyPrice.toLocaleString()}
+                      </td>
+                    )}
+                    {canViewCost && (
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {getMargin(product.sell_price, buyPrice).toFixed(1)}%
+                        {!isExcluded && newPrice !== product.sell_price && (
+                          <span className={newPrice < buyPrice ? 'text-red-600' : 'text-gray-500'}>
+                            {' '}→ {getMargin(newPrice, buyPrice).toFixed(1)}%
+                          </span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {products.length === 0 && !fetching && (
+          <div className="text-center py-12">
+            <Percent className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No products found</h3>
+            <p className="text-gray-600">Try adjusting your search terms or filters</p>
+          </div>
+        )}
+      </div>
+
+      {/* Markdowns */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Markdowns</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Products
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Starts
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ends
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {markdowns.map((markdown) => {
+                const status = getMarkdownStatus(markdown)
+
+                return (
+                  <tr key={markdown.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {markdown.name}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {markdown.markdown_items[0]?.count ?? 0}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {format(new Date(markdown.starts_at), 'MMM dd, yyyy HH:mm')}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {format(new Date(markdown.cancelled_at && status === 'ended' ? markdown.cancelled_at : markdown.ends_at), 'MMM dd, yyyy HH:mm')}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${MARKDOWN_STATUS_STYLES[status]}`}>
+                        {status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {(status === 'scheduled' || status === 'active') && (
+                        <button
+                          onClick={() => handleEndMarkdown(markdown)}
+                          className="text-red-600 hover:text-red-800"
+                          title={status === 'active' ? 'End now' : 'Cancel'}
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {markdowns.length === 0 && (
+          <div className="text-center py-8">
+            <CalendarClock className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+            <p className="text-sm text-gray-600">No markdowns scheduled yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Pricing
@@ -1,16 +1,42 @@
-import React, { useEffect, useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { TableSort, useTableParams } from '../hooks/useTableParams'
+import { usePagedRows } from '../hooks/usePagedRows'
 import { useForm } from 'react-hook-form'
-import { Plus, Edit, Trash2, Search, Package } from 'lucide-react'
+import { ProductVariant, formatVariantLabel, getVariantPrice } from '../lib/variants'
+import { LOOKUPS, LookupColumn, LookupValues, getLookupName } from '../lib/lookups'
+import { ProductImage, getImageUrl, removeImageFiles } from '../lib/images'
+import { isDuplicateSku, previewSku } from '../lib/skus'
+import VariantMatrixModal from '../components/VariantMatrixModal'
+import ProductImportModal from '../components/ProductImportModal'
+import ProductImagesModal from '../components/ProductImagesModal'
+import ProductThumbnail from '../components/ProductThumbnail'
+import ExportMenu from '../components/ExportMenu'
+import LabelPrintModal, { LabelRequest } from '../components/LabelPrintModal'
+import DataTable, { DataTableColumn } from '../components/DataTable'
+import SearchInput from '../components/SearchInput'
+import { ExportColumn } from '../lib/export'
+import { fetchAllRows } from '../lib/pagination'
+import { STOCK_STATUS_STYLES, getStockStatus } from '../lib/stock'
+import { Plus, Edit, Trash2, Package, Layers, ImageIcon, ChevronDown, ChevronRight, Upload, Printer, Archive, ArchiveRestore } from 'lucide-react'
 
 interface Product {
   id: string
   name: string
   sku: string
-  buy_price: number
+  buy_price?: number
   sell_price: number
   quantity: number
+  category_id: string | null
+  brand_id: string | null
+  collection_id: string | null
+  reorder_point: number
+  reorder_quantity: number
+  archived_at: string | null
   created_at: string
+  product_variants: ProductVariant[]
+  product_images: ProductImage[]
 }
 
 interface ProductForm {
@@ -18,58 +44,168 @@ interface ProductForm {
   sku: string
   buy_price: number
   sell_price: number
+  category_id: string
+  brand_id: string
+  collection_id: string
+  reorder_point: number
+  reorder_quantity: number
+}
+
+interface ExportRow {
+  product: Product
+  variant?: ProductVariant
 }
 
+// Each product comes with its variants and images, so a page is one request; the lookup
+// names are there for sorting by group
+const PRODUCT_COLUMNS = `
+  *,
+  product_variants(id, product_id, size, colour, fit, sku, sell_price, quantity),
+  product_images(*),
+  categories(name),
+  brands(name),
+  collections(name)
+`
+
+const DEFAULT_SORT: TableSort = { column: 'created_at', ascending: false }
+
 const Products: React.FC = () => {
-  const [products, setProducts] = useState<Product[]>([])
-  const [loading, setLoading] = useState(true)
+  const [archivedCount, setArchivedCount] = useState(0)
   const [showModal, setShowModal] = useState(false)
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
-  const [searchTerm, setSearchTerm] = useState('')
+  const [variantProduct, setVariantProduct] = useState<Product | null>(null)
+  const [imagesProduct, setImagesProduct] = useState<Product | null>(null)
+  const [showImport, setShowImport] = useState(false)
+  const [labelItems, setLabelItems] = useState<LabelRequest[] | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [lookups, setLookups] = useState<LookupValues>({ categories: [], brands: [], collections: [] })
+  const [skuPreview, setSkuPreview] = useState('')
+  const canEdit = usePermission('products.edit')
+  const canDelete = usePermission('products.delete')
+  const canViewCost = usePermission('cost.view')
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<ProductForm>()
+  const { register, handleSubmit, reset, watch, setError, formState: { errors } } = useForm<ProductForm>()
+  const [categoryId, brandId, collectionId] = watch(['category_id', 'brand_id', 'collection_id'])
+
+  const table = useTableParams(DEFAULT_SORT)
+  const { getFilter } = table
+  const groupBy = getFilter('group') as LookupColumn | ''
+  const showArchived = getFilter('archived') === '1'
+
+  // buy_price only comes back for roles allowed to see cost. Grouped products are listed
+  // group by group in name order, with unassigned ones last.
+  const queryProducts = useCallback((count?: 'exact') => {
+    const groupLookup = LOOKUPS.find(lookup => lookup.column === getFilter('group'))
+    let query = supabase.rpc(canViewCost ? 'search_products' : 'search_product_catalog', { term: table.search }, { count })
+
+    query = getFilter('archived') === '1' ? query.not('archived_at', 'is', null) : query.is('archived_at', null)
+    LOOKUPS.forEach(lookup => {
+      if (getFilter(lookup.column)) query = query.eq(lookup.column, getFilter(lookup.column))
+    })
 
+    let ordered = query
+      .select(PRODUCT_COLUMNS)
+      .order('created_at', { referencedTable: 'product_variants' })
+      .order('created_at', { referencedTable: 'product_images' })
+
+    if (groupLookup) ordered = ordered.order(`${groupLookup.table}(name)`, { nullsFirst: false })
+    return ordered
+      .order(table.sort.column, { ascending: table.sort.ascending })
+      .order('id')
+  }, [canViewCost, getFilter, table.search, table.sort.column, table.sort.ascending])
+
+  const fetchProductPage = useCallback((from: number, to: number) =>
+    queryProducts('exact').range(from, to), [queryProducts])
+
+  const { rows: products, total, loading, fetching, refresh } =
+    usePagedRows<Product>(fetchProductPage, table.page, table.pageSize)
+
+  // New products left without a SKU get the next one for their category and brand
   useEffect(() => {
-    fetchProducts()
-  }, [])
+    if (!showModal || editingProduct) return
 
-  const fetchProducts = async () => {
+    let cancelled = false
+    previewSku({ category_id: categoryId, brand_id: brandId, collection_id: collectionId })
+      .then(sku => { if (!cancelled) setSkuPreview(sku) })
+      .catch(error => console.error('Error previewing SKU:', error))
+    return () => { cancelled = true }
+  }, [showModal, editingProduct, categoryId, brandId, collectionId])
+
+  const fetchLookups = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .order('created_at', { ascending: false })
+      const [categoriesResponse, brandsResponse, collectionsResponse] = await Promise.all([
+        supabase.from('categories').select('id, name').order('name'),
+        supabase.from('brands').select('id, name').order('name'),
+        supabase.from('collections').select('id, name').order('name')
+      ])
 
-      if (error) throw error
-      setProducts(data || [])
+      if (categoriesResponse.error) throw categoriesResponse.error
+      if (brandsResponse.error) throw brandsResponse.error
+      if (collectionsResponse.error) throw collectionsResponse.error
+
+      setLookups({
+        categories: categoriesResponse.data || [],
+        brands: brandsResponse.data || [],
+        collections: collectionsResponse.data || []
+      })
     } catch (error) {
-      console.error('Error fetching products:', error)
-    } finally {
-      setLoading(false)
+      console.error('Error fetching lookups:', error)
+    }
+  }, [])
+
+  const fetchArchivedCount = useCallback(async () => {
+    const { count, error } = await supabase
+      .from(canViewCost ? 'products' : 'product_catalog')
+      .select('id', { count: 'exact', head: true })
+      .not('archived_at', 'is', null)
+
+    if (error) {
+      console.error('Error counting archived products:', error)
+      return
     }
+    setArchivedCount(count ?? 0)
+  }, [canViewCost])
+
+  useEffect(() => {
+    fetchLookups()
+    fetchArchivedCount()
+  }, [fetchLookups, fetchArchivedCount])
+
+  const fetchProducts = async () => {
+    await Promise.all([refresh(), fetchArchivedCount()])
   }
 
   const onSubmit = async (data: ProductForm) => {
+    // product_catalog hides buy_price, so without cost.view an edit would only ever send back 0
+    const { buy_price, ...fields } = data
+    const product = {
+      ...fields,
+      ...(canViewCost || !editingProduct ? { buy_price } : {}),
+      sku: data.sku.trim(),
+      category_id: data.category_id || null,
+      brand_id: data.brand_id || null,
+      collection_id: data.collection_id || null,
+      reorder_point: data.reorder_point || 0,
+      reorder_quantity: data.reorder_quantity || 0
+    }
+
     try {
-      if (editingProduct) {
-        const { error } = await supabase
-          .from('products')
-          .update(data)
-          .eq('id', editingProduct.id)
-        
-        if (error) throw error
-      } else {
-        const { error } = await supabase
-          .from('products')
-          .insert([data])
-        
-        if (error) throw error
-      }
+      const { error } = await supabase.rpc('save_product', {
+        product_id: editingProduct?.id ?? null,
+        product
+      })
+
+      if (error) throw error
 
       await fetchProducts()
       handleCloseModal()
     } catch (error) {
+      if (isDuplicateSku(error)) {
+        setError('sku', { message: `${product.sku} is already used by another product. Pick another SKU or leave it blank to generate one.` })
+        return
+      }
       console.error('Error saving product:', error)
+      alert(`Error saving product: ${(error as Error).message}`)
     }
   }
 
@@ -80,20 +216,53 @@ const Products: React.FC = () => {
       sku: product.sku,
       buy_price: product.buy_price,
       sell_price: product.sell_price,
+      category_id: product.category_id ?? '',
+      brand_id: product.brand_id ?? '',
+      collection_id: product.collection_id ?? '',
+      reorder_point: product.reorder_point,
+      reorder_quantity: product.reorder_quantity,
     })
     setShowModal(true)
   }
 
+  // Archived products drop out of the sale, stock and label pickers but keep their history
+  const handleArchive = async (product: Product) => {
+    if (!product.archived_at && !confirm(`Archive ${product.name}? It will no longer be offered for sales or stock entries, but stays in reports.`)) return
+
+    try {
+      const { error } = await supabase.rpc('set_product_archived', {
+        product_id: product.id,
+        archived: !product.archived_at
+      })
+
+      if (error) throw error
+      await fetchProducts()
+    } catch (error) {
+      console.error('Error archiving product:', error)
+      alert(`Error updating product: ${(error as Error).message}`)
+    }
+  }
+
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this product?')) return
+    if (!confirm('Are you sure you want to permanently delete this product?')) return
 
     try {
-      const { error } = await supabase
-        .from('products')
-        .delete()
-        .eq('id', id)
+      const { error } = await supabase.rpc('delete_product', { product_id: id })
 
+      // Sales and stock entries keep their product, so only products without history can go
+      if (error?.code === '23503') {
+        alert('This product has sales or stock entries, so it cannot be deleted. It stays archived to keep its history.')
+        return
+      }
       if (error) throw error
+
+      // The image rows went with the product; clear their files out of storage too
+      try {
+        await removeImageFiles(getImages(id))
+      } catch (error) {
+        console.error('Error removing product images:', error)
+      }
+
       await fetchProducts()
     } catch (error) {
       console.error('Error deleting product:', error)
@@ -106,10 +275,62 @@ const Products: React.FC = () => {
     reset()
   }
 
-  const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    product.sku.toLowerCase().includes(searchTerm.toLowerCase())
-  )
+  const getVariants = (productId: string) => products.find(p => p.id === productId)?.product_variants ?? []
+
+  const getImages = (productId: string) => products.find(p => p.id === productId)?.product_images ?? []
+
+  const getThumbnailUrl = (productId: string) => {
+    const primary = getImages(productId).find(image => image.is_primary)
+    return primary && getImageUrl(primary.thumbnail_path)
+  }
+
+  // One label per variant, or one for the product itself when it has none
+  const getLabelRequests = (product: Product): LabelRequest[] => {
+    const productVariants = getVariants(product.id)
+    return productVariants.length > 0
+      ? productVariants.map(variant => ({ productId: product.id, variantId: variant.id, quantity: 1 }))
+      : [{ productId: product.id, variantId: null, quantity: 1 }]
+  }
+
+  const getGroupName = (product: Product) => {
+    const lookup = LOOKUPS.find(l => l.column === groupBy)
+    return lookup ? getLookupName(lookups[lookup.table], product[lookup.column]) ?? `No ${lookup.label.toLowerCase()}` : ''
+  }
+
+  const isFiltered = table.search !== '' || LOOKUPS.some(lookup => getFilter(lookup.column))
+
+  // Every matching product, each followed by its variants
+  const exportProducts = async (): Promise<ExportRow[]> => {
+    const rows = await fetchAllRows<Product>((from, to) => queryProducts().range(from, to))
+    return rows.flatMap(product => [
+      { product },
+      ...product.product_variants.map(variant => ({ product, variant }))
+    ])
+  }
+
+  const exportColumns: ExportColumn<ExportRow>[] = [
+    { header: 'Product', value: ({ product }) => product.name },
+    { header: 'Variant', value: ({ variant }) => variant && formatVariantLabel(variant) },
+    { header: 'SKU', value: ({ product, variant }) => variant?.sku ?? product.sku },
+    ...LOOKUPS.map((lookup): ExportColumn<ExportRow> => ({
+      header: lookup.label,
+      value: ({ product }) => getLookupName(lookups[lookup.table], product[lookup.column])
+    })),
+    ...(canViewCost ? [{ header: 'Buy Price', money: true, value: ({ product }: ExportRow) => product.buy_price }] : []),
+    { header: 'Sell Price', money: true, value: ({ product, variant }) => variant ? getVariantPrice(variant, product) : product.sell_price },
+    { header: 'Quantity', value: ({ product, variant }) => variant?.quantity ?? product.quantity },
+    { header: 'Reorder Point', value: ({ product, variant }) => variant ? null : product.reorder_point },
+    { header: 'Reorder Quantity', value: ({ product, variant }) => variant ? null : product.reorder_quantity },
+  ]
+
+  const tableColumns: DataTableColumn[] = [
+    { header: 'Product', sortKey: 'name' },
+    { header: 'SKU', sortKey: 'sku' },
+    ...(canViewCost ? [{ header: 'Buy Price', sortKey: 'buy_price' }] : []),
+    { header: 'Sell Price', sortKey: 'sell_price' },
+    { header: 'Quantity', sortKey: 'quantity' },
+    { header: 'Actions' },
+  ]
 
   if (loading) {
     return (
@@ -123,121 +344,280 @@ const Products: React.FC = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Products</h1>
-          <p className="text-gray-600">Manage your inventory items</p>
+          <h1 className="text-2xl font-bold text-gray-900">{showArchived ? 'Archived Products' : 'Products'}</h1>
+          <p className="text-gray-600">
+            {showArchived ? 'No longer sold or restocked, but kept in reports' : 'Manage your inventory items'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <ExportMenu
+            title={showArchived ? 'Archived Products' : 'Products'}
+            fileName={showArchived ? 'archived-products' : 'products'}
+            columns={exportColumns}
+            rows={exportProducts}
+            disabled={total === 0}
+          />
+          {(showArchived || archivedCount > 0) && (
+            <button
+              onClick={() => {
+                table.setFilter('archived', showArchived ? '' : '1')
+                setExpandedId(null)
+              }}
+              className="inline-flex items-center gap-2 bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Archive className="h-4 w-4" />
+              {showArchived ? 'Back to Products' : `Archived (${archivedCount})`}
+            </button>
+          )}
+          <button
+            onClick={() => setLabelItems([])}
+            className="inline-flex items-center gap-2 bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Printer className="h-4 w-4" />
+            Labels
+          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="inline-flex items-center gap-2 bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => setShowModal(true)}
+              className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Add Product
+            </button>
+          )}
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          Add Product
-        </button>
-      </div>
-
-      {/* Search */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-        <input
-          type="text"
-          placeholder="Search products..."
-          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-        />
       </div>
 
-      {/* Products Table */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Product
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  SKU
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Buy Price
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Sell Price
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Quantity
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
+      <DataTable
+        columns={tableColumns}
+        rows={products}
+        total={total}
+        params={table}
+        fetching={fetching}
+        toolbar={
+          <div className="p-4 border-b border-gray-200 space-y-4">
+            <SearchInput value={table.search} onSearch={table.setSearch} placeholder="Search products by name or SKU..." />
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {LOOKUPS.map((lookup) => (
+                <select
+                  key={lookup.column}
+                  value={getFilter(lookup.column)}
+                  onChange={(e) => table.setFilter(lookup.column, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">All {lookup.plural.toLowerCase()}</option>
+                  {lookups[lookup.table].map((value) => (
+                    <option key={value.id} value={value.id}>{value.name}</option>
+                  ))}
+                </select>
+              ))}
+              <select
+                value={groupBy}
+                onChange={(e) => table.setFilter('group', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">No grouping</option>
+                {LOOKUPS.map((lookup) => (
+                  <option key={lookup.column} value={lookup.column}>Group by {lookup.label.toLowerCase()}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        }
+        renderRow={(product, index) => (
+          <React.Fragment key={product.id}>
+            {groupBy && (index === 0 || getGroupName(products[index - 1]) !== getGroupName(product)) && (
+              <tr className="bg-gray-100">
+                <td colSpan={canViewCost ? 6 : 5} className="px-6 py-2 text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  {getGroupName(product)}
+                </td>
               </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-200">
-              {filteredProducts.map((product) => (
-                <tr key={product.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4">
-                    <div className="flex items-center">
-                      <Package className="h-8 w-8 text-gray-400 mr-3" />
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">
-                          {product.name}
-                        </div>
-                      </div>
+            )}
+            <tr className="hover:bg-gray-50">
+              <td className="px-6 py-4">
+                <div className="flex items-center">
+                  <ProductThumbnail url={getThumbnailUrl(product.id)} name={product.name} className="h-10 w-10 mr-3" />
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {product.name}
                     </div>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    {product.sku}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    KES {product.buy_price.toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    KES {product.sell_price.toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      product.quantity > 10 
-                        ? 'bg-green-100 text-green-800'
-                        : product.quantity > 0
-                        ? 'bg-yellow-100 text-yellow-800'
-                        : 'bg-red-100 text-red-800'
-                    }`}>
-                      {product.quantity}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-sm">
-                    <div className="flex items-center gap-2">
-                      <button
-                        onClick={() => handleEdit(product)}
-                        className="text-blue-600 hover:text-blue-800"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
+                    <div className="text-xs text-gray-500">
+                      {LOOKUPS
+                        .map(lookup => getLookupName(lookups[lookup.table], product[lookup.column]))
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </div>
+                    {getVariants(product.id).length > 0 && (
                       <button
-                        onClick={() => handleDelete(product.id)}
-                        className="text-red-600 hover:text-red-800"
+                        onClick={() => setExpandedId(expandedId === product.id ? null : product.id)}
+                        className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
                       >
-                        <Trash2 className="h-4 w-4" />
+                        {expandedId === product.id ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                        {getVariants(product.id).length} variant(s)
                       </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-
-        {filteredProducts.length === 0 && (
+                    )}
+                  </div>
+                </div>
+              </td>
+              <td className="px-6 py-4 text-sm text-gray-900">
+                {product.sku}
+              </td>
+              {canViewCost && (
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  KES {(product.buy_price ?? 0).toLocaleString()}
+                </td>
+              )}
+              <td className="px-6 py-4 text-sm text-gray-900">
+                KES {product.sell_price.toLocaleString()}
+              </td>
+              <td className="px-6 py-4">
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STOCK_STATUS_STYLES[getStockStatus(product)]}`}
+                  title={product.reorder_point > 0 ? `Reorder at ${product.reorder_point}` : undefined}
+                >
+                  {product.quantity}
+                </span>
+              </td>
+              <td className="px-6 py-4 text-sm">
+                <div className="flex items-center gap-2">
+                  {showArchived && canEdit && (
+                    <button
+                      onClick={() => handleArchive(product)}
+                      className="text-green-600 hover:text-green-800"
+                      title="Restore product"
+                    >
+                      <ArchiveRestore className="h-4 w-4" />
+                    </button>
+                  )}
+                  {showArchived && canDelete && (
+                    <button
+                      onClick={() => handleDelete(product.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!showArchived && canEdit && (
+                    <button
+                      onClick={() => handleEdit(product)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!showArchived && canEdit && (
+                    <button
+                      onClick={() => setVariantProduct(product)}
+                      className="text-purple-600 hover:text-purple-800"
+                      title="Sizes, colours and fits"
+                    >
+                      <Layers className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!showArchived && canEdit && (
+                    <button
+                      onClick={() => setImagesProduct(product)}
+                      className="text-teal-600 hover:text-teal-800"
+                      title="Images"
+                    >
+                      <ImageIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!showArchived && (
+                    <button
+                      onClick={() => setLabelItems(getLabelRequests(product))}
+                      className="text-gray-600 hover:text-gray-800"
+                      title="Print labels"
+                    >
+                      <Printer className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!showArchived && canEdit && (
+                    <button
+                      onClick={() => handleArchive(product)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Archive product"
+                    >
+                      <Archive className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+            {expandedId === product.id && getVariants(product.id).map((variant) => (
+              <tr key={variant.id} className="bg-gray-50">
+                <td className="px-6 py-2 pl-[4.75rem] text-sm text-gray-700">
+                  {formatVariantLabel(variant)}
+                </td>
+                <td className="px-6 py-2 text-sm text-gray-700">
+                  {variant.sku}
+                </td>
+                {canViewCost && <td></td>}
+                <td className="px-6 py-2 text-sm text-gray-700">
+                  KES {getVariantPrice(variant, product).toLocaleString()}
+                </td>
+                <td className="px-6 py-2 text-sm text-gray-700">
+                  {variant.quantity}
+                </td>
+                <td></td>
+              </tr>
+            ))}
+          </React.Fragment>
+        )}
+        empty={
           <div className="text-center py-12">
             <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No products found</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {showArchived ? 'No archived products found' : 'No products found'}
+            </h3>
             <p className="text-gray-600">
-              {searchTerm ? 'Try adjusting your search terms' : 'Get started by adding your first product'}
+              {isFiltered ? 'Try adjusting your search terms or filters' : showArchived ? 'Archived products will appear here' : 'Get started by adding your first product'}
             </p>
           </div>
-        )}
-      </div>
+        }
+      />
+
+      {variantProduct && (
+        <VariantMatrixModal
+          product={variantProduct}
+          variants={getVariants(variantProduct.id)}
+          onClose={() => setVariantProduct(null)}
+          onSaved={fetchProducts}
+        />
+      )}
+
+      {imagesProduct && (
+        <ProductImagesModal
+          product={imagesProduct}
+          images={getImages(imagesProduct.id)}
+          onClose={() => setImagesProduct(null)}
+          onSaved={fetchProducts}
+        />
+      )}
+
+      {labelItems && (
+        <LabelPrintModal
+          initialItems={labelItems}
+          onClose={() => setLabelItems(null)}
+        />
+      )}
+
+      {showImport && (
+        <ProductImportModal
+          onClose={() => setShowImport(false)}
+          onImported={fetchProducts}
+        />
+      )}
 
       {/* Add/Edit Product Modal */}
       {showModal && (
@@ -268,24 +648,67 @@ const Products: React.FC = () => {
                   SKU
                 </label>
                 <input
-                  {...register('sku', { required: 'SKU is required' })}
+                  {...register('sku', { required: editingProduct ? 'SKU is required' : false })}
                   type="text"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter SKU"
+                  placeholder={editingProduct ? 'Enter SKU' : skuPreview || 'Generated when saved'}
                 />
-                {errors.sku && (
+                {errors.sku ? (
                   <p className="text-sm text-red-600 mt-1">{errors.sku.message}</p>
+                ) : !editingProduct && skuPreview && (
+                  <p className="text-xs text-gray-500 mt-1">Leave blank to use {skuPreview}</p>
                 )}
               </div>
 
+              <div className="grid grid-cols-3 gap-4">
+                {LOOKUPS.map((lookup) => (
+                  <div key={lookup.column}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {lookup.label}
+                    </label>
+                    <select
+                      {...register(lookup.column)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">None</option>
+                      {lookups[lookup.table].map((value) => (
+                        <option key={value.id} value={value.id}>{value.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
+                {(canViewCost || !editingProduct) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Buy Price (KES)
+                    </label>
+                    <input
+                      {...register('buy_price', { 
+                        required: 'Buy price is required',
+                        valueAsNumber: true,
+                        min: { value: 0, message: 'Price must be positive' }
+                      })}
+                      type="number"
+                      step="0.01"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="0.00"
+                    />
+                    {errors.buy_price && (
+                      <p className="text-sm text-red-600 mt-1">{errors.buy_price.message}</p>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Buy Price (KES)
+                    Sell Price (KES)
                   </label>
                   <input
-                    {...register('buy_price', { 
-                      required: 'Buy price is required',
+                    {...register('sell_price', { 
+                      required: 'Sell price is required',
                       valueAsNumber: true,
                       min: { value: 0, message: 'Price must be positive' }
                     })}
@@ -294,31 +717,54 @@ const Products: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     placeholder="0.00"
                   />
-                  {errors.buy_price && (
-                    <p className="text-sm text-red-600 mt-1">{errors.buy_price.message}</p>
+                  {errors.sell_price && (
+                    <p className="text-sm text-red-600 mt-1">{errors.sell_price.message}</p>
                   )}
                 </div>
+              </div>
 
+              <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Sell Price (KES)
+                    Reorder Point
                   </label>
                   <input
-                    {...register('sell_price', { 
-                      required: 'Sell price is required',
+                    {...register('reorder_point', {
                       valueAsNumber: true,
-                      min: { value: 0, message: 'Price must be positive' }
+                      min: { value: 0, message: 'Reorder point cannot be negative' }
                     })}
                     type="number"
-                    step="0.01"
+                    min="0"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="0.00"
+                    placeholder="0"
                   />
-                  {errors.sell_price && (
-                    <p className="text-sm text-red-600 mt-1">{errors.sell_price.message}</p>
+                  {errors.reorder_point && (
+                    <p className="text-sm text-red-600 mt-1">{errors.reorder_point.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reorder Quantity
+                  </label>
+                  <input
+                    {...register('reorder_quantity', {
+                      valueAsNumber: true,
+                      min: { value: 0, message: 'Reorder quantity cannot be negative' }
+                    })}
+                    type="number"
+                    min="0"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="0"
+                  />
+                  {errors.reorder_quantity && (
+                    <p className="text-sm text-red-600 mt-1">{errors.reorder_quantity.message}</p>
                   )}
                 </div>
               </div>
+              <p className="text-xs text-gray-500 -mt-2">
+                You are alerted when stock falls to the reorder point. Leave it at 0 to be told only when it runs out.
+              </p>
 
               <div className="flex gap-3 pt-4">
                 <button
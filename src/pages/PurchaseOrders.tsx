@@ -0,0 +1,647 @@
+import React, { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { format } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { ProductVariant, formatVariantLabel } from '../lib/variants'
+import {
+  Supplier,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_STYLES,
+  isOpenOrder,
+  getOrderTotals
+} from '../lib/purchasing'
+import { Plus, Edit, Trash2, Send, PackageCheck, ClipboardList, X } from 'lucide-react'
+
+interface Product {
+  id: string
+  name: string
+  sku: string
+  buy_price?: number | null
+}
+
+interface OrderLine extends PurchaseOrderLine {
+  products: Pick<Product, 'name' | 'sku'>
+  product_variants: Pick<ProductVariant, 'size' | 'colour' | 'fit' | 'sku'> | null
+}
+
+interface Order extends PurchaseOrder {
+  suppliers: Pick<Supplier, 'name'>
+  purchase_order_lines: OrderLine[]
+}
+
+interface OrderForm {
+  supplier_id: string
+  expected_date: string
+  notes: string
+}
+
+interface DraftLine {
+  product_id: string
+  variant_id: string
+  quantity_ordered: number
+  unit_cost: number
+}
+
+const ORDER_COLUMNS = `
+  *,
+  suppliers(name),
+  purchase_order_lines(
+    *,
+    products:product_catalog(name, sku),
+    product_variants(size, colour, fit, sku)
+  )
+`
+
+const EMPTY_LINE: DraftLine = { product_id: '', variant_id: '', quantity_ordered: 1, unit_cost: 0 }
+
+const PurchaseOrders: React.FC = () => {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [variants, setVariants] = useState<ProductVariant[]>([])
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'open' | ''>('open')
+  const [supplierFilter, setSupplierFilter] = useState('')
+  const [showModal, setShowModal] = useState(false)
+  const [editingOrder, setEditingOrder] = useState<Order | null>(null)
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([EMPTY_LINE])
+  const [receivingOrder, setReceivingOrder] = useState<Order | null>(null)
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const canViewCost = usePermission('cost.view')
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<OrderForm>()
+
+  useEffect(() => {
+    fetchOrders()
+  }, [])
+
+  useEffect(() => {
+    fetchLookups(canViewCost)
+  }, [canViewCost])
+
+  // Cost viewers get each product's buy price as the default unit cost
+  const fetchLookups = async (withCost: boolean) => {
+    try {
+      const productsQuery = withCost
+        ? supabase.from('products').select('id, name, sku, buy_price')
+        : supabase.from('product_catalog').select('id, name, sku')
+
+      const [suppliersResponse, productsResponse, variantsResponse] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        productsQuery.is('archived_at', null).order('name'),
+        supabase
+          .from('product_variants')
+          .select('id, product_id, size, colour, fit, sku, sell_price, quantity')
+          .order('created_at')
+      ])
+
+      if (suppliersResponse.error) throw suppliersResponse.error
+      if (productsResponse.error) throw productsResponse.error
+      if (variantsResponse.error) throw variantsResponse.error
+
+      setSuppliers(suppliersResponse.data || [])
+      setProducts(productsResponse.data || [])
+      setVariants(variantsResponse.data || [])
+    } catch (error) {
+      console.error('Error fetching purchase order lookups:', error)
+    }
+  }
+
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(ORDER_COLUMNS)
+        .order('created_at', { ascending: false })
+        .order('created_at', { referencedTable: 'purchase_order_lines' })
+
+      if (error) throw error
+      setOrders(data || [])
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setDraftLines(lines => lines.map((line, i) => i === index ? { ...line, ...changes } : line))
+  }
+
+  const handleProductChange = (index: number, productId: string) => {
+    const product = products.find(p => p.id === productId)
+    updateLine(index, { product_id: productId, variant_id: '', unit_cost: product?.buy_price ?? 0 })
+  }
+
+  const onSubmit = async (data: OrderForm) => {
+    const lines = draftLines.filter(line => line.product_id)
+
+    if (lines.length === 0) {
+      alert('Add at least one product to the order')
+      return
+    }
+    if (lines.some(line => !line.variant_id && variants.some(v => v.product_id === line.product_id))) {
+      alert('Choose a variant for every product that has variants')
+      return
+    }
+    if (lines.some(line => !(line.quantity_ordered > 0) || !(line.unit_cost >= 0))) {
+      alert('Each line needs a quantity above zero and a unit cost')
+      return
+    }
+
+    try {
+      const { error } = await supabase.rpc('save_purchase_order', {
+        order_id: editingOrder?.id ?? null,
+        supplier_id: data.supplier_id,
+        expected_date: data.expected_date || null,
+        notes: data.notes,
+        lines: lines.map(line => ({ ...line, variant_id: line.variant_id || null }))
+      })
+
+      if (error) throw error
+
+      await fetchOrders()
+      handleCloseModal()
+    } catch (error) {
+      console.error('Error saving purchase order:', error)
+      alert(`Error saving purchase order: ${(error as Error).message}`)
+    }
+  }
+
+  const handleEdit = (order: Order) => {
+    setEditingOrder(order)
+    reset({
+      supplier_id: order.supplier_id,
+      expected_date: order.expected_date ?? '',
+      notes: order.notes
+    })
+    setDraftLines(order.purchase_order_lines.map(line => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id ?? '',
+      quantity_ordered: line.quantity_ordered,
+      unit_cost: line.unit_cost
+    })))
+    setShowModal(true)
+  }
+
+  const handleSend = async (order: Order) => {
+    if (!confirm(`Mark ${order.reference} as sent to ${order.suppliers.name}? It can no longer be edited.`)) return
+
+    try {
+      const { error } = await supabase.rpc('send_purchase_order', { order_id: order.id })
+      if (error) throw error
+
+      await fetchOrders()
+    } catch (error) {
+      console.error('Error sending purchase order:', error)
+      alert(`Error sending purchase order: ${(error as Error).message}`)
+    }
+  }
+
+  const handleDelete = async (order: Order) => {
+    if (!confirm(`Delete draft ${order.reference}?`)) return
+
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', order.id)
+
+      if (error) throw error
+
+      await fetchOrders()
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      alert('Error deleting purchase order')
+    }
+  }
+
+  const handleReceive = (order: Order) => {
+    setReceivingOrder(order)
+    setReceivedQuantities(Object.fromEntries(
+      order.purchase_order_lines.map(line => [line.id, line.quantity_ordered - line.quantity_received])
+    ))
+  }
+
+  const onReceive = async () => {
+    if (!receivingOrder) return
+
+    const lines = Object.entries(receivedQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([line_id, quantity]) => ({ line_id, quantity }))
+
+    if (lines.length === 0) {
+      alert('Enter the quantity received for at least one line')
+      return
+    }
+
+    try {
+      const { error } = await supabase.rpc('receive_purchase_order', {
+        order_id: receivingOrder.id,
+        lines
+      })
+
+      if (error) throw error
+
+      await fetchOrders()
+      setReceivingOrder(null)
+    } catch (error) {
+      console.error('Error receiving purchase order:', error)
+      alert(`Error receiving purchase order: ${(error as Error).message}`)
+    }
+  }
+
+  const handleCloseModal = () => {
+    setShowModal(false)
+    setEditingOrder(null)
+    setDraftLines([EMPTY_LINE])
+    reset({ supplier_id: '', expected_date: '', notes: '' })
+  }
+
+  const lineLabel = (line: OrderLine) =>
+    line.product_variants ? `${line.products.name} (${formatVariantLabel(line.product_variants)})` : line.products.name
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const filteredOrders = orders.filter(order =>
+    (statusFilter === '' || (statusFilter === 'open' ? isOpenOrder(order) : order.status === statusFilter)) &&
+    (supplierFilter === '' || order.supplier_id === supplierFilter)
+  )
+  const draftTotal = draftLines.reduce((sum, line) => sum + (line.quantity_ordered || 0) * (line.unit_cost || 0), 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600">Order stock from suppliers and book deliveries as they arrive</p>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          disabled={suppliers.length === 0}
+          title={suppliers.length === 0 ? 'Add a supplier first' : undefined}
+          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          New Order
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | 'open' | '')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="open">Awaiting delivery</option>
+          <option value="">All statuses</option>
+          {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([status, label]) => (
+            <option key={status} value={status}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={supplierFilter}
+          onChange={(e) => setSupplierFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All suppliers</option>
+          {suppliers.map(supplier => (
+            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Order
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ordered
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expected
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredOrders.map((order) => {
+                const totals = getOrderTotals(order.purchase_order_lines)
+
+                return (
+                  <tr key={order.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{order.reference}</div>
+                      <div className="text-xs text-gray-500">
+                        {order.purchase_order_lines.length} line{order.purchase_order_lines.length === 1 ? '' : 's'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{order.suppliers.name}</td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${PURCHASE_ORDER_STATUS_STYLES[order.status]}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">KES {totals.ordered.toLocaleString()}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">KES {totals.received.toLocaleString()}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {order.expected_date ? format(new Date(order.expected_date), 'MMM dd, yyyy') : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        {order.status === 'draft' && (
+                          <>
+                            <button
+                              onClick={() => handleSend(order)}
+                              className="text-green-600 hover:text-green-800"
+                              title="Mark as sent"
+                            >
+                              <Send className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleEdit(order)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(order)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        {isOpenOrder(order) && (
+                          <button
+                            onClick={() => handleReceive(order)}
+                            className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                            Receive
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredOrders.length === 0 && (
+          <div className="text-center py-12">
+            <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No purchase orders found</h3>
+            <p className="text-gray-600">
+              {orders.length === 0 ? 'Create an order to restock from a supplier' : 'Try a different status or supplier'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* New/Edit Order Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingOrder ? `Edit ${editingOrder.reference}` : 'New Purchase Order'}
+            </h2>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier
+                  </label>
+                  <select
+                    {...register('supplier_id', { required: 'Supplier is required' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a supplier</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                  {errors.supplier_id && (
+                    <p className="text-sm text-red-600 mt-1">{errors.supplier_id.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Expected Delivery
+                  </label>
+                  <input
+                    {...register('expected_date')}
+                    type="date"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Lines
+                </label>
+                <div className="space-y-2">
+                  {draftLines.map((line, index) => {
+                    const productVariants = variants.filter(v => v.product_id === line.product_id)
+
+                    return (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={line.product_id}
+                          onChange={(e) => handleProductChange(index, e.target.value)}
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">Select a product</option>
+                          {products.map(product => (
+                            <option key={product.id} value={product.id}>
+                              {product.name} ({product.sku})
+                            </option>
+                          ))}
+                        </select>
+                        {productVariants.length > 0 && (
+                          <select
+                            value={line.variant_id}
+                            onChange={(e) => updateLine(index, { variant_id: e.target.value })}
+                            className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value="">Variant</option>
+                            {productVariants.map(variant => (
+                              <option key={variant.id} value={variant.id}>{formatVariantLabel(variant)}</option>
+                            ))}
+                          </select>
+                        )}
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.quantity_ordered}
+                          onChange={(e) => updateLine(index, { quantity_ordered: e.target.valueAsNumber })}
+                          className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          title="Quantity"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(index, { unit_cost: e.target.valueAsNumber })}
+                          className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          title="Unit cost (KES)"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setDraftLines(lines => lines.filter((_, i) => i !== index))}
+                          disabled={draftLines.length === 1}
+                          className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+                <div className="flex items-center justify-between mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setDraftLines(lines => [...lines, EMPTY_LINE])}
+                    className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add line
+                  </button>
+                  <span className="text-sm font-medium text-gray-900">
+                    Total: KES {draftTotal.toLocaleString()}
+                  </span>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  {...register('notes')}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  {editingOrder ? 'Update Draft' : 'Save Draft'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Receive Delivery Modal */}
+      {receivingOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">
+              Receive {receivingOrder.reference}
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Quantities received are added to stock as of today
+            </p>
+
+            <table className="w-full mb-4">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-2">Product</th>
+                  <th className="py-2">Ordered</th>
+                  <th className="py-2">Received</th>
+                  <th className="py-2">Receiving Now</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {receivingOrder.purchase_order_lines.map(line => {
+                  const remaining = line.quantity_ordered - line.quantity_received
+
+                  return (
+                    <tr key={line.id} className="text-sm text-gray-900">
+                      <td className="py-2">
+                        <div>{lineLabel(line)}</div>
+                        <div className="text-xs text-gray-500">{line.product_variants?.sku ?? line.products.sku}</div>
+                      </td>
+                      <td className="py-2">{line.quantity_ordered}</td>
+                      <td className="py-2">{line.quantity_received}</td>
+                      <td className="py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max={remaining}
+                          value={receivedQuantities[line.id] ?? 0}
+                          onChange={(e) => setReceivedQuantities(quantities => ({ ...quantities, [line.id]: e.target.valueAsNumber || 0 }))}
+                          disabled={remaining === 0}
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                onClick={onReceive}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Book Delivery
+              </button>
+              <button
+                onClick={() => setReceivingOrder(null)}
+                className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PurchaseOrders
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { useForm } from 'react-hook-form'
+import { Plus, ShieldCheck, Trash2, Lock } from 'lucide-react'
+
+interface Role {
+  key: string
+  name: string
+  is_system: boolean
+  requires_two_factor: boolean
+}
+
+interface Permission {
+  key: string
+  description: string
+}
+
+interface RolePermission {
+  role: string
+  permission: string
+}
+
+interface RoleForm {
+  key: string
+  name: string
+}
+
+const Roles: React.FC = () => {
+  const [roles, setRoles] = useState<Role[]>([])
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [grants, setGrants] = useState<RolePermission[]>([])
+  const [userCounts, setUserCounts] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<RoleForm>()
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [rolesResponse, permissionsResponse, grantsResponse, usersResponse] = await Promise.all([
+        supabase.from('roles').select('key, name, is_system, requires_two_factor').order('created_at'),
+        supabase.from('permissions').select('key, description').order('key'),
+        supabase.from('role_permissions').select('role, permission'),
+        supabase.from('users').select('role')
+      ])
+
+      if (rolesResponse.error) throw rolesResponse.error
+      if (permissionsResponse.error) throw permissionsResponse.error
+      if (grantsResponse.error) throw grantsResponse.error
+      if (usersResponse.error) throw usersResponse.error
+
+      const counts: Record<string, number> = {}
+      usersResponse.data?.forEach(user => {
+        counts[user.role] = (counts[user.role] || 0) + 1
+      })
+
+      setRoles(rolesResponse.data || [])
+      setPermissions(permissionsResponse.data || [])
+      setGrants(grantsResponse.data || [])
+      setUserCounts(counts)
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const hasGrant = (role: string, permission: string) =>
+    grants.some(g => g.role === role && g.permission === permission)
+
+  const handleToggle = async (role: Role, permission: string) => {
+    if (role.is_system) return
+
+    try {
+      const { error } = hasGrant(role.key, permission)
+        ? await supabase
+          .from('role_permissions')
+          .delete()
+          .eq('role', role.key)
+          .eq('permission', permission)
+        : await supabase
+          .from('role_permissions')
+          .insert([{ role: role.key, permission }])
+
+      if (error) throw error
+      await fetchData()
+    } catch (error) {
+      console.error('Error updating permission:', error)
+      alert('Error updating permission')
+    }
+  }
+
+  const handleToggleTwoFactor = async (role: Role) => {
+    try {
+      const { error } = await supabase
+        .from('roles')
+        .update({ requires_two_factor: !role.requires_two_factor })
+        .eq('key', role.key)
+
+      if (error) throw error
+      await fetchData()
+    } catch (error) {
+      console.error('Error updating role:', error)
+      alert('Error updating role')
+    }
+  }
+
+  const onSubmit = async (data: RoleForm) => {
+    try {
+      const { error } = await supabase
+        .from('roles')
+        .insert([{ key: data.key, name: data.name }])
+
+      if (error) throw error
+
+      await fetchData()
+      handleCloseModal()
+    } catch (error) {
+      console.error('Error adding role:', error)
+      alert(`Error adding role: ${(error as Error).message}`)
+    }
+  }
+
+  const handleDelete = async (role: Role) => {
+    if (userCounts[role.key]) {
+      alert(`${role.name} is assigned to ${userCounts[role.key]} user(s). Move them to another role first.`)
+      return
+    }
+    if (!confirm(`Delete the ${role.name} role?`)) return
+
+    try {
+      const { error } = await supabase
+        .from('roles')
+        .delete()
+        .eq('key', role.key)
+
+      if (error) throw error
+      await fetchData()
+    } catch (error) {
+      console.error('Error deleting role:', error)
+      alert('Error deleting role')
+    }
+  }
+
+  const handleCloseModal = () => {
+    setShowModal(false)
+    reset()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Roles</h1>
+          <p className="text-gray-600">Choose what each role can see and do</p>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Add Role
+        </button>
+      </div>
+
+      {/* Permission Matrix */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Permission
+                </th>
+                {roles.map((role) => (
+                  <th key={role.key} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <div className="flex items-center justify-center gap-1">
+                      {role.is_system && <Lock className="h-3 w-3" />}
+                      {role.name}
+                      {!role.is_system && (
+                        <button
+                          onClick={() => handleDelete(role)}
+                          className="text-red-600 hover:text-red-800 ml-1"
+                          title="Delete role"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-xs font-normal normal-case text-gray-400 mt-1">
+                      {userCounts[role.key] || 0} user(s)
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              <tr className="bg-blue-50">
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900">Require two-factor sign-in</div>
+                  <div className="text-xs text-gray-500">Members must set up an authenticator app before using the app</div>
+                </td>
+                {roles.map((role) => (
+                  <td key={role.key} className="px-6 py-4 text-center">
+                    <input
+                      type="checkbox"
+                      checked={role.requires_two_factor}
+                      onChange={() => handleToggleTwoFactor(role)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                  </td>
+                ))}
+              </tr>
+              {permissions.map((permission) => (
+                <tr key={permission.key} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{permission.description}</div>
+                    <div className="text-xs text-gray-500">{permission.key}</div>
+                  </td>
+                  {roles.map((role) => (
+                    <td key={role.key} className="px-6 py-4 text-center">
+                      <input
+                        type="checkbox"
+                        checked={hasGrant(role.key, permission.key)}
+                        disabled={role.is_system}
+                        onChange={() => handleToggle(role, permission.key)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {roles.length === 0 && (
+          <div className="text-center py-12">
+            <ShieldCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No roles found</h3>
+          </div>
+        )}
+      </div>
+
+      {/* Add Role Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Add Role
+            </h2>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  {...register('name', { required: 'Name is required' })}
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="e.g. Store Manager"
+                />
+                {errors.name && (
+                  <p className="text-sm text-red-600 mt-1">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Key
+                </label>
+                <input
+                  {...register('key', {
+                    required: 'Key is required',
+                    pattern: { value: /^[a-z][a-z0-9_]*$/, message: 'Use lowercase letters, numbers and underscores' }
+                  })}
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="e.g. store_manager"
+                />
+                {errors.key && (
+                  <p className="text-sm text-red-600 mt-1">{errors.key.message}</p>
+                )}
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Add Role
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Roles
@@ -1,8 +1,23 @@
-import React, { useEffect, useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { usePermission } from '../hooks/usePermission'
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner'
+import { TableSort, useTableParams } from '../hooks/useTableParams'
+import { usePagedRows } from '../hooks/usePagedRows'
 import { useForm } from 'react-hook-form'
-import { Plus, ShoppingCart, DollarSign, User, Calendar } from 'lucide-react'
+import { ProductVariant, formatVariantLabel, getVariantPrice } from '../lib/variants'
+import { ExportColumn } from '../lib/export'
+import { findByBarcode } from '../lib/barcodes'
+import { fetchPrimaryThumbnails } from '../lib/images'
+import { announceStockChange } from '../lib/stock'
+import { fetchAllRows } from '../lib/pagination'
+import ExportMenu from '../components/ExportMenu'
+import DataTable, { DataTableColumn } from '../components/DataTable'
+import SearchInput from '../components/SearchInput'
+import ScanNotice, { ScanNoticeMessage } from '../components/ScanNotice'
+import ProductThumbnail from '../components/ProductThumbnail'
+import { Plus, ShoppingCart, DollarSign, User, Calendar, Ban, ScanLine } from 'lucide-react'
 import { format } from 'date-fns'
 
 interface Product {
@@ -16,78 +31,156 @@ interface Product {
 interface Sale {
   id: string
   product_id: string
+  variant_id: string | null
   quantity: number
   price: number
+  list_price: number
   date: string
   created_at: string
   products: {
     name: string
     sku: string
   }
+  product_variants: Pick<ProductVariant, 'size' | 'colour' | 'fit' | 'sku'> | null
   users: {
     username: string
   }
 }
 
+interface SalesSummary {
+  revenue: number
+  sales_count: number
+  items_sold: number
+}
+
 interface SaleForm {
   product_id: string
+  variant_id: string
   quantity: number
   price: number
   date: string
 }
 
+const EXPORT_COLUMNS: ExportColumn<Sale>[] = [
+  { header: 'Date', value: (sale) => sale.date },
+  { header: 'Product', value: (sale) => sale.products.name },
+  { header: 'Variant', value: (sale) => sale.product_variants && formatVariantLabel(sale.product_variants) },
+  { header: 'SKU', value: (sale) => sale.product_variants?.sku ?? sale.products.sku },
+  { header: 'Quantity', value: (sale) => sale.quantity },
+  { header: 'List Price', money: true, value: (sale) => sale.list_price },
+  { header: 'Price Each', money: true, value: (sale) => sale.price },
+  { header: 'Total', money: true, value: (sale) => sale.price * sale.quantity },
+  { header: 'Recorded By', value: (sale) => sale.users?.username },
+]
+
+const SALE_COLUMNS = `
+  *,
+  products:product_catalog(name, sku),
+  product_variants(size, colour, fit, sku),
+  users:staff_directory(username)
+`
+
+const DEFAULT_SORT: TableSort = { column: 'date', ascending: false }
+
 const Sales: React.FC = () => {
   const { user } = useAuth()
   const [products, setProducts] = useState<Product[]>([])
-  const [sales, setSales] = useState<Sale[]>([])
+  const [variants, setVariants] = useState<ProductVariant[]>([])
+  const [summary, setSummary] = useState<SalesSummary>({ revenue: 0, sales_count: 0, items_sold: 0 })
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
+  const [scanNotice, setScanNotice] = useState<ScanNoticeMessage | null>(null)
+  const canRecordSale = usePermission('sales.record')
+  const canVoidSale = usePermission('sales.void')
 
-  const { register, handleSubmit, reset, watch, setValue, formState: { errors } } = useForm<SaleForm>({
+  const { register, handleSubmit, reset, watch, setValue, getValues, formState: { errors } } = useForm<SaleForm>({
     defaultValues: {
       date: format(new Date(), 'yyyy-MM-dd')
     }
   })
 
   const selectedProductId = watch('product_id')
+  const selectedVariantId = watch('variant_id')
+  const productVariants = variants.filter(v => v.product_id === selectedProductId)
+  const pickedProduct = products.find(p => p.id === selectedProductId)
+
+  const table = useTableParams(DEFAULT_SORT)
+  const dateFrom = table.getFilter('from')
+  const dateTo = table.getFilter('to')
+  const isFiltered = Boolean(table.search || dateFrom || dateTo)
+
+  // Ties on the sort column keep the newest sale first
+  const querySales = useCallback((count?: 'exact') => {
+    let query = supabase.rpc('search_sales', { term: table.search }, { count })
+    if (dateFrom) query = query.gte('date', dateFrom)
+    if (dateTo) query = query.lte('date', dateTo)
+
+    return query
+      .select(SALE_COLUMNS)
+      .order(table.sort.column, { ascending: table.sort.ascending })
+      .order('created_at', { ascending: false })
+  }, [table.search, table.sort.column, table.sort.ascending, dateFrom, dateTo])
+
+  const fetchSalePage = useCallback((from: number, to: number) =>
+    querySales('exact').range(from, to), [querySales])
+
+  const { rows: sales, total, loading: salesLoading, fetching, refresh } =
+    usePagedRows<Sale>(fetchSalePage, table.page, table.pageSize)
+
+  // Totals follow the search and date range, like the list below them
+  const fetchSummary = useCallback(async () => {
+    const { data, error } = await supabase
+      .rpc('sales_summary', { term: table.search, date_from: dateFrom || null, date_to: dateTo || null })
+      .single()
+
+    if (error) {
+      console.error('Error fetching sales summary:', error)
+      return
+    }
+    setSummary(data as SalesSummary)
+  }, [table.search, dateFrom, dateTo])
 
   useEffect(() => {
     fetchData()
   }, [])
 
   useEffect(() => {
-    // Auto-fill price when product is selected
+    fetchSummary()
+  }, [fetchSummary])
+
+  useEffect(() => {
+    // Auto-fill price when product or variant is selected
     if (selectedProductId) {
       const selectedProduct = products.find(p => p.id === selectedProductId)
+      const selectedVariant = variants.find(v => v.id === selectedVariantId)
       if (selectedProduct) {
-        setValue('price', selectedProduct.sell_price)
+        setValue('price', selectedVariant ? getVariantPrice(selectedVariant, selectedProduct) : selectedProduct.sell_price)
       }
     }
-  }, [selectedProductId, products, setValue])
+  }, [selectedProductId, selectedVariantId, products, variants, setValue])
 
   const fetchData = async () => {
     try {
-      const [productsResponse, salesResponse] = await Promise.all([
+      const [productsResponse, variantsResponse, primaryThumbnails] = await Promise.all([
         supabase
-          .from('products')
+          .from('product_catalog')
           .select('id, name, sku, sell_price, quantity')
-          .gt('quantity', 0)
+          .is('archived_at', null)
           .order('name'),
         supabase
-          .from('sales')
-          .select(`
-            *,
-            products(name, sku),
-            users(username)
-          `)
-          .order('created_at', { ascending: false })
+          .from('product_variants')
+          .select('id, product_id, size, colour, fit, sku, sell_price, quantity')
+          .order('created_at'),
+        fetchPrimaryThumbnails()
       ])
 
       if (productsResponse.error) throw productsResponse.error
-      if (salesResponse.error) throw salesResponse.error
+      if (variantsResponse.error) throw variantsResponse.error
 
       setProducts(productsResponse.data || [])
-      setSales(salesResponse.data || [])
+      setVariants(variantsResponse.data || [])
+      setThumbnails(primaryThumbnails)
     } catch (error) {
       console.error('Error fetching data:', error)
     } finally {
@@ -104,8 +197,16 @@ const Sales: React.FC = () => {
         return
       }
 
-      if (data.quantity > selectedProduct.quantity) {
-        alert(`Insufficient stock. Available: ${selectedProduct.quantity}`)
+      const selectedVariant = variants.find(v => v.id === data.variant_id)
+
+      if (productVariants.length > 0 && !selectedVariant) {
+        alert('Please select a size, colour or fit')
+        return
+      }
+
+      const available = selectedVariant ? selectedVariant.quantity : selectedProduct.quantity
+      if (data.quantity > available) {
+        alert(`Insufficient stock. Available: ${available}`)
         return
       }
 
@@ -113,6 +214,7 @@ const Sales: React.FC = () => {
         .from('sales')
         .insert([{
           product_id: data.product_id,
+          variant_id: selectedVariant?.id ?? null,
           quantity: Number(data.quantity),
           price: Number(data.price),
           date: data.date,
@@ -121,24 +223,85 @@ const Sales: React.FC = () => {
 
       if (error) throw error
 
-      await fetchData()
+      announceStockChange()
+      await Promise.all([fetchData(), fetchSummary(), refresh()])
       handleCloseModal()
     } catch (error) {
       console.error('Error recording sale:', error)
     }
   }
 
+  const handleVoid = async (sale: Sale) => {
+    if (!confirm(`Void this sale of ${sale.quantity} x ${sale.products.name}? The stock will be put back.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('sales')
+        .delete()
+        .eq('id', sale.id)
+
+      if (error) throw error
+      await Promise.all([fetchData(), fetchSummary(), refresh()])
+    } catch (error) {
+      console.error('Error voiding sale:', error)
+      alert('Error voiding sale')
+    }
+  }
+
   const handleCloseModal = () => {
     setShowModal(false)
     reset({
       product_id: '',
+      variant_id: '',
       quantity: 1,
       price: 0,
       date: format(new Date(), 'yyyy-MM-dd')
     })
   }
 
-  if (loading) {
+  const handleScan = async (code: string) => {
+    try {
+      const match = await findByBarcode(code)
+
+      if (!match) {
+        setScanNotice({ type: 'error', text: `No product matches ${code}` })
+        return
+      }
+
+      if (match.quantity <= 0) {
+        setScanNotice({ type: 'error', text: `${match.name} is out of stock` })
+        return
+      }
+
+      const current = getValues()
+      // Scanning the item already in the form sells one more of it
+      if (showModal && current.product_id === match.productId && (!match.variantId || current.variant_id === match.variantId)) {
+        const quantity = (Number(current.quantity) || 0) + 1
+        if (quantity > match.quantity) {
+          setScanNotice({ type: 'error', text: `Only ${match.quantity} of ${match.name} in stock` })
+          return
+        }
+        setValue('quantity', quantity)
+        setScanNotice({ type: 'success', text: `${match.name} × ${quantity}` })
+        return
+      }
+
+      setValue('product_id', match.productId)
+      setValue('variant_id', match.variantId ?? '')
+      setValue('quantity', 1)
+      setShowModal(true)
+      setScanNotice({ type: 'success', text: `Scanned ${match.name}` })
+    } catch (error) {
+      console.error('Error looking up barcode:', error)
+      setScanNotice({ type: 'error', text: `Could not look up ${code}` })
+    }
+  }
+
+  useBarcodeScanner(handleScan, canRecordSale)
+
+  const clearScanNotice = useCallback(() => setScanNotice(null), [])
+
+  if (loading || salesLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -146,8 +309,17 @@ const Sales: React.FC = () => {
     )
   }
 
-  const totalSales = sales.reduce((sum, sale) => sum + (sale.price * sale.quantity), 0)
-  const totalItemsSold = sales.reduce((sum, sale) => sum + sale.quantity, 0)
+  const exportSales = () => fetchAllRows<Sale>((from, to) => querySales().range(from, to))
+
+  const tableColumns: DataTableColumn[] = [
+    { header: 'Product', sortKey: 'products(name)' },
+    { header: 'Quantity', sortKey: 'quantity' },
+    { header: 'Price Each', sortKey: 'price' },
+    { header: 'Total', sortKey: 'line_total' },
+    { header: 'Date', sortKey: 'date' },
+    { header: 'Recorded By' },
+    ...(canVoidSale ? [{ header: 'Actions' }] : []),
+  ]
 
   return (
     <div className="space-y-6">
@@ -156,13 +328,15 @@ const Sales: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Sales</h1>
           <p className="text-gray-600">Record and track sales transactions</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="inline-flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          Record Sale
-        </button>
+        {canRecordSale && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="inline-flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Record Sale
+          </button>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -172,7 +346,7 @@ const Sales: React.FC = () => {
             <div>
               <p className="text-sm font-medium text-gray-600">Total Revenue</p>
               <p className="text-2xl font-bold text-green-600">
-                KES {totalSales.toLocaleString()}
+                KES {summary.revenue.toLocaleString()}
               </p>
             </div>
             <DollarSign className="h-8 w-8 text-green-600 opacity-20" />
@@ -183,7 +357,7 @@ const Sales: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Sales</p>
-              <p className="text-2xl font-bold text-blue-600">{sales.length}</p>
+              <p className="text-2xl font-bold text-blue-600">{summary.sales_count}</p>
             </div>
             <ShoppingCart className="h-8 w-8 text-blue-600 opacity-20" />
           </div>
@@ -193,7 +367,7 @@ const Sales: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Items Sold</p>
-              <p className="text-2xl font-bold text-purple-600">{totalItemsSold}</p>
+              <p className="text-2xl font-bold text-purple-600">{summary.items_sold}</p>
             </div>
             <ShoppingCart className="h-8 w-8 text-purple-600 opacity-20" />
           </div>
@@ -201,96 +375,118 @@ const Sales: React.FC = () => {
       </div>
 
       {/* Sales Table */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-900">Recent Sales</h2>
-        </div>
-
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Product
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Quantity
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Price Each
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Total
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Recorded By
-                </th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-200">
-              {sales.map((sale) => (
-                <tr key={sale.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4">
-                    <div className="flex items-center">
-                      <ShoppingCart className="h-8 w-8 text-gray-400 mr-3" />
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">
-                          {sale.products.name}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {sale.products.sku}
-                        </div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      {sale.quantity}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    KES {sale.price.toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4 text-sm font-semibold text-gray-900">
-                    KES {(sale.price * sale.quantity).toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    <div className="flex items-center">
-                      <Calendar className="h-4 w-4 text-gray-400 mr-2" />
-                      {format(new Date(sale.date), 'MMM dd, yyyy')}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    <div className="flex items-center">
-                      <User className="h-4 w-4 text-gray-400 mr-2" />
-                      {sale.users?.username || 'Unknown'}
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-
-        {sales.length === 0 && (
+      <DataTable
+        columns={tableColumns}
+        rows={sales}
+        total={total}
+        params={table}
+        fetching={fetching}
+        toolbar={
+          <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Recent Sales</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <SearchInput value={table.search} onSearch={table.setSearch} placeholder="Search product or SKU..." className="w-64" />
+              <input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => table.setFilter('from', e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="From"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="date"
+                value={dateTo}
+                onChange={(e) => table.setFilter('to', e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="To"
+              />
+              <ExportMenu title="Sales" fileName="sales" columns={EXPORT_COLUMNS} rows={exportSales} disabled={total === 0} />
+            </div>
+          </div>
+        }
+        renderRow={(sale) => (
+          <tr key={sale.id} className="hover:bg-gray-50">
+            <td className="px-6 py-4">
+              <div className="flex items-center">
+                <ProductThumbnail url={thumbnails[sale.product_id]} name={sale.products.name} className="h-10 w-10 mr-3" />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {sale.products.name}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {sale.product_variants
+                      ? `${formatVariantLabel(sale.product_variants)} · ${sale.product_variants.sku}`
+                      : sale.products.sku}
+                  </div>
+                </div>
+              </div>
+            </td>
+            <td className="px-6 py-4">
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                {sale.quantity}
+              </span>
+            </td>
+            <td className="px-6 py-4 text-sm text-gray-900">
+              KES {sale.price.toLocaleString()}
+              {sale.price < sale.list_price && (
+                <div className="text-xs text-gray-500 line-through">
+                  KES {sale.list_price.toLocaleString()}
+                </div>
+              )}
+            </td>
+            <td className="px-6 py-4 text-sm font-semibold text-gray-900">
+              KES {(sale.price * sale.quantity).toLocaleString()}
+            </td>
+            <td className="px-6 py-4 text-sm text-gray-900">
+              <div className="flex items-center">
+                <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                {format(new Date(sale.date), 'MMM dd, yyyy')}
+              </div>
+            </td>
+            <td className="px-6 py-4 text-sm text-gray-900">
+              <div className="flex items-center">
+                <User className="h-4 w-4 text-gray-400 mr-2" />
+                {sale.users?.username || 'Unknown'}
+              </div>
+            </td>
+            {canVoidSale && (
+              <td className="px-6 py-4 text-sm">
+                <button
+                  onClick={() => handleVoid(sale)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Void sale"
+                >
+                  <Ban className="h-4 w-4" />
+                </button>
+              </td>
+            )}
+          </tr>
+        )}
+        empty={
           <div className="text-center py-12">
             <ShoppingCart className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No sales recorded yet</h3>
-            <p className="text-gray-600">Start by recording your first sale</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {isFiltered ? 'No matching sales' : 'No sales recorded yet'}
+            </h3>
+            <p className="text-gray-600">
+              {isFiltered ? 'Try a different search or widening the date range' : 'Start by recording your first sale'}
+            </p>
           </div>
-        )}
-      </div>
+        }
+      />
 
       {/* Record Sale Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg max-w-md w-full p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
               Record Sale
             </h2>
+            <p className="flex items-center gap-1 text-sm text-gray-500 mb-4">
+              <ScanLine className="h-4 w-4" />
+              Scan a barcode to fill in the product
+            </p>
 
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div>
@@ -298,21 +494,53 @@ const Sales: React.FC = () => {
                   Product
                 </label>
                 <select
-                  {...register('product_id', { required: 'Please select a product' })}
+                  {...register('product_id', {
+                    required: 'Please select a product',
+                    // Switching product clears a variant picked for the previous one
+                    onChange: () => setValue('variant_id', '')
+                  })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">Select a product</option>
                   {products.map((product) => (
-                    <option key={product.id} value={product.id}>
-                      {product.name} ({product.sku}) - Stock: {product.quantity}
+                    <option key={product.id} value={product.id} disabled={product.quantity <= 0}>
+                      {product.name} ({product.sku}) - {product.quantity > 0 ? `Stock: ${product.quantity}` : 'Out of stock'}
                     </option>
                   ))}
                 </select>
                 {errors.product_id && (
                   <p className="text-sm text-red-600 mt-1">{errors.product_id.message}</p>
                 )}
+                {pickedProduct && (
+                  <div className="flex items-center mt-2">
+                    <ProductThumbnail url={thumbnails[pickedProduct.id]} name={pickedProduct.name} className="h-16 w-16 mr-3" />
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{pickedProduct.name}</div>
+                      <div className="text-sm text-gray-500">{pickedProduct.sku}</div>
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {productVariants.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Variant
+                  </label>
+                  <select
+                    {...register('variant_id')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a size, colour or fit</option>
+                    {productVariants.map((variant) => (
+                      <option key={variant.id} value={variant.id} disabled={variant.quantity <= 0}>
+                        {formatVariantLabel(variant)} ({variant.sku}) - {variant.quantity > 0 ? `Stock: ${variant.quantity}` : 'Out of stock'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -388,6 +616,8 @@ const Sales: React.FC = () => {
           </div>
         </div>
       )}
+
+      <ScanNotice notice={scanNotice} onDismiss={clearScanNotice} />
     </div>
   )
 }
@@ -0,0 +1,143 @@
+import React, { useState } from 'react'
+import { Navigate, useNavigate } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { useForm } from 'react-hook-form'
+import { Shirt } from 'lucide-react'
+
+interface SetupForm {
+  business_name: string
+  username: string
+  password: string
+  confirm_password: string
+}
+
+const Setup: React.FC = () => {
+  const { needsSetup, loading, completeSetup } = useAuth()
+  const navigate = useNavigate()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<SetupForm>()
+
+  const password = watch('password')
+
+  if (!loading && !needsSetup) {
+    return <Navigate to="/" replace />
+  }
+
+  const onSubmit = async (data: SetupForm) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await completeSetup(data.business_name, data.username, data.password)
+      navigate('/', { replace: true })
+    } catch (error) {
+      console.error('Setup error:', error)
+      setError((error as Error).message)
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+            <Shirt className="h-8 w-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Welcome</h1>
+          <p className="text-gray-600 mt-2">Set up your business and owner account</p>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Business Name
+            </label>
+            <input
+              {...register('business_name', { required: 'Business name is required' })}
+              type="text"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g. Gents by Elegante"
+            />
+            {errors.business_name && (
+              <p className="mt-1 text-sm text-red-600">{errors.business_name.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Owner Username
+            </label>
+            <input
+              {...register('username', { required: 'Username is required' })}
+              type="text"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Choose a username"
+            />
+            {errors.username && (
+              <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <input
+              {...register('password', {
+                required: 'Password is required',
+                minLength: { value: 6, message: 'Password must be at least 6 characters' }
+              })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Choose a password"
+            />
+            {errors.password && (
+              <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Confirm Password
+            </label>
+            <input
+              {...register('confirm_password', {
+                required: 'Please confirm the password',
+                validate: (value) => value === password || 'Passwords do not match'
+              })}
+              type="password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Re-enter the password"
+            />
+            {errors.confirm_password && (
+              <p className="mt-1 text-sm text-red-600">{errors.confirm_password.message}</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 border border-red-200">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              'Complete Setup'
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default Setup
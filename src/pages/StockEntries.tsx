@@ -1,7 +1,20 @@
-import React, { useEffect, useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
+import { usePermission } from '../hooks/usePermission'
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner'
+import { TableSort, useTableParams } from '../hooks/useTableParams'
+import { usePagedRows } from '../hooks/usePagedRows'
 import { useForm } from 'react-hook-form'
-import { Plus, Package, TrendingUp, Calendar } from 'lucide-react'
+import { ProductVariant, formatVariantLabel } from '../lib/variants'
+import { ExportColumn } from '../lib/export'
+import { findByBarcode } from '../lib/barcodes'
+import { fetchAllRows } from '../lib/pagination'
+import ExportMenu from '../components/ExportMenu'
+import DataTable, { DataTableColumn } from '../components/DataTable'
+import SearchInput from '../components/SearchInput'
+import ScanNotice, { ScanNoticeMessage } from '../components/ScanNotice'
+import LabelPrintModal, { LabelRequest } from '../components/LabelPrintModal'
+import { Plus, Package, TrendingUp, Calendar, Printer, ScanLine } from 'lucide-react'
 import { format } from 'date-fns'
 
 interface Product {
@@ -14,6 +27,7 @@ interface Product {
 interface StockEntry {
   id: string
   product_id: string
+  variant_id: string | null
   quantity: number
   date: string
   created_at: string
@@ -21,48 +35,103 @@ interface StockEntry {
     name: string
     sku: string
   }
+  product_variants: Pick<ProductVariant, 'size' | 'colour' | 'fit' | 'sku'> | null
 }
 
 interface StockEntryForm {
   product_id: string
+  variant_id: string
   quantity: number
   date: string
 }
 
+const EXPORT_COLUMNS: ExportColumn<StockEntry>[] = [
+  { header: 'Date', value: (entry) => entry.date },
+  { header: 'Product', value: (entry) => entry.products.name },
+  { header: 'Variant', value: (entry) => entry.product_variants && formatVariantLabel(entry.product_variants) },
+  { header: 'SKU', value: (entry) => entry.product_variants?.sku ?? entry.products.sku },
+  { header: 'Quantity Added', value: (entry) => entry.quantity },
+]
+
+const ENTRY_COLUMNS = `
+  *,
+  products:product_catalog(name, sku),
+  product_variants(size, colour, fit, sku)
+`
+
+const TABLE_COLUMNS: DataTableColumn[] = [
+  { header: 'Product', sortKey: 'products(name)' },
+  { header: 'SKU', sortKey: 'products(sku)' },
+  { header: 'Quantity Added', sortKey: 'quantity' },
+  { header: 'Date', sortKey: 'date' },
+  { header: 'Labels' },
+]
+
+const DEFAULT_SORT: TableSort = { column: 'date', ascending: false }
+
 const StockEntries: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([])
-  const [stockEntries, setStockEntries] = useState<StockEntry[]>([])
+  const [variants, setVariants] = useState<ProductVariant[]>([])
+  const [entryCount, setEntryCount] = useState(0)
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
+  const [labelItems, setLabelItems] = useState<LabelRequest[] | null>(null)
+  const [scanNotice, setScanNotice] = useState<ScanNoticeMessage | null>(null)
+  const canAddStock = usePermission('stock.edit')
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<StockEntryForm>({
+  const { register, handleSubmit, reset, watch, setValue, getValues, formState: { errors } } = useForm<StockEntryForm>({
     defaultValues: {
       date: format(new Date(), 'yyyy-MM-dd')
     }
   })
 
+  const selectedProductId = watch('product_id')
+  const productVariants = variants.filter(v => v.product_id === selectedProductId)
+
+  const table = useTableParams(DEFAULT_SORT)
+  const dateFrom = table.getFilter('from')
+  const dateTo = table.getFilter('to')
+
+  // Ties on the sort column keep the newest entry first
+  const queryEntries = useCallback((count?: 'exact') => {
+    let query = supabase.rpc('search_stock_entries', { term: table.search }, { count })
+    if (dateFrom) query = query.gte('date', dateFrom)
+    if (dateTo) query = query.lte('date', dateTo)
+
+    return query
+      .select(ENTRY_COLUMNS)
+      .order(table.sort.column, { ascending: table.sort.ascending })
+      .order('created_at', { ascending: false })
+  }, [table.search, table.sort.column, table.sort.ascending, dateFrom, dateTo])
+
+  const fetchEntryPage = useCallback((from: number, to: number) =>
+    queryEntries('exact').range(from, to), [queryEntries])
+
+  const { rows: stockEntries, total, loading: entriesLoading, fetching, refresh } =
+    usePagedRows<StockEntry>(fetchEntryPage, table.page, table.pageSize)
+
   useEffect(() => {
     fetchData()
   }, [])
 
   const fetchData = async () => {
     try {
-      const [productsResponse, stockEntriesResponse] = await Promise.all([
-        supabase.from('products').select('id, name, sku, quantity').order('name'),
+      const [productsResponse, variantsResponse, entryCountResponse] = await Promise.all([
+        supabase.from('product_catalog').select('id, name, sku, quantity').is('archived_at', null).order('name'),
         supabase
-          .from('stock_entries')
-          .select(`
-            *,
-            products(name, sku)
-          `)
-          .order('created_at', { ascending: false })
+          .from('product_variants')
+          .select('id, product_id, size, colour, fit, sku, sell_price, quantity')
+          .order('created_at'),
+        supabase.from('stock_entries').select('id', { count: 'exact', head: true })
       ])
 
       if (productsResponse.error) throw productsResponse.error
-      if (stockEntriesResponse.error) throw stockEntriesResponse.error
+      if (variantsResponse.error) throw variantsResponse.error
+      if (entryCountResponse.error) throw entryCountResponse.error
 
       setProducts(productsResponse.data || [])
-      setStockEntries(stockEntriesResponse.data || [])
+      setVariants(variantsResponse.data || [])
+      setEntryCount(entryCountResponse.count ?? 0)
     } catch (error) {
       console.error('Error fetching data:', error)
     } finally {
@@ -72,17 +141,23 @@ const StockEntries: React.FC = () => {
 
   const onSubmit = async (data: StockEntryForm) => {
     try {
+      if (productVariants.length > 0 && !data.variant_id) {
+        alert('Please select a size, colour or fit')
+        return
+      }
+
       const { error } = await supabase
         .from('stock_entries')
         .insert([{
           product_id: data.product_id,
+          variant_id: data.variant_id || null,
           quantity: Number(data.quantity),
           date: data.date
         }])
 
       if (error) throw error
 
-      await fetchData()
+      await Promise.all([fetchData(), refresh()])
       handleCloseModal()
     } catch (error) {
       console.error('Error adding stock entry:', error)
@@ -93,12 +168,48 @@ const StockEntries: React.FC = () => {
     setShowModal(false)
     reset({
       product_id: '',
+      variant_id: '',
       quantity: 0,
       date: format(new Date(), 'yyyy-MM-dd')
     })
   }
 
-  if (loading) {
+  const exportEntries = () => fetchAllRows<StockEntry>((from, to) => queryEntries().range(from, to))
+
+  const handleScan = async (code: string) => {
+    try {
+      const match = await findByBarcode(code)
+
+      if (!match) {
+        setScanNotice({ type: 'error', text: `No product matches ${code}` })
+        return
+      }
+
+      const current = getValues()
+      // Scanning the item already in the form receives one more of it
+      if (showModal && current.product_id === match.productId && (!match.variantId || current.variant_id === match.variantId)) {
+        const quantity = (Number(current.quantity) || 0) + 1
+        setValue('quantity', quantity)
+        setScanNotice({ type: 'success', text: `${match.name} × ${quantity}` })
+        return
+      }
+
+      setValue('product_id', match.productId)
+      setValue('variant_id', match.variantId ?? '')
+      setValue('quantity', 1)
+      setShowModal(true)
+      setScanNotice({ type: 'success', text: `Scanned ${match.name}` })
+    } catch (error) {
+      console.error('Error looking up barcode:', error)
+      setScanNotice({ type: 'error', text: `Could not look up ${code}` })
+    }
+  }
+
+  useBarcodeScanner(handleScan, canAddStock && !labelItems)
+
+  const clearScanNotice = useCallback(() => setScanNotice(null), [])
+
+  if (loading || entriesLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -113,13 +224,15 @@ const StockEntries: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Stock Entries</h1>
           <p className="text-gray-600">Track inventory additions</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          Add Stock
-        </button>
+        {canAddStock && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Add Stock
+          </button>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -138,7 +251,7 @@ const StockEntries: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Stock Entries</p>
-              <p className="text-2xl font-bold text-green-600">{stockEntries.length}</p>
+              <p className="text-2xl font-bold text-green-600">{entryCount}</p>
             </div>
             <TrendingUp className="h-8 w-8 text-green-600 opacity-20" />
           </div>
@@ -158,78 +271,109 @@ const StockEntries: React.FC = () => {
       </div>
 
       {/* Stock Entries Table */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-900">Recent Stock Entries</h2>
-        </div>
-
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Product
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  SKU
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Quantity Added
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
-                </th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-200">
-              {stockEntries.map((entry) => (
-                <tr key={entry.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4">
-                    <div className="flex items-center">
-                      <Package className="h-8 w-8 text-gray-400 mr-3" />
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">
-                          {entry.products.name}
-                        </div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    {entry.products.sku}
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                      +{entry.quantity}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    <div className="flex items-center">
-                      <Calendar className="h-4 w-4 text-gray-400 mr-2" />
-                      {format(new Date(entry.date), 'MMM dd, yyyy')}
+      <DataTable
+        columns={TABLE_COLUMNS}
+        rows={stockEntries}
+        total={total}
+        params={table}
+        fetching={fetching}
+        toolbar={
+          <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Recent Stock Entries</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <SearchInput value={table.search} onSearch={table.setSearch} placeholder="Search product or SKU..." className="w-64" />
+              <input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => table.setFilter('from', e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="From"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="date"
+                value={dateTo}
+                onChange={(e) => table.setFilter('to', e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="To"
+              />
+              <ExportMenu title="Stock Entries" fileName="stock-entries" columns={EXPORT_COLUMNS} rows={exportEntries} disabled={total === 0} />
+            </div>
+          </div>
+        }
+        renderRow={(entry) => (
+          <tr key={entry.id} className="hover:bg-gray-50">
+            <td className="px-6 py-4">
+              <div className="flex items-center">
+                <Package className="h-8 w-8 text-gray-400 mr-3" />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {entry.products.name}
+                  </div>
+                  {entry.product_variants && (
+                    <div className="text-sm text-gray-500">
+                      {formatVariantLabel(entry.product_variants)}
                     </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-
-        {stockEntries.length === 0 && (
+                  )}
+                </div>
+              </div>
+            </td>
+            <td className="px-6 py-4 text-sm text-gray-900">
+              {entry.product_variants?.sku ?? entry.products.sku}
+            </td>
+            <td className="px-6 py-4">
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                +{entry.quantity}
+              </span>
+            </td>
+            <td className="px-6 py-4 text-sm text-gray-900">
+              <div className="flex items-center">
+                <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                {format(new Date(entry.date), 'MMM dd, yyyy')}
+              </div>
+            </td>
+            <td className="px-6 py-4 text-sm">
+              <button
+                onClick={() => setLabelItems([{ productId: entry.product_id, variantId: entry.variant_id, quantity: entry.quantity }])}
+                className="text-gray-600 hover:text-gray-800"
+                title="Print one label per unit received"
+              >
+                <Printer className="h-4 w-4" />
+              </button>
+            </td>
+          </tr>
+        )}
+        empty={
           <div className="text-center py-12">
             <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No stock entries yet</h3>
-            <p className="text-gray-600">Start by adding your first stock entry</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {entryCount === 0 ? 'No stock entries yet' : 'No matching stock entries'}
+            </h3>
+            <p className="text-gray-600">
+              {entryCount === 0 ? 'Start by adding your first stock entry' : 'Try a different search or widening the date range'}
+            </p>
           </div>
-        )}
-      </div>
+        }
+      />
+
+      {labelItems && (
+        <LabelPrintModal
+          initialItems={labelItems}
+          onClose={() => setLabelItems(null)}
+        />
+      )}
 
       {/* Add Stock Entry Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg max-w-md w-full p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
               Add Stock Entry
             </h2>
+            <p className="flex items-center gap-1 text-sm text-gray-500 mb-4">
+              <ScanLine className="h-4 w-4" />
+              Scan a barcode to fill in the product
+            </p>
 
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div>
@@ -237,7 +381,11 @@ const StockEntries: React.FC = () => {
                   Product
                 </label>
                 <select
-                  {...register('product_id', { required: 'Please select a product' })}
+                  {...register('product_id', {
+                    required: 'Please select a product',
+                    // Switching product clears a variant picked for the previous one
+                    onChange: () => setValue('variant_id', '')
+                  })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">Select a product</option>
@@ -252,6 +400,25 @@ const StockEntries: React.FC = () => {
                 )}
               </div>
 
+              {productVariants.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Variant
+                  </label>
+                  <select
+                    {...register('variant_id')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a size, colour or fit</option>
+                    {productVariants.map((variant) => (
+                      <option key={variant.id} value={variant.id}>
+                        {formatVariantLabel(variant)} ({variant.sku}) - Current: {variant.quantity}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Quantity to Add
@@ -305,6 +472,8 @@ const StockEntries: React.FC = () => {
           </div>
         </div>
       )}
+
+      <ScanNotice notice={scanNotice} onDismiss={clearScanNotice} />
     </div>
   )
 }
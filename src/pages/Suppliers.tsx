@@ -0,0 +1,480 @@
+import React, { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { format } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { Supplier, SupplierBalance } from '../lib/purchasing'
+import { Plus, Edit, Trash2, Truck, Banknote } from 'lucide-react'
+
+interface SupplierForm {
+  name: string
+  contact_name: string
+  phone: string
+  email: string
+  notes: string
+}
+
+interface PaymentForm {
+  amount: number
+  paid_on: string
+  reference: string
+}
+
+const EMPTY_BALANCE: Omit<SupplierBalance, 'supplier_id'> = {
+  open_orders: 0,
+  outstanding_value: 0,
+  received_value: 0,
+  paid: 0,
+  balance: 0
+}
+
+const Suppliers: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [balances, setBalances] = useState<Record<string, SupplierBalance>>({})
+  const [showModal, setShowModal] = useState(false)
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [payingSupplier, setPayingSupplier] = useState<Supplier | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<SupplierForm>()
+  const {
+    register: registerPayment,
+    handleSubmit: handlePaymentSubmit,
+    reset: resetPayment,
+    formState: { errors: paymentErrors }
+  } = useForm<PaymentForm>()
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [suppliersResponse, balancesResponse] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('supplier_balances').select('*')
+      ])
+
+      if (suppliersResponse.error) throw suppliersResponse.error
+      if (balancesResponse.error) throw balancesResponse.error
+
+      setSuppliers(suppliersResponse.data || [])
+      setBalances(Object.fromEntries((balancesResponse.data || []).map(balance => [balance.supplier_id, balance])))
+    } catch (error) {
+      console.error('Error fetching suppliers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getBalance = (supplierId: string) => balances[supplierId] ?? { supplier_id: supplierId, ...EMPTY_BALANCE }
+
+  const onSubmit = async (data: SupplierForm) => {
+    const supplier = {
+      name: data.name.trim(),
+      contact_name: data.contact_name.trim(),
+      phone: data.phone.trim(),
+      email: data.email.trim(),
+      notes: data.notes.trim()
+    }
+
+    try {
+      if (editingSupplier) {
+        const { error } = await supabase
+          .from('suppliers')
+          .update(supplier)
+          .eq('id', editingSupplier.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('suppliers')
+          .insert([supplier])
+
+        if (error) throw error
+      }
+
+      await fetchData()
+      handleCloseModal()
+    } catch (error) {
+      console.error('Error saving supplier:', error)
+      alert(`Error saving supplier: ${(error as Error).message}`)
+    }
+  }
+
+  const onPaymentSubmit = async (data: PaymentForm) => {
+    if (!payingSupplier) return
+
+    try {
+      const { error } = await supabase
+        .from('supplier_payments')
+        .insert([{
+          supplier_id: payingSupplier.id,
+          amount: data.amount,
+          paid_on: data.paid_on,
+          reference: data.reference.trim()
+        }])
+
+      if (error) throw error
+
+      await fetchData()
+      handleClosePayment()
+    } catch (error) {
+      console.error('Error recording payment:', error)
+      alert(`Error recording payment: ${(error as Error).message}`)
+    }
+  }
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier)
+    reset({
+      name: supplier.name,
+      contact_name: supplier.contact_name,
+      phone: supplier.phone,
+      email: supplier.email,
+      notes: supplier.notes
+    })
+    setShowModal(true)
+  }
+
+  const handlePay = (supplier: Supplier) => {
+    setPayingSupplier(supplier)
+    resetPayment({
+      amount: Math.max(getBalance(supplier.id).balance, 0) || undefined,
+      paid_on: format(new Date(), 'yyyy-MM-dd'),
+      reference: ''
+    })
+  }
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Delete ${supplier.name}?`)) return
+
+    try {
+      const { error } = await supabase
+        .from('suppliers')
+        .delete()
+        .eq('id', supplier.id)
+
+      // Orders and payments keep their supplier
+      if (error?.code === '23503') {
+        alert(`${supplier.name} has purchase orders or payments, so it cannot be deleted.`)
+        return
+      }
+      if (error) throw error
+
+      await fetchData()
+    } catch (error) {
+      console.error('Error deleting supplier:', error)
+      alert('Error deleting supplier')
+    }
+  }
+
+  const handleCloseModal = () => {
+    setShowModal(false)
+    setEditingSupplier(null)
+    reset({ name: '', contact_name: '', phone: '', email: '', notes: '' })
+  }
+
+  const handleClosePayment = () => {
+    setPayingSupplier(null)
+    resetPayment()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const totalOutstanding = suppliers.reduce((sum, supplier) => sum + getBalance(supplier.id).outstanding_value, 0)
+  const totalOwed = suppliers.reduce((sum, supplier) => sum + Math.max(getBalance(supplier.id).balance, 0), 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Suppliers</h1>
+          <p className="text-gray-600">Who you buy from, what is on order and what you owe them</p>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Add Supplier
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <p className="text-sm font-medium text-gray-600">Still on Order</p>
+          <p className="text-2xl font-bold text-blue-600">KES {totalOutstanding.toLocaleString()}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <p className="text-sm font-medium text-gray-600">Owed to Suppliers</p>
+          <p className="text-2xl font-bold text-red-600">KES {totalOwed.toLocaleString()}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Open Orders
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Paid
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Owed
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {suppliers.map((supplier) => {
+                const balance = getBalance(supplier.id)
+
+                return (
+                  <tr key={supplier.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{supplier.name}</div>
+                      {supplier.notes && <div className="text-xs text-gray-500">{supplier.notes}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div>{supplier.contact_name}</div>
+                      <div className="text-xs text-gray-500">
+                        {[supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {balance.open_orders > 0
+                        ? `${balance.open_orders} · KES ${balance.outstanding_value.toLocaleString()}`
+                        : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      KES {balance.paid.toLocaleString()}
+                    </td>
+                    <td className={`px-6 py-4 text-sm font-medium ${balance.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      KES {balance.balance.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handlePay(supplier)}
+                          className="text-green-600 hover:text-green-800"
+                          title="Record payment"
+                        >
+                          <Banknote className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleEdit(supplier)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(supplier)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {suppliers.length === 0 && (
+          <div className="text-center py-12">
+            <Truck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No suppliers yet</h3>
+            <p className="text-gray-600">Add the suppliers you order stock from</p>
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Supplier Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingSupplier ? 'Edit Supplier' : 'Add New Supplier'}
+            </h2>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  {...register('name', { required: 'Supplier name is required' })}
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="e.g. Nairobi Textiles Ltd"
+                />
+                {errors.name && (
+                  <p className="text-sm text-red-600 mt-1">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Contact Person
+                </label>
+                <input
+                  {...register('contact_name')}
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone
+                  </label>
+                  <input
+                    {...register('phone')}
+                    type="tel"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    {...register('email')}
+                    type="email"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  {...register('notes')}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="e.g. Payment terms, delivery days"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  {editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Record Payment Modal */}
+      {payingSupplier && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">
+              Pay {payingSupplier.name}
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Owed: KES {getBalance(payingSupplier.id).balance.toLocaleString()}
+            </p>
+
+            <form onSubmit={handlePaymentSubmit(onPaymentSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount (KES)
+                  </label>
+                  <input
+                    {...registerPayment('amount', {
+                      required: 'Amount is required',
+                      valueAsNumber: true,
+                      min: { value: 0.01, message: 'Amount must be positive' }
+                    })}
+                    type="number"
+                    step="0.01"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="0.00"
+                  />
+                  {paymentErrors.amount && (
+                    <p className="text-sm text-red-600 mt-1">{paymentErrors.amount.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Paid On
+                  </label>
+                  <input
+                    {...registerPayment('paid_on', { required: 'Date is required' })}
+                    type="date"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reference
+                </label>
+                <input
+                  {...registerPayment('reference')}
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="e.g. M-Pesa code or cheque number"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Record Payment
+                </button>
+                <button
+                  type="button"
+                  onClick={handleClosePayment}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Suppliers
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react'
+import { Link, Navigate, useNavigate } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { callAuthHelpers, getTillToken } from '../lib/supabase'
+import { Lock, User, Delete, ArrowLeft } from 'lucide-react'
+
+interface TillUser {
+  id: string
+  username: string
+}
+
+const PIN_MAX_LENGTH = 6
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9']
+
+const TillLock: React.FC = () => {
+  const { user, tillMode, pinLogin, closeTill, businessName } = useAuth()
+  const navigate = useNavigate()
+  const [staff, setStaff] = useState<TillUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedUser, setSelectedUser] = useState<TillUser | null>(null)
+  const [pin, setPin] = useState('')
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      if (!getTillToken()) return
+
+      try {
+        const result = await callAuthHelpers('till_users', { till_token: getTillToken() })
+
+        if (!result.success) {
+          // The till token expired; someone has to sign in with a password again
+          closeTill()
+          navigate('/login', { replace: true })
+          return
+        }
+
+        setStaff(result.users || [])
+      } catch (error) {
+        console.error('Error fetching till users:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchStaff()
+  }, [closeTill, navigate])
+
+  if (user) {
+    return <Navigate to="/" replace />
+  }
+
+  if (!tillMode) {
+    return <Navigate to="/login" replace />
+  }
+
+  const handleSelect = (staffUser: TillUser) => {
+    setSelectedUser(staffUser)
+    setPin('')
+    setError('')
+  }
+
+  const handleDigit = (digit: string) => {
+    setError('')
+    setPin(current => current.length < PIN_MAX_LENGTH ? current + digit : current)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedUser || pin.length < 4) return
+
+    setIsSubmitting(true)
+
+    try {
+      await pinLogin(selectedUser.id, pin)
+      navigate('/sales', { replace: true })
+    } catch (error) {
+      console.error('PIN login error:', error)
+      setError((error as Error).message)
+      setPin('')
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-2xl w-full bg-white rounded-xl shadow-lg p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+            <Lock className="h-8 w-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">{businessName}</h1>
+          <p className="text-gray-600 mt-2">
+            {selectedUser ? `Enter the PIN for ${selectedUser.username}` : 'Tap your name to start'}
+          </p>
+        </div>
+
+        {!selectedUser ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {staff.map((staffUser) => (
+                <button
+                  key={staffUser.id}
+                  onClick={() => handleSelect(staffUser)}
+                  className="flex flex-col items-center gap-2 p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors"
+                >
+                  <User className="h-8 w-8 text-gray-400" />
+                  <span className="text-sm font-medium text-gray-900">{staffUser.username}</span>
+                </button>
+              ))}
+            </div>
+
+            {staff.length === 0 && (
+              <p className="text-center text-sm text-gray-600">
+                Nobody has set a PIN yet. Staff can set one from My Account.
+              </p>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="max-w-xs mx-auto space-y-4">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, PIN_MAX_LENGTH))}
+              className="w-full px-3 py-3 text-center text-2xl tracking-widest border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="••••"
+            />
+
+            {error && (
+              <div className="p-3 rounded-md bg-red-50 border border-red-200">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              {KEYPAD.map((digit) => (
+                <button
+                  key={digit}
+                  type="button"
+                  onClick={() => handleDigit(digit)}
+                  className="py-4 text-xl font-medium text-gray-900 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  {digit}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setSelectedUser(null)}
+                className="flex items-center justify-center py-4 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                title="Back"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDigit('0')}
+                className="py-4 text-xl font-medium text-gray-900 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                0
+              </button>
+              <button
+                type="button"
+                onClick={() => setPin(current => current.slice(0, -1))}
+                className="flex items-center justify-center py-4 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                title="Delete"
+              >
+                <Delete className="h-5 w-5" />
+              </button>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || pin.length < 4}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Unlock
+            </button>
+          </form>
+        )}
+
+        <div className="text-center mt-8">
+          <Link to="/login" className="text-sm text-blue-600 hover:text-blue-800">
+            Sign in with a password instead
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TillLock
@@ -1,25 +1,52 @@
 import React, { useEffect, useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { supabase, callAuthHelpers } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
 import { useForm } from 'react-hook-form'
-import { Plus, User, Trash2, Shield, Key } from 'lucide-react'
+import { format } from 'date-fns'
+import { ExportColumn } from '../lib/export'
+import ExportMenu from '../components/ExportMenu'
+import { Plus, User, Edit, Shield, ShieldCheck, ShieldOff, Key, Lock, LockOpen, Monitor, UserX, UserCheck } from 'lucide-react'
 
 interface User {
   id: string
   username: string
-  role: 'super_admin' | 'admin' | 'sales_staff'
+  role: string
+  is_active: boolean
+  locked_at: string | null
+  totp_enabled_at: string | null
   created_at: string
 }
 
+interface Session {
+  id: string
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  last_seen_at: string
+  expires_at: string
+}
+
+interface Role {
+  key: string
+  name: string
+}
+
 interface UserForm {
   username: string
   password: string
-  role: 'super_admin' | 'admin' | 'sales_staff'
+  role: string
 }
 
 const Users: React.FC = () => {
+  const { user: currentUser } = useAuth()
   const [users, setUsers] = useState<User[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
+  const [editingUser, setEditingUser] = useState<User | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null)
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string, password: string } | null>(null)
 
   const { register, handleSubmit, reset, formState: { errors } } = useForm<UserForm>()
 
@@ -29,13 +56,19 @@ const Users: React.FC = () => {
 
   const fetchUsers = async () => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, username, role, created_at')
-        .order('created_at', { ascending: false })
+      const [usersResponse, rolesResponse] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, username, role, is_active, locked_at, totp_enabled_at, created_at')
+          .order('created_at', { ascending: false }),
+        supabase.from('roles').select('key, name').order('name')
+      ])
 
-      if (error) throw error
-      setUsers(data || [])
+      if (usersResponse.error) throw usersResponse.error
+      if (rolesResponse.error) throw rolesResponse.error
+
+      setUsers(usersResponse.data || [])
+      setRoles(rolesResponse.data || [])
     } catch (error) {
       console.error('Error fetching users:', error)
     } finally {
@@ -45,52 +78,152 @@ const Users: React.FC = () => {
 
   const onSubmit = async (data: UserForm) => {
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/auth-helpers`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          action: 'create_user',
+      const result = editingUser
+        ? await callAuthHelpers('update_user', {
+          user_id: editingUser.id,
+          username: data.username,
+          role: data.role
+        })
+        : await callAuthHelpers('create_user', {
           username: data.username,
           password: data.password,
           role: data.role
         })
-      })
-
-      const result = await response.json()
       
       if (!result.success) {
-        throw new Error(result.error || 'Failed to create user')
+        throw new Error(result.error || 'Failed to save user')
       }
 
       await fetchUsers()
       handleCloseModal()
     } catch (error) {
-      console.error('Error creating user:', error)
-      alert(`Error creating user: ${error.message}`)
+      console.error('Error saving user:', error)
+      alert(`Error saving user: ${(error as Error).message}`)
+    }
+  }
+
+  const handleEdit = (user: User) => {
+    setEditingUser(user)
+    reset({
+      username: user.username,
+      role: user.role,
+    })
+    setShowModal(true)
+  }
+
+  // Users are never deleted so their sales stay attributed to them
+  const handleToggleActive = async (user: User) => {
+    if (user.is_active && !confirm(`Deactivate ${user.username}? They will be signed out and unable to sign in.`)) return
+
+    try {
+      const result = await callAuthHelpers('update_user', {
+        user_id: user.id,
+        is_active: !user.is_active
+      })
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update user')
+      }
+
+      await fetchUsers()
+    } catch (error) {
+      console.error('Error updating user:', error)
+      alert(`Error updating user: ${(error as Error).message}`)
     }
   }
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this user?')) return
+  const handleResetPassword = async (user: User) => {
+    if (!confirm(`Reset the password for ${user.username}? They will have to choose a new one at next login.`)) return
 
     try {
-      const { error } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', id)
+      const result = await callAuthHelpers('reset_password', { user_id: user.id })
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reset password')
+      }
+
+      setTemporaryPassword({ username: result.username, password: result.temporary_password })
+    } catch (error) {
+      console.error('Error resetting password:', error)
+      alert(`Error resetting password: ${(error as Error).message}`)
+    }
+  }
+
+  const handleUnlock = async (user: User) => {
+    try {
+      const result = await callAuthHelpers('unlock_user', { user_id: user.id })
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to unlock user')
+      }
+
+      await fetchUsers()
+    } catch (error) {
+      console.error('Error unlocking user:', error)
+      alert(`Error unlocking user: ${(error as Error).message}`)
+    }
+  }
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(`Turn off two-factor sign-in for ${user.username}? Use this when they have lost their phone and recovery codes.`)) return
+
+    try {
+      const result = await callAuthHelpers('reset_two_factor', { user_id: user.id })
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reset two-factor sign-in')
+      }
 
-      if (error) throw error
       await fetchUsers()
     } catch (error) {
-      console.error('Error deleting user:', error)
+      console.error('Error resetting two-factor sign-in:', error)
+      alert(`Error resetting two-factor sign-in: ${(error as Error).message}`)
+    }
+  }
+
+  const fetchSessions = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('id, ip_address, user_agent, created_at, last_seen_at, expires_at')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('last_seen_at', { ascending: false })
+
+      if (error) throw error
+      setSessions(data || [])
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+    }
+  }
+
+  const handleShowSessions = async (user: User) => {
+    setSessionsUser(user)
+    setSessions([])
+    await fetchSessions(user.id)
+  }
+
+  const handleRevokeSessions = async (target: { session_id: string } | { user_id: string }) => {
+    if (!sessionsUser) return
+
+    try {
+      const result = await callAuthHelpers('revoke_sessions', target)
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke session')
+      }
+
+      await fetchSessions(sessionsUser.id)
+    } catch (error) {
+      console.error('Error revoking sessions:', error)
+      alert(`Error revoking sessions: ${(error as Error).message}`)
     }
   }
 
   const handleCloseModal = () => {
     setShowModal(false)
+    setEditingUser(null)
     reset()
   }
 
@@ -112,6 +245,19 @@ const Users: React.FC = () => {
     }
   }
 
+  const getRoleName = (role: string) =>
+    roles.find(r => r.key === role)?.name ?? role
+
+  const lockedUsers = users.filter(user => user.locked_at)
+
+  const exportColumns: ExportColumn<User>[] = [
+    { header: 'Username', value: (user) => user.username },
+    { header: 'Role', value: (user) => getRoleName(user.role) },
+    { header: 'Status', value: (user) => !user.is_active ? 'Deactivated' : user.locked_at ? 'Locked' : 'Active' },
+    { header: 'Two-Factor', value: (user) => user.totp_enabled_at ? 'On' : 'Off' },
+    { header: 'Created', value: (user) => format(new Date(user.created_at), 'yyyy-MM-dd') },
+  ]
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -127,15 +273,28 @@ const Users: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Users</h1>
           <p className="text-gray-600">Manage user accounts and permissions</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          Add User
-        </button>
+        <div className="flex items-center gap-2">
+          <ExportMenu title="Users" fileName="users" columns={exportColumns} rows={users} />
+          <button
+            onClick={() => setShowModal(true)}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Add User
+          </button>
+        </div>
       </div>
 
+      {lockedUsers.length > 0 && (
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-red-50 border border-red-200">
+          <Lock className="h-5 w-5 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-800">
+            {lockedUsers.length === 1 ? '1 account is' : `${lockedUsers.length} accounts are`} locked after
+            too many failed sign-in attempts: {lockedUsers.map(user => user.username).join(', ')}
+          </p>
+        </div>
+      )}
+
       {/* Users Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
         <div className="overflow-x-auto">
@@ -158,7 +317,7 @@ const Users: React.FC = () => {
             </thead>
             <tbody className="divide-y divide-gray-200">
               {users.map((user) => (
-                <tr key={user.id} className="hover:bg-gray-50">
+                <tr key={user.id} className={`hover:bg-gray-50 ${user.is_active ? '' : 'opacity-60'}`}>
                   <td className="px-6 py-4">
                     <div className="flex items-center">
                       <User className="h-8 w-8 text-gray-400 mr-3" />
@@ -166,26 +325,83 @@ const Users: React.FC = () => {
                         <div className="text-sm font-medium text-gray-900">
                           {user.username}
                         </div>
+                        {!user.is_active && (
+                          <div className="text-xs text-gray-500">Deactivated</div>
+                        )}
+                        {user.totp_enabled_at && (
+                          <div className="inline-flex items-center gap-1 text-xs text-green-600">
+                            <ShieldCheck className="h-3 w-3" />
+                            Two-factor on
+                          </div>
+                        )}
+                        {user.locked_at && (
+                          <div className="inline-flex items-center gap-1 text-xs text-red-600">
+                            <Lock className="h-3 w-3" />
+                            Locked {new Date(user.locked_at).toLocaleString()}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
                   <td className="px-6 py-4">
                     <span className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleColor(user.role)}`}>
                       {getRoleIcon(user.role)}
-                      {user.role.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                      {getRoleName(user.role)}
                     </span>
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-900">
                     {new Date(user.created_at).toLocaleDateString()}
                   </td>
                   <td className="px-6 py-4 text-sm">
-                    <button
-                      onClick={() => handleDelete(user.id)}
-                      className="text-red-600 hover:text-red-800"
-                      disabled={user.role === 'super_admin'}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {user.locked_at && (
+                        <button
+                          onClick={() => handleUnlock(user)}
+                          className="text-green-600 hover:text-green-800"
+                          title="Unlock account"
+                        >
+                          <LockOpen className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleEdit(user)}
+                        className="text-blue-600 hover:text-blue-800"
+                        title="Edit user"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleShowSessions(user)}
+                        className="text-gray-600 hover:text-gray-800"
+                        title="Active sessions"
+                      >
+                        <Monitor className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleResetPassword(user)}
+                        className="text-blue-600 hover:text-blue-800"
+                        title="Reset password"
+                      >
+                        <Key className="h-4 w-4" />
+                      </button>
+                      {user.totp_enabled_at && (
+                        <button
+                          onClick={() => handleResetTwoFactor(user)}
+                          className="text-orange-600 hover:text-orange-800"
+                          title="Reset two-factor sign-in"
+                        >
+                          <ShieldOff className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleToggleActive(user)}
+                        className={user.is_active ? 'text-red-600 hover:text-red-800 disabled:opacity-30' : 'text-green-600 hover:text-green-800'}
+                        disabled={user.id === currentUser?.id}
+                        title={user.is_active ? 'Deactivate user' : 'Reactivate user'}
+                      >
+                        {user.is_active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                      </button>
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -202,12 +418,95 @@ const Users: React.FC = () => {
         )}
       </div>
 
-      {/* Add User Modal */}
+      {/* Active Sessions Modal */}
+      {sessionsUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-2xl w-full p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Active Sessions for {sessionsUser.username}
+            </h2>
+
+            {sessions.length === 0 ? (
+              <p className="text-sm text-gray-600 py-6 text-center">No active sessions</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mb-4">
+                {sessions.map((session) => (
+                  <li key={session.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {session.ip_address || 'Unknown address'}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate max-w-md">
+                        {session.user_agent || 'Unknown device'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Signed in {new Date(session.created_at).toLocaleString()} · Last seen {new Date(session.last_seen_at).toLocaleString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevokeSessions({ session_id: session.id })}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-3 pt-4">
+              {sessions.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => handleRevokeSessions({ user_id: sessionsUser.id })}
+                  className="flex-1 bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 transition-colors"
+                >
+                  Sign Out Everywhere
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setSessionsUser(null)}
+                className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Temporary Password Modal */}
+      {temporaryPassword && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Temporary Password
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Give this password to <span className="font-medium">{temporaryPassword.username}</span>.
+              It will not be shown again, and they must change it when they next sign in.
+            </p>
+            <div className="px-3 py-2 mb-4 rounded-md bg-gray-100 font-mono text-lg text-center text-gray-900 select-all">
+              {temporaryPassword.password}
+            </div>
+            <button
+              type="button"
+              onClick={() => setTemporaryPassword(null)}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit User Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg max-w-md w-full p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
-              Add New User
+              {editingUser ? 'Edit User' : 'Add New User'}
             </h2>
 
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
@@ -226,23 +525,25 @@ const Users: React.FC = () => {
                 )}
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Password
-                </label>
-                <input
-                  {...register('password', { 
-                    required: 'Password is required',
-                    minLength: { value: 6, message: 'Password must be at least 6 characters' }
-                  })}
-                  type="password"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter password"
-                />
-                {errors.password && (
-                  <p className="text-sm text-red-600 mt-1">{errors.password.message}</p>
-                )}
-              </div>
+              {!editingUser && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Password
+                  </label>
+                  <input
+                    {...register('password', { 
+                      required: 'Password is required',
+                      minLength: { value: 6, message: 'Password must be at least 6 characters' }
+                    })}
+                    type="password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter password"
+                  />
+                  {errors.password && (
+                    <p className="text-sm text-red-600 mt-1">{errors.password.message}</p>
+                  )}
+                </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -253,9 +554,11 @@ const Users: React.FC = () => {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">Select a role</option>
-                  <option value="admin">Admin</option>
-                  <option value="sales_staff">Sales Staff</option>
-                  <option value="super_admin">Super Admin</option>
+                  {roles.map((role) => (
+                    <option key={role.key} value={role.key}>
+                      {role.name}
+                    </option>
+                  ))}
                 </select>
                 {errors.role && (
                   <p className="text-sm text-red-600 mt-1">{errors.role.message}</p>
@@ -267,7 +570,7 @@ const Users: React.FC = () => {
                   type="submit"
                   className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
                 >
-                  Create User
+                  {editingUser ? 'Update User' : 'Create User'}
                 </button>
                 <button
                   type="button"
@@ -1,6 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://deno.land/x/supabase@1.0.0/mod.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.5"
 import * as bcrypt from "https://deno.land/x/bcrypt@v0.4.1/mod.ts"
+import {
+  getBearerToken,
+  issueChallengeToken,
+  issueSessionToken,
+  issueTillToken,
+  verifyChallengeToken,
+  verifySessionToken,
+  verifyTillToken,
+  SessionUser
+} from "./session.ts"
+import { buildOtpAuthUrl, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotp } from "./totp.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +22,7 @@ const corsHeaders = {
 interface CreateUserRequest {
   username: string
   password: string
-  role: 'super_admin' | 'admin' | 'sales_staff'
+  role: string
 }
 
 interface LoginRequest {
@@ -19,22 +30,380 @@ interface LoginRequest {
   password: string
 }
 
+interface ChangePasswordRequest {
+  current_password: string
+  new_password: string
+}
+
+interface ResetPasswordRequest {
+  user_id: string
+}
+
+interface RevokeSessionsRequest {
+  session_id?: string
+  user_id?: string
+}
+
+interface UpdateUserRequest {
+  user_id: string
+  username?: string
+  role?: string
+  is_active?: boolean
+}
+
+interface UnlockUserRequest {
+  user_id: string
+}
+
+interface SetPinRequest {
+  current_password: string
+  pin: string | null
+}
+
+interface TillRequest {
+  till_token: string
+}
+
+interface PinLoginRequest extends TillRequest {
+  user_id: string
+  pin: string
+}
+
+interface VerifyTwoFactorRequest {
+  challenge_token: string
+  code: string
+}
+
+interface EnableTwoFactorRequest {
+  code: string
+}
+
+interface DisableTwoFactorRequest {
+  current_password: string
+}
+
+interface ResetTwoFactorRequest {
+  user_id: string
+}
+
+interface CompleteSetupRequest {
+  username: string
+  password: string
+  business_name: string
+}
+
+const MIN_PASSWORD_LENGTH = 6
+const PIN_PATTERN = /^\d{4,6}$/
+const IP_THROTTLE_WINDOW_MS = 15 * 60 * 1000
+
+let dummyHash: string | null = null
+
+// Compared against when the username does not exist, to keep timing uniform
+const getDummyHash = async (): Promise<string> => {
+  if (!dummyHash) {
+    dummyHash = await bcrypt.hash(crypto.randomUUID())
+  }
+  return dummyHash
+}
+
+const getClientIp = (req: Request): string => {
+  return req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? 'unknown'
+}
+
+const getNumericSetting = async (
+  supabase: ReturnType<typeof createClient>,
+  key: string,
+  fallback: number
+): Promise<number> => {
+  const { data } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle()
+
+  const value = Number(data?.value)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+const isIpThrottled = async (supabase: ReturnType<typeof createClient>, ipAddress: string): Promise<boolean> => {
+  const maxFailedLoginsPerIp = await getNumericSetting(supabase, 'max_failed_logins_per_ip', 20)
+
+  const { count: recentIpFailures } = await supabase
+    .from('login_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('ip_address', ipAddress)
+    .eq('succeeded', false)
+    .gte('attempted_at', new Date(Date.now() - IP_THROTTLE_WINDOW_MS).toISOString())
+
+  return (recentIpFailures ?? 0) >= maxFailedLoginsPerIp
+}
+
+// Password and PIN failures share one counter, so a PIN cannot be guessed
+// more times than a password could
+const recordFailedAttempt = async (
+  supabase: ReturnType<typeof createClient>,
+  user: { id: string, failed_login_attempts: number }
+) => {
+  const maxFailedLogins = await getNumericSetting(supabase, 'max_failed_logins', 5)
+  const failedAttempts = user.failed_login_attempts + 1
+
+  await supabase
+    .from('users')
+    .update({
+      failed_login_attempts: failedAttempts,
+      locked_at: failedAttempts >= maxFailedLogins ? new Date().toISOString() : null
+    })
+    .eq('id', user.id)
+}
+
+const isValidPassword = (password: string | undefined): password is string => {
+  return !!password && password.length >= MIN_PASSWORD_LENGTH
+}
+
+const generateTemporaryPassword = (): string => {
+  // No 0/O or 1/l/I so the password survives being read aloud or copied by hand
+  const alphabet = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+  const bytes = crypto.getRandomValues(new Uint8Array(10))
+  return Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join('')
+}
+
+interface ActiveSession {
+  id: string
+  user_id: string
+  expires_at: string
+  last_seen_at: string
+}
+
+// Resolves the live session behind the caller's token, or null once it has
+// been revoked, passed its absolute lifetime or sat idle too long.
+const getActiveSession = async (req: Request, supabase: ReturnType<typeof createClient>): Promise<ActiveSession | null> => {
+  const token = getBearerToken(req)
+  if (!token) return null
+
+  const claims = await verifySessionToken(token)
+  if (!claims) return null
+
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('id, user_id, expires_at, last_seen_at, revoked_at')
+    .eq('id', claims.sid)
+    .eq('user_id', claims.sub)
+    .maybeSingle()
+
+  if (!session || session.revoked_at) return null
+
+  const idleMinutes = await getNumericSetting(supabase, 'session_idle_minutes', 30)
+  const now = Date.now()
+
+  if (new Date(session.expires_at).getTime() <= now ||
+      new Date(session.last_seen_at).getTime() + idleMinutes * 60 * 1000 <= now) {
+    return null
+  }
+
+  return session
+}
+
+const getRolePermissions = async (supabase: ReturnType<typeof createClient>, role: string): Promise<string[]> => {
+  const { data } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', role)
+
+  return (data ?? []).map((row: { permission: string }) => row.permission)
+}
+
+const can = (user: SessionUser | null, permission: string): boolean => {
+  return !!user?.permissions?.includes(permission)
+}
+
+// The role and its permissions are always re-read from the database so a
+// stale or tampered claim never grants more than the row does. Until a
+// temporary password is replaced, and two-factor set up where the role
+// requires it, the session carries no permissions, matching
+// is_session_active() on the database side.
+const loadSessionUser = async (supabase: ReturnType<typeof createClient>, userId: string): Promise<SessionUser | null> => {
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, username, role, must_change_password, totp_enabled_at, roles(requires_two_factor)')
+    .eq('id', userId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (!user) return null
+
+  const mustEnrollTwoFactor = !user.totp_enabled_at && !!user.roles?.requires_two_factor
+
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    permissions: user.must_change_password || mustEnrollTwoFactor ? [] : await getRolePermissions(supabase, user.role),
+    must_change_password: user.must_change_password,
+    two_factor_enabled: !!user.totp_enabled_at,
+    must_enroll_two_factor: mustEnrollTwoFactor
+  }
+}
+
+const roleRequiresTwoFactor = async (supabase: ReturnType<typeof createClient>, role: string): Promise<boolean> => {
+  const { data } = await supabase
+    .from('roles')
+    .select('requires_two_factor')
+    .eq('key', role)
+    .maybeSingle()
+
+  return !!data?.requires_two_factor
+}
+
+const getSessionUser = async (req: Request, supabase: ReturnType<typeof createClient>): Promise<SessionUser | null> => {
+  const session = await getActiveSession(req, supabase)
+  return session ? await loadSessionUser(supabase, session.user_id) : null
+}
+
+const startSession = async (req: Request, supabase: ReturnType<typeof createClient>, user: SessionUser): Promise<string> => {
+  const lifetimeHours = await getNumericSetting(supabase, 'session_lifetime_hours', 12)
+  const expiresAt = new Date(Date.now() + lifetimeHours * 60 * 60 * 1000)
+
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .insert([{
+      user_id: user.id,
+      ip_address: getClientIp(req),
+      user_agent: req.headers.get('user-agent'),
+      expires_at: expiresAt.toISOString()
+    }])
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  return await issueSessionToken(user, session.id, expiresAt)
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
+    // Writes made for a signed-in caller are attributed to them in audit_log;
+    // the trigger only trusts this header on service-role requests
+    const claims = await verifySessionToken(getBearerToken(req) ?? '')
+
     const supabase = createClient(
       Deno.env.get('PUBLIC_SUPABASE_URL') ?? '',
-      Deno.env.get('SERVICE_ROLE_KEY') ?? ''
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      claims ? { global: { headers: { 'x-actor-id': claims.sub } } } : {}
     )
 
     const { action, ...data } = await req.json()
 
+    if (action === 'session') {
+      const session = await getActiveSession(req, supabase)
+      const user = session && await loadSessionUser(supabase, session.user_id)
+
+      if (!session || !user) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Doubles as the client heartbeat, which is only sent while the user is active
+      await supabase
+        .from('sessions')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('id', session.id)
+
+      return new Response(JSON.stringify({
+        success: true,
+        user,
+        session: {
+          expires_at: session.expires_at,
+          idle_timeout_minutes: await getNumericSetting(supabase, 'session_idle_minutes', 30)
+        }
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'logout') {
+      const session = await getActiveSession(req, supabase)
+
+      if (session) {
+        await supabase
+          .from('sessions')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', session.id)
+      }
+
+      return new Response(JSON.stringify({
+        success: true
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'revoke_sessions') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!can(caller, 'users.manage')) {
+        return new Response(JSON.stringify({ error: 'Not authorized' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { session_id, user_id } = data as RevokeSessionsRequest
+
+      if (!session_id && !user_id) {
+        return new Response(JSON.stringify({ error: 'A session or user is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      let query = supabase
+        .from('sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .is('revoked_at', null)
+
+      query = session_id ? query.eq('id', session_id) : query.eq('user_id', user_id)
+
+      const { error } = await query
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      return new Response(JSON.stringify({
+        success: true
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     if (action === 'create_user') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!can(caller, 'users.manage')) {
+        return new Response(JSON.stringify({ error: 'Not authorized' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
       const { username, password, role } = data as CreateUserRequest
 
+      if (!isValidPassword(password)) {
+        return new Response(JSON.stringify({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
       const hashedPassword = await bcrypt.hash(password)
 
       const { data: user, error } = await supabase
@@ -64,65 +433,243 @@ serve(async (req) => {
 
     if (action === 'login') {
       const { username, password } = data as LoginRequest
+      const ipAddress = getClientIp(req)
 
-      const { data: user, error } = await supabase
+      if (await isIpThrottled(supabase, ipAddress)) {
+        return new Response(JSON.stringify({ error: 'Too many failed attempts. Try again later.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user } = await supabase
         .from('users')
         .select('*')
         .eq('username', username)
         .maybeSingle()
 
-      if (error || !user) {
-        return new Response(JSON.stringify({ error: 'User not found' }), {
+      // Always pay for a bcrypt comparison so response time does not reveal whether the user exists
+      const isMatch = await bcrypt.compare(password ?? '', user?.password ?? await getDummyHash())
+
+      const canSignIn = !!user && isMatch && !user.locked_at && user.is_active
+
+      await supabase
+        .from('login_attempts')
+        .insert([{ username, ip_address: ipAddress, succeeded: canSignIn }])
+
+      if (!canSignIn) {
+        if (user && !isMatch && !user.locked_at) {
+          await recordFailedAttempt(supabase, user)
+        }
+
+        return new Response(JSON.stringify({ error: 'Invalid username or password' }), {
           status: 401,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
-      const isMatch = await bcrypt.compare(password, user.password)
-      if (!isMatch) {
-        return new Response(JSON.stringify({ error: 'Invalid password' }), {
+      // The failure counter is only reset once the second step passes, so a
+      // known password does not buy unlimited guesses at the code
+      if (user.totp_enabled_at) {
+        return new Response(JSON.stringify({
+          success: true,
+          two_factor_required: true,
+          challenge_token: await issueChallengeToken(user.id)
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (user.failed_login_attempts > 0) {
+        await supabase
+          .from('users')
+          .update({ failed_login_attempts: 0 })
+          .eq('id', user.id)
+      }
+
+      const sessionUser = await loadSessionUser(supabase, user.id) as SessionUser
+
+      return new Response(JSON.stringify({
+        success: true,
+        token: await startSession(req, supabase, sessionUser),
+        user: sessionUser
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'change_password') {
+      const session = await getActiveSession(req, supabase)
+      const caller = session ? await loadSessionUser(supabase, session.user_id) : null
+
+      if (!session || !caller) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
           status: 401,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
+      const { current_password, new_password } = data as ChangePasswordRequest
+
+      if (!isValidPassword(new_password)) {
+        return new Response(JSON.stringify({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .select('password')
+        .eq('id', caller.id)
+        .single()
+
+      if (error || !(await bcrypt.compare(current_password ?? '', user.password))) {
+        return new Response(JSON.stringify({ error: 'Current password is incorrect' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { error: updateError } = await supabase
+        .from('users')
+        .update({
+          password: await bcrypt.hash(new_password),
+          must_change_password: false
+        })
+        .eq('id', caller.id)
+
+      if (updateError) {
+        return new Response(JSON.stringify({ error: updateError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // A password changed because it leaked should not leave other signed-in sessions behind
+      await supabase
+        .from('sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('user_id', caller.id)
+        .neq('id', session.id)
+        .is('revoked_at', null)
+
       return new Response(JSON.stringify({
         success: true,
-        user: {
-          id: user.id,
-          username: user.username,
-          role: user.role
-        }
+        user: await loadSessionUser(supabase, caller.id)
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
-    if (action === 'create_default_admin') {
-      const { data: existing } = await supabase
+    if (action === 'verify_two_factor') {
+      const { challenge_token, code } = data as VerifyTwoFactorRequest
+      const challenge = await verifyChallengeToken(challenge_token ?? '')
+
+      if (!challenge) {
+        return new Response(JSON.stringify({ error: 'Sign-in expired. Enter your password again.' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const ipAddress = getClientIp(req)
+
+      if (await isIpThrottled(supabase, ipAddress)) {
+        return new Response(JSON.stringify({ error: 'Too many failed attempts. Try again later.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user } = await supabase
         .from('users')
-        .select('id')
-        .eq('username', 'admin')
+        .select('*')
+        .eq('id', challenge.sub)
         .maybeSingle()
 
-      if (existing) {
-        return new Response(JSON.stringify({
-          success: true,
-          message: 'Admin already exists'
-        }), {
+      if (!user || !user.is_active || user.locked_at || !user.totp_enabled_at) {
+        return new Response(JSON.stringify({ error: 'Invalid code' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const trimmedCode = (code ?? '').trim()
+      const step = await verifyTotp(user.totp_secret, trimmedCode, user.totp_last_used_step)
+
+      // Not a current authenticator code, so try it as a recovery code; the
+      // conditional update makes each recovery code single-use even under races
+      let usedRecoveryCode = false
+      if (step === null && trimmedCode) {
+        const { data: recovered } = await supabase
+          .from('recovery_codes')
+          .update({ used_at: new Date().toISOString() })
+          .eq('user_id', user.id)
+          .eq('code_hash', await hashRecoveryCode(trimmedCode))
+          .is('used_at', null)
+          .select('id')
+
+        usedRecoveryCode = (recovered ?? []).length > 0
+      }
+
+      const isValid = step !== null || usedRecoveryCode
+
+      await supabase
+        .from('login_attempts')
+        .insert([{ username: user.username, ip_address: ipAddress, succeeded: isValid }])
+
+      if (!isValid) {
+        await recordFailedAttempt(supabase, user)
+
+        return new Response(JSON.stringify({ error: 'Invalid code' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('users')
+        .update(step !== null
+          ? { failed_login_attempts: 0, totp_last_used_step: step }
+          : { failed_login_attempts: 0 })
+        .eq('id', user.id)
+
+      const sessionUser = await loadSessionUser(supabase, user.id) as SessionUser
+
+      return new Response(JSON.stringify({
+        success: true,
+        token: await startSession(req, supabase, sessionUser),
+        user: sessionUser
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'two_factor_setup') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!caller) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (caller.two_factor_enabled) {
+        return new Response(JSON.stringify({ error: 'Two-factor sign-in is already enabled' }), {
+          status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
-      const hashedPassword = await bcrypt.hash('admin123')
+      // Stored now but not trusted until two_factor_enable sees a valid code from it
+      const secret = generateTotpSecret()
 
       const { error } = await supabase
         .from('users')
-        .insert([{
-          username: 'admin',
-          password: hashedPassword,
-          role: 'super_admin'
-        }])
+        .update({ totp_secret: secret, totp_last_used_step: null })
+        .eq('id', caller.id)
 
       if (error) {
         return new Response(JSON.stringify({ error: error.message }), {
@@ -131,9 +678,581 @@ serve(async (req) => {
         })
       }
 
+      const { data: businessRow } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', 'business_name')
+        .maybeSingle()
+
+      return new Response(JSON.stringify({
+        success: true,
+        secret,
+        otpauth_url: buildOtpAuthUrl(businessRow?.value ?? 'Inventory', caller.username, secret)
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'two_factor_enable') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!caller) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { code } = data as EnableTwoFactorRequest
+
+      const { data: user } = await supabase
+        .from('users')
+        .select('totp_secret, totp_enabled_at')
+        .eq('id', caller.id)
+        .single()
+
+      if (!user?.totp_secret || user.totp_enabled_at) {
+        return new Response(JSON.stringify({ error: 'Start two-factor setup first' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const step = await verifyTotp(user.totp_secret, (code ?? '').trim(), null)
+
+      if (step === null) {
+        return new Response(JSON.stringify({ error: 'Invalid code. Check the time on your phone and try again.' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const recoveryCodes = generateRecoveryCodes()
+
+      await supabase
+        .from('recovery_codes')
+        .delete()
+        .eq('user_id', caller.id)
+
+      const { error: codesError } = await supabase
+        .from('recovery_codes')
+        .insert(await Promise.all(recoveryCodes.map(async (recoveryCode) => ({
+          user_id: caller.id,
+          code_hash: await hashRecoveryCode(recoveryCode)
+        }))))
+
+      if (codesError) {
+        return new Response(JSON.stringify({ error: codesError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('users')
+        .update({ totp_enabled_at: new Date().toISOString(), totp_last_used_step: step })
+        .eq('id', caller.id)
+
+      return new Response(JSON.stringify({
+        success: true,
+        recovery_codes: recoveryCodes,
+        user: await loadSessionUser(supabase, caller.id)
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'two_factor_disable') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!caller) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (await roleRequiresTwoFactor(supabase, caller.role)) {
+        return new Response(JSON.stringify({ error: 'Your role requires two-factor sign-in' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { current_password } = data as DisableTwoFactorRequest
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .select('password')
+        .eq('id', caller.id)
+        .single()
+
+      if (error || !(await bcrypt.compare(current_password ?? '', user.password))) {
+        return new Response(JSON.stringify({ error: 'Current password is incorrect' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('users')
+        .update({ totp_secret: null, totp_enabled_at: null, totp_last_used_step: null })
+        .eq('id', caller.id)
+
+      await supabase
+        .from('recovery_codes')
+        .delete()
+        .eq('user_id', caller.id)
+
+      return new Response(JSON.stringify({
+        success: true,
+        user: await loadSessionUser(supabase, caller.id)
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'set_pin') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!caller) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { current_password, pin } = data as SetPinRequest
+
+      if (pin !== null && !PIN_PATTERN.test(pin ?? '')) {
+        return new Response(JSON.stringify({ error: 'PIN must be 4 to 6 digits' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .select('password')
+        .eq('id', caller.id)
+        .single()
+
+      if (error || !(await bcrypt.compare(current_password ?? '', user.password))) {
+        return new Response(JSON.stringify({ error: 'Current password is incorrect' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { error: updateError } = await supabase
+        .from('users')
+        .update({ pin_hash: pin === null ? null : await bcrypt.hash(pin) })
+        .eq('id', caller.id)
+
+      if (updateError) {
+        return new Response(JSON.stringify({ error: updateError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      return new Response(JSON.stringify({
+        success: true
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'lock_till') {
+      const session = await getActiveSession(req, supabase)
+
+      if (!session) {
+        return new Response(JSON.stringify({ error: 'Session expired' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Locking ends the current session; the next person signs in with their PIN
+      await supabase
+        .from('sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', session.id)
+
+      const lifetimeHours = await getNumericSetting(supabase, 'session_lifetime_hours', 12)
+
+      return new Response(JSON.stringify({
+        success: true,
+        till_token: await issueTillToken(session.user_id, new Date(Date.now() + lifetimeHours * 60 * 60 * 1000))
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'till_users') {
+      const { till_token } = data as TillRequest
+      const till = await verifyTillToken(till_token ?? '')
+
+      if (!till) {
+        return new Response(JSON.stringify({ error: 'Till is no longer open' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: users, error } = await supabase
+        .from('users')
+        .select('id, username, roles(requires_two_factor)')
+        .eq('is_active', true)
+        .is('locked_at', null)
+        .is('totp_enabled_at', null)
+        .not('pin_hash', 'is', null)
+        .order('username')
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        users: users
+          .filter((user: { roles: { requires_two_factor: boolean } | null }) => !user.roles?.requires_two_factor)
+          .map((user: { id: string, username: string }) => ({ id: user.id, username: user.username }))
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'pin_login') {
+      const { till_token, user_id, pin } = data as PinLoginRequest
+      const till = await verifyTillToken(till_token ?? '')
+
+      if (!till) {
+        return new Response(JSON.stringify({ error: 'Till is no longer open' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const ipAddress = getClientIp(req)
+
+      if (await isIpThrottled(supabase, ipAddress)) {
+        return new Response(JSON.stringify({ error: 'Too many failed attempts. Try again later.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user } = await supabase
+        .from('users')
+        .select('*, roles(requires_two_factor)')
+        .eq('id', user_id)
+        .maybeSingle()
+
+      const isMatch = await bcrypt.compare(pin ?? '', user?.pin_hash ?? await getDummyHash())
+
+      // A PIN would otherwise be a way around the second factor
+      const needsTwoFactor = !!user?.totp_enabled_at || !!user?.roles?.requires_two_factor
+      const canSignIn = !!user && isMatch && !user.locked_at && user.is_active && !needsTwoFactor
+
+      await supabase
+        .from('login_attempts')
+        .insert([{ username: user?.username ?? '', ip_address: ipAddress, succeeded: canSignIn }])
+
+      if (!canSignIn) {
+        if (user?.pin_hash && !isMatch && !user.locked_at) {
+          await recordFailedAttempt(supabase, user)
+        }
+
+        return new Response(JSON.stringify({ error: 'Incorrect PIN' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (user.failed_login_attempts > 0) {
+        await supabase
+          .from('users')
+          .update({ failed_login_attempts: 0 })
+          .eq('id', user.id)
+      }
+
+      const sessionUser = await loadSessionUser(supabase, user.id) as SessionUser
+
+      return new Response(JSON.stringify({
+        success: true,
+        token: await startSession(req, supabase, sessionUser),
+        user: sessionUser
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'reset_password') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!can(caller, 'users.manage')) {
+        return new Response(JSON.stringify({ error: 'Not authorized' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { user_id } = data as ResetPasswordRequest
+      const temporaryPassword = generateTemporaryPassword()
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .update({
+          password: await bcrypt.hash(temporaryPassword),
+          must_change_password: true,
+          pin_hash: null
+        })
+        .eq('id', user_id)
+        .select('username')
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Whoever knew the old password should not stay signed in
+      await supabase
+        .from('sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('user_id', user_id)
+        .is('revoked_at', null)
+
+      return new Response(JSON.stringify({
+        success: true,
+        username: user.username,
+        temporary_password: temporaryPassword
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'update_user') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!can(caller, 'users.manage')) {
+        return new Response(JSON.stringify({ error: 'Not authorized' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { user_id, username, role, is_active } = data as UpdateUserRequest
+
+      // Stops a user manager from locking themselves out of user management
+      if (user_id === caller.id && ((role && role !== caller.role) || is_active === false)) {
+        return new Response(JSON.stringify({ error: 'You cannot demote or deactivate your own account' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: existing, error: existingError } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', user_id)
+        .single()
+
+      if (existingError) {
+        return new Response(JSON.stringify({ error: existingError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const changes: Record<string, unknown> = {}
+      if (username !== undefined) changes.username = username
+      if (role !== undefined) changes.role = role
+      if (is_active !== undefined) changes.is_active = is_active
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .update(changes)
+        .eq('id', user_id)
+        .select('id, username, role, is_active')
+        .single()
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Session tokens carry the role claim RLS trusts, so they cannot outlive a role change
+      if (user.role !== existing.role || !user.is_active) {
+        await supabase
+          .from('sessions')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('user_id', user_id)
+          .is('revoked_at', null)
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        user
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'reset_two_factor') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!can(caller, 'users.manage')) {
+        return new Response(JSON.stringify({ error: 'Not authorized' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { user_id } = data as ResetTwoFactorRequest
+
+      // For a lost phone: the user signs in with their password and enrolls again
+      const { error } = await supabase
+        .from('users')
+        .update({ totp_secret: null, totp_enabled_at: null, totp_last_used_step: null })
+        .eq('id', user_id)
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('recovery_codes')
+        .delete()
+        .eq('user_id', user_id)
+
+      return new Response(JSON.stringify({
+        success: true
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'unlock_user') {
+      const caller = await getSessionUser(req, supabase)
+
+      if (!can(caller, 'users.manage')) {
+        return new Response(JSON.stringify({ error: 'Not authorized' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { user_id } = data as UnlockUserRequest
+
+      const { error } = await supabase
+        .from('users')
+        .update({ locked_at: null, failed_login_attempts: 0 })
+        .eq('id', user_id)
+
+      if (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      return new Response(JSON.stringify({
+        success: true
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'setup_status') {
+      const [{ data: setupRow }, { count }, { data: businessRow }] = await Promise.all([
+        supabase.from('settings').select('key').eq('key', 'setup_completed_at').maybeSingle(),
+        supabase.from('users').select('id', { count: 'exact', head: true }),
+        supabase.from('settings').select('value').eq('key', 'business_name').maybeSingle()
+      ])
+
+      return new Response(JSON.stringify({
+        success: true,
+        needs_setup: !setupRow && !count,
+        business_name: businessRow?.value ?? null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action === 'complete_setup') {
+      const { username, password, business_name } = data as CompleteSetupRequest
+
+      if (!username || !business_name || !isValidPassword(password)) {
+        return new Response(JSON.stringify({ error: `Business name, username and a password of at least ${MIN_PASSWORD_LENGTH} characters are required` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { count } = await supabase
+        .from('users')
+        .select('id', { count: 'exact', head: true })
+
+      if (count) {
+        return new Response(JSON.stringify({ error: 'Setup has already been completed' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Claiming the settings key is atomic, so only one setup request can ever win
+      const { error: claimError } = await supabase
+        .from('settings')
+        .insert([{ key: 'setup_completed_at', value: new Date().toISOString() }])
+
+      if (claimError) {
+        return new Response(JSON.stringify({ error: 'Setup has already been completed' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .insert([{ username, password: await bcrypt.hash(password), role: 'super_admin' }])
+        .select('id, username, role')
+        .single()
+
+      if (error) {
+        // Release the claim so the owner can retry with different details
+        await supabase.from('settings').delete().eq('key', 'setup_completed_at')
+
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      await supabase
+        .from('settings')
+        .upsert([{ key: 'business_name', value: business_name }])
+
+      const sessionUser: SessionUser = {
+        ...user,
+        permissions: await getRolePermissions(supabase, user.role)
+      }
+
       return new Response(JSON.stringify({
         success: true,
-        message: 'Admin created'
+        token: await startSession(req, supabase, sessionUser),
+        user: sessionUser
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
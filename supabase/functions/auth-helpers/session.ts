@@ -0,0 +1,181 @@
+import { create, verify, getNumericDate } from "https://deno.land/x/djwt@v2.8/mod.ts"
+
+export interface SessionUser {
+  id: string
+  username: string
+  role: string
+  permissions?: string[]
+  must_change_password?: boolean
+  two_factor_enabled?: boolean
+  must_enroll_two_factor?: boolean
+}
+
+export interface SessionClaims {
+  sub: string
+  sid: string
+  role: string
+  app_role: string
+  username: string
+  exp: number
+  iat: number
+}
+
+// Tokens are signed with the project JWT secret so PostgREST accepts them as
+// the `authenticated` role and exposes `app_role` and `sid` to RLS via auth.jwt().
+const JWT_SECRET = Deno.env.get('JWT_SECRET')
+
+// An empty HMAC key would let anyone forge a session, so refuse to start without one
+if (!JWT_SECRET) {
+  throw new Error('JWT_SECRET is not set')
+}
+
+let signingKey: CryptoKey | null = null
+
+const getSigningKey = async (): Promise<CryptoKey> => {
+  if (!signingKey) {
+    signingKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(JWT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    )
+  }
+  return signingKey
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value !== ''
+
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+export const issueSessionToken = async (user: SessionUser, sessionId: string, expiresAt: Date): Promise<string> => {
+  return await create(
+    { alg: 'HS256', typ: 'JWT' },
+    {
+      sub: user.id,
+      sid: sessionId,
+      role: 'authenticated',
+      app_role: user.role,
+      username: user.username,
+      iat: getNumericDate(0),
+      exp: getNumericDate(expiresAt),
+    },
+    await getSigningKey()
+  )
+}
+
+export const verifySessionToken = async (token: string): Promise<SessionClaims | null> => {
+  try {
+    const payload = await verify(token, await getSigningKey())
+    // The anon key is signed with the same secret, so only accept tokens we issued
+    if (payload.role !== 'authenticated' || !isText(payload.sub) || !isText(payload.sid) ||
+        !isText(payload.app_role) || !isText(payload.username) || !isTime(payload.exp) || !isTime(payload.iat)) {
+      return null
+    }
+    return {
+      sub: payload.sub,
+      sid: payload.sid,
+      role: 'authenticated',
+      app_role: payload.app_role,
+      username: payload.username,
+      exp: payload.exp,
+      iat: payload.iat,
+    }
+  } catch {
+    return null
+  }
+}
+
+export interface TillClaims {
+  sub: string
+  role: string
+  till: boolean
+  exp: number
+  iat: number
+}
+
+// A locked till holds this instead of a session token. It carries the anon
+// role, so PostgREST grants it nothing, and only lets auth-helpers list staff
+// with a PIN and accept PIN sign-ins on that terminal.
+export const issueTillToken = async (lockedByUserId: string, expiresAt: Date): Promise<string> => {
+  return await create(
+    { alg: 'HS256', typ: 'JWT' },
+    {
+      sub: lockedByUserId,
+      role: 'anon',
+      till: true,
+      iat: getNumericDate(0),
+      exp: getNumericDate(expiresAt),
+    },
+    await getSigningKey()
+  )
+}
+
+export const verifyTillToken = async (token: string): Promise<TillClaims | null> => {
+  try {
+    const payload = await verify(token, await getSigningKey())
+    if (payload.till !== true || payload.role !== 'anon' || !isText(payload.sub) ||
+        !isTime(payload.exp) || !isTime(payload.iat)) {
+      return null
+    }
+    return {
+      sub: payload.sub,
+      role: 'anon',
+      till: true,
+      exp: payload.exp,
+      iat: payload.iat,
+    }
+  } catch {
+    return null
+  }
+}
+
+export interface ChallengeClaims {
+  sub: string
+  role: string
+  two_factor: boolean
+  exp: number
+  iat: number
+}
+
+const CHALLENGE_LIFETIME_SECONDS = 5 * 60
+
+// Issued after a correct password when the account has two-factor enabled;
+// it proves the first step only and is exchanged for a session by verify_two_factor.
+export const issueChallengeToken = async (userId: string): Promise<string> => {
+  return await create(
+    { alg: 'HS256', typ: 'JWT' },
+    {
+      sub: userId,
+      role: 'anon',
+      two_factor: true,
+      iat: getNumericDate(0),
+      exp: getNumericDate(CHALLENGE_LIFETIME_SECONDS),
+    },
+    await getSigningKey()
+  )
+}
+
+export const verifyChallengeToken = async (token: string): Promise<ChallengeClaims | null> => {
+  try {
+    const payload = await verify(token, await getSigningKey())
+    if (payload.two_factor !== true || payload.role !== 'anon' || !isText(payload.sub) ||
+        !isTime(payload.exp) || !isTime(payload.iat)) {
+      return null
+    }
+    return {
+      sub: payload.sub,
+      role: 'anon',
+      two_factor: true,
+      exp: payload.exp,
+      iat: payload.iat,
+    }
+  } catch {
+    return null
+  }
+}
+
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.get('Authorization') ?? ''
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null
+}
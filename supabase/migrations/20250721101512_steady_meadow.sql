@@ -0,0 +1,109 @@
+/*
+  # Role-aware row level security
+
+  1. Helpers
+    - `current_app_role()` reads the `app_role` claim from the session token issued by auth-helpers
+    - `is_admin()` is true for super_admin and admin
+
+  2. New Views
+    - `product_catalog` (products without `buy_price`) readable by every signed-in role
+    - `staff_directory` (user id and username) so sales can show who recorded them
+
+  3. Security
+    - Replace the blanket `USING (true)` policies with policies driven by the role claim
+    - products, stock_entries: admins only
+    - sales: every role reads, sales staff insert sales attributed to themselves, admins write
+    - users: super_admin only, and the `password` column is never exposed over the API
+    - settings: every role reads, super_admin writes
+
+  4. Functions
+    - Stock triggers run as SECURITY DEFINER so a sale recorded by sales staff
+      can still decrement product quantity they are not allowed to update
+*/
+
+-- Role claim helpers
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS text AS $$
+  SELECT coalesce(auth.jwt() ->> 'app_role', '')
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT current_app_role() IN ('super_admin', 'admin')
+$$ LANGUAGE sql STABLE;
+
+-- Drop the permissive policies
+DROP POLICY IF EXISTS "All authenticated users can read users" ON users;
+DROP POLICY IF EXISTS "All authenticated users can access products" ON products;
+DROP POLICY IF EXISTS "All authenticated users can access stock_entries" ON stock_entries;
+DROP POLICY IF EXISTS "All authenticated users can access sales" ON sales;
+DROP POLICY IF EXISTS "All authenticated users can access settings" ON settings;
+
+-- Users
+REVOKE SELECT ON users FROM anon, authenticated;
+GRANT SELECT (id, username, role, created_at) ON users TO authenticated;
+
+CREATE POLICY "Super admins can manage users"
+  ON users FOR ALL
+  TO authenticated
+  USING (current_app_role() = 'super_admin')
+  WITH CHECK (current_app_role() = 'super_admin');
+
+-- Products
+CREATE POLICY "Admins can manage products"
+  ON products FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Stock entries
+CREATE POLICY "Admins can manage stock_entries"
+  ON stock_entries FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Sales
+CREATE POLICY "All roles can read sales"
+  ON sales FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Sales staff can record their own sales"
+  ON sales FOR INSERT
+  TO authenticated
+  WITH CHECK (current_app_role() = 'sales_staff' AND recorded_by_user_id = auth.uid());
+
+CREATE POLICY "Admins can manage sales"
+  ON sales FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Settings
+CREATE POLICY "All roles can read settings"
+  ON settings FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Super admins can manage settings"
+  ON settings FOR ALL
+  TO authenticated
+  USING (current_app_role() = 'super_admin')
+  WITH CHECK (current_app_role() = 'super_admin');
+
+-- Views run as their owner, so they expose only the listed columns to every role
+CREATE OR REPLACE VIEW product_catalog AS
+  SELECT id, name, sku, sell_price, quantity, created_at
+  FROM products;
+
+CREATE OR REPLACE VIEW staff_directory AS
+  SELECT id, username
+  FROM users;
+
+REVOKE ALL ON product_catalog, staff_directory FROM anon;
+GRANT SELECT ON product_catalog, staff_directory TO authenticated;
+
+-- Stock triggers must update products regardless of the caller's policies
+ALTER FUNCTION update_product_quantity_on_stock() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION decrease_product_quantity_on_sale() SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,9 @@
+/*
+  # Password change and reset
+
+  1. Changes
+    - `users.must_change_password` (boolean, default false) is set when a super_admin
+      issues a temporary password and cleared once the user picks a new one
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false;
@@ -0,0 +1,28 @@
+/*
+  # Replace the hardcoded admin bootstrap with first-run setup
+
+  1. Data
+    - Remove the seeded `admin` / `admin123` account when it still has the default
+      password and never recorded a sale, so a fresh install starts with no users
+    - If that account has been used, keep it but force a password change at next login
+    - Mark setup as completed on installs that already have users
+
+  2. Notes
+    - The first super_admin and `business_name` are created by the auth-helpers
+      `complete_setup` action, which refuses to run once `setup_completed_at` exists
+*/
+
+DELETE FROM users
+WHERE username = 'admin'
+  AND password = extensions.crypt('admin123', password)
+  AND NOT EXISTS (SELECT 1 FROM sales WHERE sales.recorded_by_user_id = users.id);
+
+UPDATE users
+SET must_change_password = true
+WHERE username = 'admin'
+  AND password = extensions.crypt('admin123', password);
+
+INSERT INTO settings (key, value)
+SELECT 'setup_completed_at', now()::text
+WHERE EXISTS (SELECT 1 FROM users)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,46 @@
+/*
+  # Login throttling and account lockout
+
+  1. New Tables
+    - `login_attempts`
+      - `id` (uuid, primary key)
+      - `username` (text) as typed, whether or not the account exists
+      - `ip_address` (text)
+      - `succeeded` (boolean)
+      - `attempted_at` (timestamp)
+
+  2. Changes
+    - `users.failed_login_attempts` (integer) consecutive failures since the last success or unlock
+    - `users.locked_at` (timestamp) set once the failure limit is reached; cleared by a super_admin
+
+  3. Settings
+    - `max_failed_logins` failures before an account locks (default 5)
+    - `max_failed_logins_per_ip` failures allowed from one IP in 15 minutes (default 20)
+
+  4. Security
+    - `login_attempts` has RLS enabled with no policies; only auth-helpers reads and writes it
+    - super_admins can see `locked_at` on the Users page
+*/
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  username text NOT NULL,
+  ip_address text,
+  succeeded boolean NOT NULL DEFAULT false,
+  attempted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS login_attempts_ip_address_idx ON login_attempts (ip_address, attempted_at);
+CREATE INDEX IF NOT EXISTS login_attempts_username_idx ON login_attempts (username, attempted_at);
+
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_at timestamptz;
+
+GRANT SELECT (locked_at) ON users TO authenticated;
+
+INSERT INTO settings (key, value) VALUES
+  ('max_failed_logins', '5'),
+  ('max_failed_logins_per_ip', '20')
+ON CONFLICT (key) DO NOTHING;
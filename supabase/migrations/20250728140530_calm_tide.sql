@@ -0,0 +1,82 @@
+/*
+  # Sessions with expiry, idle timeout and revocation
+
+  1. New Tables
+    - `sessions`
+      - `id` (uuid, primary key) carried as the `sid` claim in session tokens
+      - `user_id` (uuid, foreign key)
+      - `ip_address` (text)
+      - `user_agent` (text)
+      - `created_at` (timestamp)
+      - `last_seen_at` (timestamp) refreshed by the client heartbeat while the user is active
+      - `expires_at` (timestamp) absolute end of the session
+      - `revoked_at` (timestamp) set on logout or by a super_admin
+
+  2. Settings
+    - `session_lifetime_hours` absolute session lifetime (default 12)
+    - `session_idle_minutes` inactivity before sign-out (default 30)
+
+  3. Security
+    - `current_app_role()` only returns a role while the token's session is live, so
+      revoked, expired and idle sessions lose database access immediately
+    - super_admins can read sessions; revocation goes through auth-helpers
+*/
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id);
+
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO settings (key, value) VALUES
+  ('session_lifetime_hours', '12'),
+  ('session_idle_minutes', '30')
+ON CONFLICT (key) DO NOTHING;
+
+-- Live-session check; SECURITY DEFINER so it can read sessions and settings under any caller
+CREATE OR REPLACE FUNCTION is_session_active(session_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions
+    WHERE id = session_id
+      AND revoked_at IS NULL
+      AND expires_at > now()
+      AND last_seen_at > now() - make_interval(mins => coalesce(
+        (SELECT value::integer FROM settings WHERE key = 'session_idle_minutes'), 30
+      ))
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS text AS $$
+  SELECT CASE
+    WHEN is_session_active(nullif(auth.jwt() ->> 'sid', '')::uuid)
+      THEN coalesce(auth.jwt() ->> 'app_role', '')
+    ELSE ''
+  END
+$$ LANGUAGE sql STABLE;
+
+CREATE POLICY "Super admins can read sessions"
+  ON sessions FOR SELECT
+  TO authenticated
+  USING (current_app_role() = 'super_admin');
+
+-- Views bypass RLS, so they check the session themselves
+CREATE OR REPLACE VIEW product_catalog AS
+  SELECT id, name, sku, sell_price, quantity, created_at
+  FROM products
+  WHERE current_app_role() <> '';
+
+CREATE OR REPLACE VIEW staff_directory AS
+  SELECT id, username
+  FROM users
+  WHERE current_app_role() <> '';
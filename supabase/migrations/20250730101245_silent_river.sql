@@ -0,0 +1,36 @@
+/*
+  # Deactivate users instead of deleting them
+
+  1. Changes
+    - `users.is_active` (boolean, default true); inactive users cannot sign in
+    - `sales.recorded_by_user_id` now uses ON DELETE RESTRICT, so removing a user
+      can no longer erase who recorded their sales
+
+  2. Security
+    - Sessions of inactive users are treated as dead by `is_session_active()`
+    - super_admins can see `is_active` on the Users page
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+GRANT SELECT (is_active) ON users TO authenticated;
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_recorded_by_user_id_fkey;
+ALTER TABLE sales
+  ADD CONSTRAINT sales_recorded_by_user_id_fkey
+  FOREIGN KEY (recorded_by_user_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION is_session_active(session_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions
+    JOIN users ON users.id = sessions.user_id
+    WHERE sessions.id = session_id
+      AND users.is_active
+      AND sessions.revoked_at IS NULL
+      AND sessions.expires_at > now()
+      AND sessions.last_seen_at > now() - make_interval(mins => coalesce(
+        (SELECT value::integer FROM settings WHERE key = 'session_idle_minutes'), 30
+      ))
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,236 @@
+/*
+  # Permission matrix
+
+  1. New Tables
+    - `permissions`
+      - `key` (text, primary key) e.g. `products.edit`
+      - `description` (text)
+    - `roles`
+      - `key` (text, primary key) stored in `users.role`
+      - `name` (text)
+      - `is_system` (boolean) system roles cannot be edited or deleted
+      - `created_at` (timestamp)
+    - `role_permissions`
+      - `role` (text, foreign key)
+      - `permission` (text, foreign key)
+
+  2. Changes
+    - `users.role` becomes text referencing `roles`, and the `user_role` enum is dropped
+    - Existing roles are seeded with the permissions they had implicitly
+
+  3. Security
+    - `has_permission()` checks the caller's role against `role_permissions`, and every
+      policy is rewritten in terms of permissions instead of role names
+    - Deleting a sale (voiding it) requires `sales.void` and puts the stock back
+*/
+
+CREATE TABLE IF NOT EXISTS permissions (
+  key text PRIMARY KEY,
+  description text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS roles (
+  key text PRIMARY KEY,
+  name text NOT NULL,
+  is_system boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text REFERENCES roles(key) ON DELETE CASCADE ON UPDATE CASCADE,
+  permission text REFERENCES permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO permissions (key, description) VALUES
+  ('products.view', 'See the product list'),
+  ('products.edit', 'Add and edit products'),
+  ('products.delete', 'Delete products'),
+  ('cost.view', 'See buy prices, stock value and profit'),
+  ('stock.view', 'See stock entries'),
+  ('stock.edit', 'Record stock entries'),
+  ('sales.view', 'See sales history'),
+  ('sales.record', 'Record sales'),
+  ('sales.void', 'Void recorded sales'),
+  ('analytics.view', 'View analytics'),
+  ('users.manage', 'Manage users, roles and sessions'),
+  ('settings.manage', 'Change business settings')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO roles (key, name, is_system) VALUES
+  ('super_admin', 'Super Admin', true),
+  ('admin', 'Admin', false),
+  ('sales_staff', 'Sales Staff', false)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'super_admin', key FROM permissions
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'admin', key FROM permissions
+WHERE key NOT IN ('users.manage', 'settings.manage')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('sales_staff', 'sales.view'),
+  ('sales_staff', 'sales.record')
+ON CONFLICT DO NOTHING;
+
+-- Roles become data instead of an enum
+ALTER TABLE users ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE users ALTER COLUMN role TYPE text USING role::text;
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'sales_staff';
+ALTER TABLE users
+  ADD CONSTRAINT users_role_fkey
+  FOREIGN KEY (role) REFERENCES roles(key) ON UPDATE CASCADE;
+
+DROP TYPE IF EXISTS user_role;
+
+-- Permission check; SECURITY DEFINER so policies work whatever the caller can read
+CREATE OR REPLACE FUNCTION has_permission(required_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM role_permissions
+    WHERE role = current_app_role()
+      AND permission = required_permission
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace role-name policies
+DROP POLICY IF EXISTS "Super admins can manage users" ON users;
+DROP POLICY IF EXISTS "Admins can manage products" ON products;
+DROP POLICY IF EXISTS "Admins can manage stock_entries" ON stock_entries;
+DROP POLICY IF EXISTS "All roles can read sales" ON sales;
+DROP POLICY IF EXISTS "Sales staff can record their own sales" ON sales;
+DROP POLICY IF EXISTS "Admins can manage sales" ON sales;
+DROP POLICY IF EXISTS "All roles can read settings" ON settings;
+DROP POLICY IF EXISTS "Super admins can manage settings" ON settings;
+DROP POLICY IF EXISTS "Super admins can read sessions" ON sessions;
+
+DROP FUNCTION IF EXISTS is_admin();
+
+-- Users and sessions
+CREATE POLICY "User managers can manage users"
+  ON users FOR ALL
+  TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+CREATE POLICY "User managers can read sessions"
+  ON sessions FOR SELECT
+  TO authenticated
+  USING (has_permission('users.manage'));
+
+-- Products (the table carries buy_price; everyone else reads product_catalog)
+CREATE POLICY "Cost viewers can read products"
+  ON products FOR SELECT
+  TO authenticated
+  USING (has_permission('cost.view'));
+
+CREATE POLICY "Product editors can add products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "Product editors can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (has_permission('products.edit'))
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "Product deleters can delete products"
+  ON products FOR DELETE
+  TO authenticated
+  USING (has_permission('products.delete'));
+
+-- Stock entries
+CREATE POLICY "Stock viewers can read stock_entries"
+  ON stock_entries FOR SELECT
+  TO authenticated
+  USING (has_permission('stock.view'));
+
+CREATE POLICY "Stock editors can add stock_entries"
+  ON stock_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('stock.edit'));
+
+-- Sales
+CREATE POLICY "Sales viewers can read sales"
+  ON sales FOR SELECT
+  TO authenticated
+  USING (has_permission('sales.view'));
+
+CREATE POLICY "Sales recorders can record their own sales"
+  ON sales FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('sales.record') AND recorded_by_user_id = auth.uid());
+
+CREATE POLICY "Sales voiders can void sales"
+  ON sales FOR DELETE
+  TO authenticated
+  USING (has_permission('sales.void'));
+
+-- Settings
+CREATE POLICY "All roles can read settings"
+  ON settings FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Settings managers can manage settings"
+  ON settings FOR ALL
+  TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+-- Roles and permissions
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All roles can read permissions"
+  ON permissions FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "All roles can read roles"
+  ON roles FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "User managers can manage roles"
+  ON roles FOR ALL
+  TO authenticated
+  USING (has_permission('users.manage') AND NOT is_system)
+  WITH CHECK (has_permission('users.manage') AND NOT is_system);
+
+CREATE POLICY "All roles can read role_permissions"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "User managers can manage role_permissions"
+  ON role_permissions FOR ALL
+  TO authenticated
+  USING (has_permission('users.manage') AND NOT EXISTS (
+    SELECT 1 FROM roles WHERE roles.key = role_permissions.role AND roles.is_system
+  ))
+  WITH CHECK (has_permission('users.manage') AND NOT EXISTS (
+    SELECT 1 FROM roles WHERE roles.key = role_permissions.role AND roles.is_system
+  ));
+
+-- Voiding a sale puts the stock back
+CREATE OR REPLACE FUNCTION restore_product_quantity_on_sale_void()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE products
+  SET quantity = quantity + OLD.quantity
+  WHERE id = OLD.product_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_restore_quantity_on_sale_void
+  AFTER DELETE ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION restore_product_quantity_on_sale_void();
@@ -0,0 +1,13 @@
+/*
+  # Quick-switch PINs
+
+  1. Changes
+    - `users.pin_hash` (text) bcrypt hash of the user's 4–6 digit till PIN, null when no PIN is set
+
+  2. Security
+    - `pin_hash` is not granted to `authenticated`, so like `password` it is only
+      readable by auth-helpers
+    - PIN sign-ins share the failed-attempt counter and lockout with password sign-ins
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash text;
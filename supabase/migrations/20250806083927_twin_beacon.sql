@@ -0,0 +1,64 @@
+/*
+  # Two-factor authentication
+
+  1. New Tables
+    - `recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `code_hash` (text) SHA-256 of a one-time recovery code
+      - `used_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `users.totp_secret` (text) base32 TOTP secret, set when enrollment starts
+    - `users.totp_enabled_at` (timestamp) set once the user has confirmed a code
+    - `users.totp_last_used_step` (bigint) last accepted time step, so a code cannot be replayed
+    - `roles.requires_two_factor` (boolean) members must enroll before using the app
+
+  3. Security
+    - `recovery_codes` has RLS enabled with no policies; only auth-helpers reads and writes it
+    - `totp_secret` is not granted to `authenticated`; user managers can see `totp_enabled_at`
+    - User managers may update a role's name and `requires_two_factor`, including system
+      roles; keys and `is_system` can no longer be changed over the API
+*/
+
+CREATE TABLE IF NOT EXISTS recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS recovery_codes_user_id_idx ON recovery_codes (user_id);
+
+ALTER TABLE recovery_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_used_step bigint;
+
+GRANT SELECT (totp_enabled_at) ON users TO authenticated;
+
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS requires_two_factor boolean NOT NULL DEFAULT false;
+
+REVOKE UPDATE ON roles FROM authenticated;
+GRANT UPDATE (name, requires_two_factor) ON roles TO authenticated;
+
+DROP POLICY IF EXISTS "User managers can manage roles" ON roles;
+
+CREATE POLICY "User managers can add roles"
+  ON roles FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('users.manage') AND NOT is_system);
+
+CREATE POLICY "User managers can update roles"
+  ON roles FOR UPDATE
+  TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+CREATE POLICY "User managers can delete roles"
+  ON roles FOR DELETE
+  TO authenticated
+  USING (has_permission('users.manage') AND NOT is_system);
@@ -0,0 +1,116 @@
+/*
+  # Audit trail
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid) who made the change, null for system changes
+      - `actor_username` (text) username at the time of the change
+      - `table_name` (text) `products`, `stock_entries`, `sales` or `users`
+      - `row_id` (text) id of the changed row
+      - `action` (text) `INSERT`, `UPDATE` or `DELETE`
+      - `old_data` (jsonb) row before the change, null for inserts
+      - `new_data` (jsonb) row after the change, null for deletes
+      - `created_at` (timestamp)
+
+  2. Triggers
+    - `record_audit_log()` runs after every insert, update and delete on the audited tables.
+      The actor is the session user; for writes auth-helpers makes with the service role
+      it is taken from the `x-actor-id` request header, which is only trusted from that role.
+    - Trigger arguments name columns left out of the log: secrets are never copied, and
+      updates touching only sign-in bookkeeping are not logged
+
+  3. Security
+    - New permission `audit.view`, granted to super_admin
+    - The log is read-only over the API; only the trigger writes to it
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  actor_username text,
+  table_name text NOT NULL,
+  row_id text,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON audit_log (actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_table_row_idx ON audit_log (table_name, row_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON audit_log FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON audit_log FROM authenticated;
+
+INSERT INTO permissions (key, description) VALUES
+  ('audit.view', 'View the audit trail')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('super_admin', 'audit.view')
+ON CONFLICT DO NOTHING;
+
+CREATE POLICY "Auditors can read audit_log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (has_permission('audit.view'));
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor uuid := auth.uid();
+  old_row jsonb;
+  new_row jsonb;
+  excluded text[] := coalesce(TG_ARGV, '{}');
+BEGIN
+  IF actor IS NULL AND auth.role() = 'service_role' THEN
+    actor := nullif(current_setting('request.headers', true)::json ->> 'x-actor-id', '')::uuid;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - excluded;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - excluded;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_username, table_name, row_id, action, old_data, new_data)
+  VALUES (
+    actor,
+    (SELECT username FROM users WHERE id = actor),
+    TG_TABLE_NAME,
+    coalesce(new_row ->> 'id', old_row ->> 'id'),
+    TG_OP,
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_products
+  AFTER INSERT OR UPDATE OR DELETE ON products
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_stock_entries
+  AFTER INSERT OR UPDATE OR DELETE ON stock_entries
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_sales
+  AFTER INSERT OR UPDATE OR DELETE ON sales
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_users
+  AFTER INSERT OR UPDATE OR DELETE ON users
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log(
+    'password', 'pin_hash', 'totp_secret', 'totp_last_used_step', 'failed_login_attempts'
+  );
@@ -0,0 +1,176 @@
+/*
+  # Product variants
+
+  1. New Tables
+    - `product_variants`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key) the parent product
+      - `size`, `colour`, `fit` (text) option values, empty when the option does not apply
+      - `sku` (text, unique)
+      - `sell_price` (numeric) overrides the parent's sell price when set
+      - `quantity` (integer) stock of this variant, maintained by the stock triggers
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `stock_entries.variant_id` and `sales.variant_id` record which variant moved.
+      Deleting a variant keeps its history against the parent product.
+    - Stock and sale triggers move variant stock when a variant is given; the parent's
+      `quantity` is kept as its own stock plus the stock of all its variants
+    - Stock entries and sales for a product with variants must name one of its variants
+
+  3. Security
+    - Variants carry no cost, so every signed-in role can read them
+    - `products.edit` is needed to add, change or remove variants; `quantity` can only be
+      changed through stock entries and sales
+*/
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  size text NOT NULL DEFAULT '',
+  colour text NOT NULL DEFAULT '',
+  fit text NOT NULL DEFAULT '',
+  sku text UNIQUE NOT NULL,
+  sell_price numeric(10,2) CHECK (sell_price >= 0),
+  quantity integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, size, colour, fit),
+  CHECK (size <> '' OR colour <> '' OR fit <> '')
+);
+
+ALTER TABLE stock_entries
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_entries_variant_id_idx ON stock_entries (variant_id);
+CREATE INDEX IF NOT EXISTS sales_variant_id_idx ON sales (variant_id);
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON product_variants FROM anon;
+REVOKE INSERT, UPDATE ON product_variants FROM authenticated;
+GRANT INSERT (product_id, size, colour, fit, sku, sell_price) ON product_variants TO authenticated;
+GRANT UPDATE (size, colour, fit, sku, sell_price) ON product_variants TO authenticated;
+
+CREATE POLICY "All roles can read product_variants"
+  ON product_variants FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Product editors can add product_variants"
+  ON product_variants FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "Product editors can update product_variants"
+  ON product_variants FOR UPDATE
+  TO authenticated
+  USING (has_permission('products.edit'))
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "Product editors can delete product_variants"
+  ON product_variants FOR DELETE
+  TO authenticated
+  USING (has_permission('products.edit'));
+
+-- A movement must name a variant of its own product, and must name one when the product has any
+CREATE OR REPLACE FUNCTION check_movement_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.variant_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM product_variants WHERE id = NEW.variant_id AND product_id = NEW.product_id
+    ) THEN
+      RAISE EXCEPTION 'Variant does not belong to this product' USING ERRCODE = '23503';
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM product_variants WHERE product_id = NEW.product_id) THEN
+    RAISE EXCEPTION 'Choose a variant of this product' USING ERRCODE = '23502';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_check_stock_entry_variant
+  BEFORE INSERT ON stock_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION check_movement_variant();
+
+CREATE TRIGGER trigger_check_sale_variant
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION check_movement_variant();
+
+-- Keep the parent's quantity in step with its variants
+CREATE OR REPLACE FUNCTION sync_product_quantity_from_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE products SET quantity = quantity + NEW.quantity WHERE id = NEW.product_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE products SET quantity = quantity - OLD.quantity WHERE id = OLD.product_id;
+  ELSIF NEW.quantity <> OLD.quantity THEN
+    UPDATE products SET quantity = quantity + NEW.quantity - OLD.quantity WHERE id = NEW.product_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_sync_product_quantity_from_variant
+  AFTER INSERT OR UPDATE OF quantity OR DELETE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_quantity_from_variant();
+
+-- Stock triggers move the variant when one is given; the sync trigger then updates the parent
+CREATE OR REPLACE FUNCTION update_product_quantity_on_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity = quantity + NEW.quantity
+    WHERE id = NEW.variant_id;
+  ELSE
+    UPDATE products
+    SET quantity = quantity + NEW.quantity
+    WHERE id = NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION decrease_product_quantity_on_sale()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity = quantity - NEW.quantity
+    WHERE id = NEW.variant_id;
+  ELSE
+    UPDATE products
+    SET quantity = quantity - NEW.quantity
+    WHERE id = NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION restore_product_quantity_on_sale_void()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity = quantity + OLD.quantity
+    WHERE id = OLD.variant_id;
+  ELSE
+    UPDATE products
+    SET quantity = quantity + OLD.quantity
+    WHERE id = OLD.product_id;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_product_variants
+  AFTER INSERT OR UPDATE OR DELETE ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
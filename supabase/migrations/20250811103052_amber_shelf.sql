@@ -0,0 +1,88 @@
+/*
+  # Categories, brands and collections
+
+  1. New Tables
+    - `categories`, `brands`, `collections`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `products.category_id`, `products.brand_id` and `products.collection_id`; removing a
+      lookup value leaves its products unassigned
+    - `product_catalog` exposes the three new columns
+
+  3. Security
+    - Every signed-in role can read the lookups; `products.edit` is needed to change them
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL CHECK (btrim(name) <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS brands (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL CHECK (btrim(name) <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL CHECK (btrim(name) <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS brand_id uuid REFERENCES brands(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS collection_id uuid REFERENCES collections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS products_category_id_idx ON products (category_id);
+CREATE INDEX IF NOT EXISTS products_brand_id_idx ON products (brand_id);
+CREATE INDEX IF NOT EXISTS products_collection_id_idx ON products (collection_id);
+
+CREATE OR REPLACE VIEW product_catalog AS
+  SELECT id, name, sku, sell_price, quantity, created_at, category_id, brand_id, collection_id
+  FROM products
+  WHERE current_app_role() <> '';
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON categories, brands, collections FROM anon;
+
+CREATE POLICY "All roles can read categories"
+  ON categories FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Product editors can manage categories"
+  ON categories FOR ALL
+  TO authenticated
+  USING (has_permission('products.edit'))
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "All roles can read brands"
+  ON brands FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Product editors can manage brands"
+  ON brands FOR ALL
+  TO authenticated
+  USING (has_permission('products.edit'))
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "All roles can read collections"
+  ON collections FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Product editors can manage collections"
+  ON collections FOR ALL
+  TO authenticated
+  USING (has_permission('products.edit'))
+  WITH CHECK (has_permission('products.edit'));
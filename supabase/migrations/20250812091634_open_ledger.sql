@@ -0,0 +1,67 @@
+/*
+  # Bulk product import
+
+  1. New Functions
+    - `import_products(items jsonb)` adds a list of products in one transaction and
+      records each row's opening quantity as a stock entry. Each item carries `row`
+      (the spreadsheet row, for error messages), `name`, `sku`, `buy_price`,
+      `sell_price` and `quantity`. Any bad row rolls back the whole import.
+
+  2. Security
+    - Runs as the caller, so the usual policies apply: `products.edit` to add products
+      and `stock.edit` to record opening stock
+*/
+
+CREATE OR REPLACE FUNCTION import_products(items jsonb)
+RETURNS integer AS $$
+DECLARE
+  item jsonb;
+  row_label text;
+  new_product_id uuid;
+  buy numeric;
+  sell numeric;
+  opening integer;
+  imported integer := 0;
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to add products' USING ERRCODE = '42501';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+    row_label := 'Row ' || coalesce(item ->> 'row', (imported + 1)::text);
+    buy := (item ->> 'buy_price')::numeric;
+    sell := (item ->> 'sell_price')::numeric;
+    opening := coalesce((item ->> 'quantity')::integer, 0);
+
+    IF coalesce(btrim(item ->> 'name'), '') = '' OR coalesce(btrim(item ->> 'sku'), '') = '' THEN
+      RAISE EXCEPTION '%: name and SKU are required', row_label USING ERRCODE = '23502';
+    END IF;
+    IF buy < 0 OR sell < 0 OR opening < 0 THEN
+      RAISE EXCEPTION '%: prices and quantity cannot be negative', row_label USING ERRCODE = '23514';
+    END IF;
+    IF sell < buy THEN
+      RAISE EXCEPTION '%: sell price is below buy price', row_label USING ERRCODE = '23514';
+    END IF;
+
+    BEGIN
+      INSERT INTO products (name, sku, buy_price, sell_price)
+      VALUES (btrim(item ->> 'name'), btrim(item ->> 'sku'), buy, sell)
+      RETURNING id INTO new_product_id;
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION '%: SKU % already exists', row_label, btrim(item ->> 'sku') USING ERRCODE = '23505';
+    END;
+
+    IF opening > 0 THEN
+      INSERT INTO stock_entries (product_id, quantity)
+      VALUES (new_product_id, opening);
+    END IF;
+
+    imported := imported + 1;
+  END LOOP;
+
+  RETURN imported;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE ALL ON FUNCTION import_products(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_products(jsonb) TO authenticated;
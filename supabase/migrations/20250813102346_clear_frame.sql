@@ -0,0 +1,128 @@
+/*
+  # Product images
+
+  1. New Tables
+    - `product_images`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key) the product shown
+      - `path` (text) object path of the full-size image in the `product-images` bucket
+      - `thumbnail_path` (text) object path of the small copy used in tables and pickers
+      - `is_primary` (boolean) the image shown wherever a product gets a single picture
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Public `product-images` bucket. Images are resized in the browser before upload, so
+      nothing depends on the hosted image transformer and a local stack or MinIO serves them as is.
+      Objects live under `<product_id>/`.
+
+  3. Changes
+    - Each product has at most one primary image: the first upload becomes primary, choosing
+      another demotes the old one, and removing the primary promotes the oldest remaining image
+
+  4. Security
+    - Every signed-in role can read image rows; anyone with the object path can fetch the image
+    - `products.edit` is needed to add or remove images, in the table and in the bucket
+*/
+
+CREATE TABLE IF NOT EXISTS product_images (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  path text NOT NULL,
+  thumbnail_path text NOT NULL,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_images_product_id_idx ON product_images (product_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS product_images_one_primary_idx ON product_images (product_id) WHERE is_primary;
+
+ALTER TABLE product_images ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON product_images FROM anon;
+REVOKE INSERT, UPDATE ON product_images FROM authenticated;
+GRANT INSERT (product_id, path, thumbnail_path, is_primary) ON product_images TO authenticated;
+GRANT UPDATE (is_primary) ON product_images TO authenticated;
+
+CREATE POLICY "All roles can read product_images"
+  ON product_images FOR SELECT
+  TO authenticated
+  USING (current_app_role() <> '');
+
+CREATE POLICY "Product editors can add product_images"
+  ON product_images FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "Product editors can update product_images"
+  ON product_images FOR UPDATE
+  TO authenticated
+  USING (has_permission('products.edit'))
+  WITH CHECK (has_permission('products.edit'));
+
+CREATE POLICY "Product editors can delete product_images"
+  ON product_images FOR DELETE
+  TO authenticated
+  USING (has_permission('products.edit'));
+
+-- One primary image per product
+CREATE OR REPLACE FUNCTION maintain_primary_product_image()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_primary THEN
+      UPDATE product_images
+      SET is_primary = true
+      WHERE id = (
+        SELECT id FROM product_images
+        WHERE product_id = OLD.product_id
+        ORDER BY created_at
+        LIMIT 1
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.is_primary THEN
+    UPDATE product_images
+    SET is_primary = false
+    WHERE product_id = NEW.product_id AND id <> NEW.id AND is_primary;
+  ELSIF TG_OP = 'INSERT' AND NOT EXISTS (SELECT 1 FROM product_images WHERE product_id = NEW.product_id) THEN
+    NEW.is_primary := true;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_set_primary_product_image
+  BEFORE INSERT OR UPDATE OF is_primary ON product_images
+  FOR EACH ROW
+  EXECUTE FUNCTION maintain_primary_product_image();
+
+CREATE TRIGGER trigger_promote_primary_product_image
+  AFTER DELETE ON product_images
+  FOR EACH ROW
+  EXECUTE FUNCTION maintain_primary_product_image();
+
+CREATE TRIGGER audit_product_images
+  AFTER INSERT OR UPDATE OR DELETE ON product_images
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Bucket and object policies
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('product-images', 'product-images', true, 5242880, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "All roles can read product images"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'product-images' AND public.current_app_role() <> '');
+
+CREATE POLICY "Product editors can upload product images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'product-images' AND public.has_permission('products.edit'));
+
+CREATE POLICY "Product editors can delete product images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'product-images' AND public.has_permission('products.edit'));
@@ -0,0 +1,99 @@
+/*
+  # Reorder levels and low-stock notifications
+
+  1. Changes
+    - `products.reorder_point` (integer) stock level at which the product should be reordered;
+      0 means only running out is reported
+    - `products.reorder_quantity` (integer) how many to order when it is reached
+    - `product_catalog` exposes both, so every role can see what is running low
+
+  2. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `kind` (text) `low_stock` or `out_of_stock`
+      - `product_id` (uuid, foreign key)
+      - `message` (text)
+      - `created_at` (timestamp)
+      - `read_at` (timestamp) when someone dismissed it; notifications are shared by everyone who restocks
+
+  3. Triggers
+    - When a product's quantity drops to its reorder point or to zero, a notification is added,
+      unless an unread one of the same kind is already waiting for that product
+
+  4. Security
+    - Notifications are for `stock.edit`: only they can read them and mark them read
+    - Only the trigger adds notifications
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS reorder_point integer NOT NULL DEFAULT 0 CHECK (reorder_point >= 0),
+  ADD COLUMN IF NOT EXISTS reorder_quantity integer NOT NULL DEFAULT 0 CHECK (reorder_quantity >= 0);
+
+CREATE OR REPLACE VIEW product_catalog AS
+  SELECT id, name, sku, sell_price, quantity, created_at, category_id, brand_id, collection_id,
+    reorder_point, reorder_quantity
+  FROM products
+  WHERE current_app_role() <> '';
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('low_stock', 'out_of_stock')),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  message text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx ON notifications (created_at DESC) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS notifications_product_id_idx ON notifications (product_id);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON notifications FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+CREATE POLICY "Stock editors can read notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (has_permission('stock.edit'));
+
+CREATE POLICY "Stock editors can mark notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (has_permission('stock.edit'))
+  WITH CHECK (has_permission('stock.edit'));
+
+-- Runs as the owner so a sale by any role can raise the alert
+CREATE OR REPLACE FUNCTION notify_low_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  alert_kind text;
+  alert_message text;
+BEGIN
+  IF NEW.quantity <= 0 AND OLD.quantity > 0 THEN
+    alert_kind := 'out_of_stock';
+    alert_message := format('%s is out of stock', NEW.name);
+  ELSIF NEW.reorder_point > 0 AND NEW.quantity <= NEW.reorder_point AND OLD.quantity > NEW.reorder_point THEN
+    alert_kind := 'low_stock';
+    alert_message := format('%s is down to %s (reorder point %s)', NEW.name, NEW.quantity, NEW.reorder_point);
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notifications
+    WHERE product_id = NEW.id AND kind = alert_kind AND read_at IS NULL
+  ) THEN
+    INSERT INTO notifications (kind, product_id, message)
+    VALUES (alert_kind, NEW.id, alert_message);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_notify_low_stock
+  AFTER UPDATE OF quantity ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_low_stock();
@@ -0,0 +1,206 @@
+/*
+  # Prices at the time of sale
+
+  1. New Tables
+    - `product_prices` price history, one row per period a product's prices applied
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key)
+      - `buy_price`, `sell_price` (numeric)
+      - `effective_from` (timestamp)
+      - `effective_to` (timestamp) null for the prices in force now
+      - `changed_by` (uuid) who set them, when known
+    - `sale_costs` the unit cost of each sale when it was made
+      - `sale_id` (uuid, primary key, foreign key)
+      - `unit_cost` (numeric)
+
+  2. Changes
+    - `sales.list_price` the sell price (variant override included) when the sale was made,
+      so discounts given at the till stay visible
+    - Unit cost is kept beside the sale rather than on it because every role reads sales
+      and only `cost.view` may see cost, the same split as `products` and `product_catalog`
+    - Triggers snapshot both on insert and open a new price period whenever a product's
+      buy or sell price changes
+
+  3. Backfill
+    - Price periods are rebuilt from the audit log. Changes made before the audit log existed
+      are unknown, so the earliest recorded price is taken to have applied since creation.
+    - Existing sales get the prices of the period they were recorded in. Variant price
+      overrides have no history, so their current override is used.
+
+  4. Security
+    - `product_prices` and `sale_costs` are read-only over the API and need `cost.view`
+*/
+
+CREATE TABLE IF NOT EXISTS product_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  buy_price numeric(10,2) NOT NULL,
+  sell_price numeric(10,2) NOT NULL,
+  effective_from timestamptz NOT NULL DEFAULT now(),
+  effective_to timestamptz,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS product_prices_product_id_idx ON product_prices (product_id, effective_from DESC);
+
+CREATE TABLE IF NOT EXISTS sale_costs (
+  sale_id uuid PRIMARY KEY REFERENCES sales(id) ON DELETE CASCADE,
+  unit_cost numeric(10,2) NOT NULL
+);
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS list_price numeric(10,2);
+
+ALTER TABLE product_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_costs ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON product_prices, sale_costs FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON product_prices, sale_costs FROM authenticated;
+
+CREATE POLICY "Cost viewers can read product_prices"
+  ON product_prices FOR SELECT
+  TO authenticated
+  USING (has_permission('cost.view'));
+
+CREATE POLICY "Cost viewers can read sale_costs"
+  ON sale_costs FOR SELECT
+  TO authenticated
+  USING (has_permission('cost.view'));
+
+-- Backfill price periods from the audit trail
+WITH changes AS (
+  SELECT
+    row_id::uuid AS product_id,
+    actor_id,
+    created_at AS changed_at,
+    (old_data ->> 'buy_price')::numeric AS old_buy_price,
+    (old_data ->> 'sell_price')::numeric AS old_sell_price,
+    (new_data ->> 'buy_price')::numeric AS new_buy_price,
+    (new_data ->> 'sell_price')::numeric AS new_sell_price
+  FROM audit_log
+  WHERE table_name = 'products'
+    AND action = 'UPDATE'
+    AND (old_data ->> 'buy_price' IS DISTINCT FROM new_data ->> 'buy_price'
+      OR old_data ->> 'sell_price' IS DISTINCT FROM new_data ->> 'sell_price')
+),
+periods AS (
+  SELECT
+    p.id AS product_id,
+    coalesce(first_change.old_buy_price, p.buy_price) AS buy_price,
+    coalesce(first_change.old_sell_price, p.sell_price) AS sell_price,
+    coalesce(p.created_at, now()) AS effective_from,
+    NULL::uuid AS changed_by
+  FROM products p
+  LEFT JOIN LATERAL (
+    SELECT old_buy_price, old_sell_price
+    FROM changes c
+    WHERE c.product_id = p.id
+    ORDER BY c.changed_at
+    LIMIT 1
+  ) first_change ON true
+  UNION ALL
+  SELECT c.product_id, c.new_buy_price, c.new_sell_price, c.changed_at, c.actor_id
+  FROM changes c
+  JOIN products p ON p.id = c.product_id
+)
+INSERT INTO product_prices (product_id, buy_price, sell_price, effective_from, effective_to, changed_by)
+SELECT
+  product_id,
+  buy_price,
+  sell_price,
+  effective_from,
+  lead(effective_from) OVER (PARTITION BY product_id ORDER BY effective_from),
+  changed_by
+FROM periods;
+
+-- Backfill existing sales with the prices in force when they were recorded
+INSERT INTO sale_costs (sale_id, unit_cost)
+SELECT s.id, coalesce(price.buy_price, p.buy_price)
+FROM sales s
+JOIN products p ON p.id = s.product_id
+LEFT JOIN LATERAL (
+  SELECT buy_price
+  FROM product_prices pp
+  WHERE pp.product_id = s.product_id AND pp.effective_from <= s.created_at
+  ORDER BY pp.effective_from DESC
+  LIMIT 1
+) price ON true
+ON CONFLICT (sale_id) DO NOTHING;
+
+-- A data fix, not a change anyone made, so it stays out of the audit log
+ALTER TABLE sales DISABLE TRIGGER audit_sales;
+
+UPDATE sales s
+SET list_price = coalesce(
+  (SELECT v.sell_price FROM product_variants v WHERE v.id = s.variant_id),
+  (
+    SELECT pp.sell_price
+    FROM product_prices pp
+    WHERE pp.product_id = s.product_id AND pp.effective_from <= s.created_at
+    ORDER BY pp.effective_from DESC
+    LIMIT 1
+  ),
+  (SELECT p.sell_price FROM products p WHERE p.id = s.product_id)
+)
+WHERE list_price IS NULL;
+
+ALTER TABLE sales ENABLE TRIGGER audit_sales;
+
+ALTER TABLE sales ALTER COLUMN list_price SET NOT NULL;
+
+-- Snapshot prices on every new sale; SECURITY DEFINER because sellers cannot read products or cost
+CREATE OR REPLACE FUNCTION snapshot_sale_list_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT coalesce(v.sell_price, p.sell_price)
+  INTO NEW.list_price
+  FROM products p
+  LEFT JOIN product_variants v ON v.id = NEW.variant_id
+  WHERE p.id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_snapshot_sale_list_price
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_sale_list_price();
+
+CREATE OR REPLACE FUNCTION record_sale_cost()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO sale_costs (sale_id, unit_cost)
+  SELECT NEW.id, buy_price FROM products WHERE id = NEW.product_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_sale_cost
+  AFTER INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sale_cost();
+
+-- Close the current price period and open a new one whenever a price changes
+CREATE OR REPLACE FUNCTION record_product_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.buy_price = OLD.buy_price AND NEW.sell_price = OLD.sell_price THEN
+      RETURN NULL;
+    END IF;
+
+    UPDATE product_prices
+    SET effective_to = now()
+    WHERE product_id = NEW.id AND effective_to IS NULL;
+  END IF;
+
+  INSERT INTO product_prices (product_id, buy_price, sell_price, effective_from, changed_by)
+  VALUES (NEW.id, NEW.buy_price, NEW.sell_price, now(), auth.uid());
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_product_price
+  AFTER INSERT OR UPDATE OF buy_price, sell_price ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION record_product_price();
@@ -0,0 +1,29 @@
+/*
+  # Archive products instead of deleting them
+
+  1. Changes
+    - `products.archived_at` (timestamp) when the product was taken out of the range;
+      archived products are hidden from the sale, stock and label pickers but stay in reports
+    - `product_catalog` exposes `archived_at`
+    - `sales.product_id` and `stock_entries.product_id` now use ON DELETE RESTRICT, so a product
+      with any sale or stock movement can only be archived; deleting it used to erase its
+      revenue and stock history
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE OR REPLACE VIEW product_catalog AS
+  SELECT id, name, sku, sell_price, quantity, created_at, category_id, brand_id, collection_id,
+    reorder_point, reorder_quantity, archived_at
+  FROM products
+  WHERE current_app_role() <> '';
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_product_id_fkey;
+ALTER TABLE sales
+  ADD CONSTRAINT sales_product_id_fkey
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE RESTRICT;
+
+ALTER TABLE stock_entries DROP CONSTRAINT IF EXISTS stock_entries_product_id_fkey;
+ALTER TABLE stock_entries
+  ADD CONSTRAINT stock_entries_product_id_fkey
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE RESTRICT;
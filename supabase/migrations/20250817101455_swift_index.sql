@@ -0,0 +1,104 @@
+/*
+  # Server-side search, sorting and paging
+
+  1. Indexes
+    - Trigram indexes on product names and SKUs and on variant SKUs, so "contains" searches
+      use an index instead of scanning every product
+    - `sales` and `stock_entries` by date (their default sort) and by product
+
+  2. New Functions
+    - `search_products(term)`, `search_product_catalog(term)`, `search_sales(term)` and
+      `search_stock_entries(term)` return the rows whose product name, product SKU or variant SKU
+      contains the term; an empty term returns everything. The pages call them as RPCs and add
+      their filters, sort and range on top.
+    - They are plain SQL and not SECURITY DEFINER so Postgres inlines them: the caller's filters,
+      sort and range reach the underlying tables, and RLS applies as usual.
+    - `line_total(sales)` price × quantity, so sales can be sorted by their total
+    - `sales_summary()` revenue, number of sales and items sold across every sale the caller can read
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS products_name_trgm_idx ON products USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS products_sku_trgm_idx ON products USING gin (sku extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS product_variants_sku_trgm_idx ON product_variants USING gin (sku extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS sales_date_idx ON sales (date DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS sales_product_id_idx ON sales (product_id);
+CREATE INDEX IF NOT EXISTS stock_entries_date_idx ON stock_entries (date DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS stock_entries_product_id_idx ON stock_entries (product_id);
+
+-- ILIKE pattern for "contains term", with % and _ in the term taken literally
+CREATE OR REPLACE FUNCTION search_pattern(term text)
+RETURNS text AS $$
+  SELECT '%' || replace(replace(replace(btrim(term), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION search_products(term text DEFAULT '')
+RETURNS SETOF products AS $$
+  SELECT * FROM products p
+  WHERE coalesce(btrim(term), '') = ''
+    OR p.name ILIKE search_pattern(term)
+    OR p.sku ILIKE search_pattern(term)
+    OR EXISTS (
+      SELECT 1 FROM product_variants v
+      WHERE v.product_id = p.id AND v.sku ILIKE search_pattern(term)
+    )
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION search_product_catalog(term text DEFAULT '')
+RETURNS SETOF product_catalog AS $$
+  SELECT * FROM product_catalog p
+  WHERE coalesce(btrim(term), '') = ''
+    OR p.name ILIKE search_pattern(term)
+    OR p.sku ILIKE search_pattern(term)
+    OR EXISTS (
+      SELECT 1 FROM product_variants v
+      WHERE v.product_id = p.id AND v.sku ILIKE search_pattern(term)
+    )
+$$ LANGUAGE sql STABLE;
+
+-- A variant SKU finds sales of that variant only
+CREATE OR REPLACE FUNCTION search_sales(term text DEFAULT '')
+RETURNS SETOF sales AS $$
+  SELECT * FROM sales s
+  WHERE coalesce(btrim(term), '') = ''
+    OR s.product_id IN (
+      SELECT id FROM product_catalog
+      WHERE name ILIKE search_pattern(term) OR sku ILIKE search_pattern(term)
+    )
+    OR s.variant_id IN (SELECT id FROM product_variants WHERE sku ILIKE search_pattern(term))
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION search_stock_entries(term text DEFAULT '')
+RETURNS SETOF stock_entries AS $$
+  SELECT * FROM stock_entries e
+  WHERE coalesce(btrim(term), '') = ''
+    OR e.product_id IN (
+      SELECT id FROM product_catalog
+      WHERE name ILIKE search_pattern(term) OR sku ILIKE search_pattern(term)
+    )
+    OR e.variant_id IN (SELECT id FROM product_variants WHERE sku ILIKE search_pattern(term))
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION line_total(sales)
+RETURNS numeric AS $$
+  SELECT $1.price * $1.quantity
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sales_summary()
+RETURNS TABLE (revenue numeric, sales_count bigint, items_sold bigint) AS $$
+  SELECT coalesce(sum(price * quantity), 0), count(*), coalesce(sum(quantity), 0)
+  FROM sales
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION search_products(text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION search_product_catalog(text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION search_sales(text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION search_stock_entries(text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION sales_summary() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_products(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_product_catalog(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_sales(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_stock_entries(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION sales_summary() TO authenticated;
@@ -0,0 +1,148 @@
+/*
+  # Generated SKUs
+
+  1. New Tables
+    - `sku_sequences` the last number handed out for each SKU prefix
+      - `prefix` (text, primary key) the template with its lookup codes filled in, e.g. `SHI-ELE`
+      - `last_value` (integer)
+
+  2. Settings
+    - `sku_template` how new SKUs are built (default `{CAT}-{BRAND}-{SEQ:5}`)
+      - `{CAT}`, `{BRAND}` and `{COLL}` become the first three letters of the product's
+        category, brand and collection; a missing one is dropped along with its dash
+      - `{SEQ:n}` is the next number for that prefix, padded to n digits (`{SEQ}` pads to 4).
+        A template without it gets `-{SEQ:4}` added to the end.
+    - Variant SKUs still add their size, colour and fit to the product's SKU
+
+  3. New Functions
+    - `preview_sku(category_id, brand_id, collection_id, template)` the SKU the next product
+      would get, without using up the number; `template` defaults to the saved one
+    - `next_sku(category_id, brand_id, collection_id)` takes the next number for the prefix,
+      skipping any SKU already typed in by hand
+
+  4. Changes
+    - Products inserted with a blank SKU are given `next_sku(...)`. Numbers come from a row
+      lock on the prefix, so two people adding products at once never get the same one.
+
+  5. Security
+    - `sku_sequences` has RLS enabled with no policies; only the functions above touch it
+    - `preview_sku` needs `products.view`; `next_sku` is only called by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS sku_sequences (
+  prefix text PRIMARY KEY,
+  last_value integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE sku_sequences ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO settings (key, value) VALUES ('sku_template', '{CAT}-{BRAND}-{SEQ:5}')
+ON CONFLICT (key) DO NOTHING;
+
+-- "Summer 2025" -> SUM
+CREATE OR REPLACE FUNCTION sku_code(name text)
+RETURNS text AS $$
+  SELECT upper(left(regexp_replace(coalesce(name, ''), '[^[:alnum:]]', '', 'g'), 3));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Fills in the lookup codes and collapses the dashes around any that are missing,
+-- leaving the {SEQ} token in place
+CREATE OR REPLACE FUNCTION sku_pattern(template text, category_id uuid, brand_id uuid, collection_id uuid)
+RETURNS text AS $$
+DECLARE
+  pattern text := btrim(coalesce(nullif(btrim(template), ''), '{CAT}-{BRAND}-{SEQ:5}'));
+BEGIN
+  IF pattern !~ '\{SEQ(:\d+)?\}' THEN
+    pattern := pattern || '-{SEQ:4}';
+  END IF;
+
+  pattern := replace(pattern, '{CAT}', coalesce((SELECT sku_code(name) FROM categories WHERE id = category_id), ''));
+  pattern := replace(pattern, '{BRAND}', coalesce((SELECT sku_code(name) FROM brands WHERE id = brand_id), ''));
+  pattern := replace(pattern, '{COLL}', coalesce((SELECT sku_code(name) FROM collections WHERE id = collection_id), ''));
+
+  RETURN btrim(regexp_replace(pattern, '-{2,}', '-', 'g'), '-');
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- The sequence a pattern draws from: the pattern without its number
+CREATE OR REPLACE FUNCTION sku_prefix(pattern text)
+RETURNS text AS $$
+  SELECT btrim(regexp_replace(regexp_replace(pattern, '\{SEQ(:\d+)?\}', '', 'g'), '-{2,}', '-', 'g'), '-');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION format_sku(pattern text, seq integer)
+RETURNS text AS $$
+DECLARE
+  width integer := coalesce((regexp_match(pattern, '\{SEQ:(\d+)\}'))[1]::integer, 4);
+BEGIN
+  RETURN regexp_replace(pattern, '\{SEQ(:\d+)?\}', lpad(seq::text, greatest(width, length(seq::text)), '0'));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION preview_sku(
+  category_id uuid DEFAULT NULL,
+  brand_id uuid DEFAULT NULL,
+  collection_id uuid DEFAULT NULL,
+  template text DEFAULT NULL
+)
+RETURNS text AS $$
+DECLARE
+  pattern text;
+BEGIN
+  IF NOT has_permission('products.view') THEN
+    RAISE EXCEPTION 'You are not allowed to view products' USING ERRCODE = '42501';
+  END IF;
+
+  pattern := sku_pattern(
+    coalesce(template, (SELECT value FROM settings WHERE key = 'sku_template')),
+    category_id, brand_id, collection_id
+  );
+
+  RETURN format_sku(pattern, coalesce(
+    (SELECT last_value FROM sku_sequences WHERE prefix = sku_prefix(pattern)), 0
+  ) + 1);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION next_sku(category_id uuid, brand_id uuid, collection_id uuid)
+RETURNS text AS $$
+DECLARE
+  pattern text := sku_pattern(
+    (SELECT value FROM settings WHERE key = 'sku_template'),
+    category_id, brand_id, collection_id
+  );
+  seq integer;
+  candidate text;
+BEGIN
+  LOOP
+    INSERT INTO sku_sequences (prefix, last_value)
+    VALUES (sku_prefix(pattern), 1)
+    ON CONFLICT (prefix) DO UPDATE SET last_value = sku_sequences.last_value + 1
+    RETURNING last_value INTO seq;
+
+    candidate := format_sku(pattern, seq);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM products WHERE sku = candidate)
+      AND NOT EXISTS (SELECT 1 FROM product_variants WHERE sku = candidate);
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION assign_product_sku()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.sku := next_sku(NEW.category_id, NEW.brand_id, NEW.collection_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_assign_product_sku
+  BEFORE INSERT ON products
+  FOR EACH ROW
+  WHEN (coalesce(btrim(NEW.sku), '') = '')
+  EXECUTE FUNCTION assign_product_sku();
+
+REVOKE ALL ON FUNCTION next_sku(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION preview_sku(uuid, uuid, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION preview_sku(uuid, uuid, uuid, text) TO authenticated;
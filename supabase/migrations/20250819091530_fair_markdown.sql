@@ -0,0 +1,219 @@
+/*
+  # Bulk repricing and scheduled markdowns
+
+  1. New Tables
+    - `markdowns` a temporary price cut on a set of products
+      - `id` (uuid, primary key)
+      - `name` (text) e.g. "End of season"
+      - `starts_at`, `ends_at` (timestamp) when the markdown prices apply
+      - `applied_at` (timestamp) when the prices were switched over
+      - `reverted_at` (timestamp) when the original prices were put back
+      - `cancelled_at` (timestamp) ended early, or called off before it started
+      - `created_by` (uuid) who scheduled it
+    - `markdown_items` the products in a markdown
+      - `markdown_id`, `product_id` (uuid, primary key, foreign keys)
+      - `sell_price` (numeric) the markdown price
+      - `original_price` (numeric) the sell price it replaced, recorded when the markdown starts
+
+  2. New Functions
+    - `reprice_products(items jsonb)` sets new sell prices for a list of `{ product_id, sell_price }`
+      in one transaction. Runs as the caller, so `products.edit` is needed.
+    - `schedule_markdown(name, starts_at, ends_at, items)` adds a markdown for a list of
+      `{ product_id, sell_price }`. A product can only be in one markdown at a time.
+    - `end_markdown(markdown_id)` ends a running markdown now, or calls off one that has not started
+    - `apply_markdowns()` switches prices over for markdowns that are due to start and back for
+      those that have ended. pg_cron runs it every minute; the functions above run it straight
+      away so a markdown starting now does not wait for the next run.
+
+  3. Reverting
+    - A product goes back to its original price only if its sell price is still the markdown
+      price. If someone changed it by hand in the meantime, their price is kept.
+    - Variants with their own price are not touched; the rest follow the product as usual
+
+  4. Security
+    - Every role with `products.view` can read markdowns; only the functions above change them
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+CREATE TABLE IF NOT EXISTS markdowns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  applied_at timestamptz,
+  reverted_at timestamptz,
+  cancelled_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS markdown_items (
+  markdown_id uuid NOT NULL REFERENCES markdowns(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sell_price numeric(10,2) NOT NULL CHECK (sell_price >= 0),
+  original_price numeric(10,2),
+  PRIMARY KEY (markdown_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS markdowns_pending_idx ON markdowns (starts_at) WHERE reverted_at IS NULL;
+CREATE INDEX IF NOT EXISTS markdown_items_product_id_idx ON markdown_items (product_id);
+
+ALTER TABLE markdowns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE markdown_items ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON markdowns, markdown_items FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON markdowns, markdown_items FROM authenticated;
+
+CREATE POLICY "Product viewers can read markdowns"
+  ON markdowns FOR SELECT
+  TO authenticated
+  USING (has_permission('products.view'));
+
+CREATE POLICY "Product viewers can read markdown_items"
+  ON markdown_items FOR SELECT
+  TO authenticated
+  USING (has_permission('products.view'));
+
+CREATE OR REPLACE FUNCTION reprice_products(items jsonb)
+RETURNS integer AS $$
+DECLARE
+  item jsonb;
+  repriced integer := 0;
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to change prices' USING ERRCODE = '42501';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+    IF (item ->> 'sell_price')::numeric < 0 THEN
+      RAISE EXCEPTION 'Prices cannot be negative' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE products
+    SET sell_price = (item ->> 'sell_price')::numeric
+    WHERE id = (item ->> 'product_id')::uuid;
+
+    repriced := repriced + 1;
+  END LOOP;
+
+  RETURN repriced;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION apply_markdowns()
+RETURNS void AS $$
+DECLARE
+  markdown markdowns%ROWTYPE;
+BEGIN
+  -- Ended, or cancelled while running: put back prices nobody has changed since
+  FOR markdown IN
+    SELECT * FROM markdowns
+    WHERE applied_at IS NOT NULL AND reverted_at IS NULL
+      AND (ends_at <= now() OR cancelled_at IS NOT NULL)
+    FOR UPDATE
+  LOOP
+    UPDATE products p
+    SET sell_price = i.original_price
+    FROM markdown_items i
+    WHERE i.markdown_id = markdown.id AND p.id = i.product_id AND p.sell_price = i.sell_price;
+
+    UPDATE markdowns SET reverted_at = now() WHERE id = markdown.id;
+  END LOOP;
+
+  -- Due to start and not over yet; one whose whole window passed unnoticed is skipped
+  FOR markdown IN
+    SELECT * FROM markdowns
+    WHERE applied_at IS NULL AND cancelled_at IS NULL
+      AND starts_at <= now() AND ends_at > now()
+    ORDER BY starts_at
+    FOR UPDATE
+  LOOP
+    UPDATE markdown_items i
+    SET original_price = p.sell_price
+    FROM products p
+    WHERE i.markdown_id = markdown.id AND p.id = i.product_id;
+
+    UPDATE products p
+    SET sell_price = i.sell_price
+    FROM markdown_items i
+    WHERE i.markdown_id = markdown.id AND p.id = i.product_id;
+
+    UPDATE markdowns SET applied_at = now() WHERE id = markdown.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION schedule_markdown(name text, starts_at timestamptz, ends_at timestamptz, items jsonb)
+RETURNS uuid AS $$
+DECLARE
+  new_markdown_id uuid;
+  clash text;
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to change prices' USING ERRCODE = '42501';
+  END IF;
+  IF coalesce(btrim(name), '') = '' THEN
+    RAISE EXCEPTION 'The markdown needs a name' USING ERRCODE = '23502';
+  END IF;
+  IF ends_at <= starts_at OR ends_at <= now() THEN
+    RAISE EXCEPTION 'The markdown must end after it starts, and in the future' USING ERRCODE = '23514';
+  END IF;
+  IF jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'The markdown has no products' USING ERRCODE = '23514';
+  END IF;
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(items) WHERE (value ->> 'sell_price')::numeric < 0) THEN
+    RAISE EXCEPTION 'Prices cannot be negative' USING ERRCODE = '23514';
+  END IF;
+
+  SELECT p.name || ' is already in ' || m.name INTO clash
+  FROM jsonb_array_elements(items) item
+  JOIN markdown_items i ON i.product_id = (item.value ->> 'product_id')::uuid
+  JOIN markdowns m ON m.id = i.markdown_id
+  JOIN products p ON p.id = i.product_id
+  WHERE m.reverted_at IS NULL AND (m.cancelled_at IS NULL OR m.applied_at IS NOT NULL)
+    AND m.starts_at < schedule_markdown.ends_at AND m.ends_at > schedule_markdown.starts_at
+  LIMIT 1;
+
+  IF clash IS NOT NULL THEN
+    RAISE EXCEPTION '% for some of those dates', clash USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO markdowns (name, starts_at, ends_at, created_by)
+  VALUES (btrim(name), starts_at, ends_at, auth.uid())
+  RETURNING id INTO new_markdown_id;
+
+  INSERT INTO markdown_items (markdown_id, product_id, sell_price)
+  SELECT new_markdown_id, (value ->> 'product_id')::uuid, (value ->> 'sell_price')::numeric
+  FROM jsonb_array_elements(items);
+
+  PERFORM apply_markdowns();
+  RETURN new_markdown_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION end_markdown(markdown_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to change prices' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE markdowns
+  SET cancelled_at = now()
+  WHERE id = end_markdown.markdown_id AND reverted_at IS NULL AND cancelled_at IS NULL;
+
+  PERFORM apply_markdowns();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION reprice_products(jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION schedule_markdown(text, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION end_markdown(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION apply_markdowns() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reprice_products(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION schedule_markdown(text, timestamptz, timestamptz, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_markdown(uuid) TO authenticated;
+
+SELECT cron.schedule('apply-markdowns', '* * * * *', 'SELECT public.apply_markdowns()');
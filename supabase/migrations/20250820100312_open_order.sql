@@ -0,0 +1,321 @@
+/*
+  # Suppliers and purchase orders
+
+  1. New Tables
+    - `suppliers`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `contact_name`, `phone`, `email`, `notes` (text)
+    - `purchase_orders`
+      - `id` (uuid, primary key)
+      - `reference` (text, unique) PO-00001, PO-00002, ...
+      - `supplier_id` (uuid, foreign key)
+      - `status` (text) `draft`, `sent`, `partially_received` or `received`
+      - `expected_date` (date), `notes` (text)
+      - `sent_at` (timestamp), `created_by` (uuid), `created_at` (timestamp)
+    - `purchase_order_lines`
+      - `id` (uuid, primary key)
+      - `purchase_order_id`, `product_id`, `variant_id` (uuid, foreign keys)
+      - `quantity_ordered`, `quantity_received` (integer)
+      - `unit_cost` (numeric)
+    - `supplier_payments` money paid to a supplier
+      - `id` (uuid, primary key)
+      - `supplier_id` (uuid, foreign key)
+      - `amount` (numeric), `paid_on` (date), `reference` (text)
+      - `recorded_by` (uuid), `created_at` (timestamp)
+
+  2. Changes
+    - `stock_entries.purchase_order_line_id` the order line a delivery was booked against
+    - `supplier_balances` view: per supplier, the value still to be delivered on open orders,
+      the value received, what has been paid and what is owed (received less paid)
+
+  3. New Functions
+    - `save_purchase_order(order_id, supplier_id, expected_date, notes, lines)` creates a draft,
+      or replaces a draft's details and lines. `lines` is a list of
+      `{ product_id, variant_id, quantity_ordered, unit_cost }`.
+    - `send_purchase_order(order_id)` marks a draft sent; its lines can no longer change
+    - `receive_purchase_order(order_id, lines)` books a delivery of `{ line_id, quantity }`:
+      each line with a quantity becomes a stock entry, and the order becomes partially
+      received or received
+
+  4. Security
+    - Everything here needs the new `purchasing.manage` permission, given to super_admin and admin
+    - Suppliers and payments are edited directly; orders and lines only through the functions
+      above, which check the order's status. Drafts can be deleted.
+*/
+
+INSERT INTO permissions (key, description) VALUES
+  ('purchasing.manage', 'Manage suppliers, purchase orders and supplier payments')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('super_admin', 'purchasing.manage'),
+  ('admin', 'purchasing.manage')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL CHECK (btrim(name) <> ''),
+  contact_name text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  notes text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_reference_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text UNIQUE NOT NULL DEFAULT 'PO-' || lpad(nextval('purchase_order_reference_seq')::text, 5, '0'),
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received')),
+  expected_date date,
+  notes text NOT NULL DEFAULT '',
+  sent_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE RESTRICT,
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost numeric(10,2) NOT NULL CHECK (unit_cost >= 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE TABLE IF NOT EXISTS supplier_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  paid_on date NOT NULL DEFAULT CURRENT_DATE,
+  reference text NOT NULL DEFAULT '',
+  recorded_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stock_entries
+  ADD COLUMN IF NOT EXISTS purchase_order_line_id uuid REFERENCES purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_id_idx ON purchase_orders (supplier_id);
+CREATE INDEX IF NOT EXISTS purchase_orders_status_idx ON purchase_orders (status);
+CREATE INDEX IF NOT EXISTS purchase_order_lines_order_id_idx ON purchase_order_lines (purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_order_lines_product_id_idx ON purchase_order_lines (product_id);
+CREATE INDEX IF NOT EXISTS supplier_payments_supplier_id_idx ON supplier_payments (supplier_id, paid_on DESC);
+CREATE INDEX IF NOT EXISTS stock_entries_purchase_order_line_id_idx ON stock_entries (purchase_order_line_id);
+
+CREATE TRIGGER trigger_check_purchase_order_line_variant
+  BEFORE INSERT OR UPDATE OF product_id, variant_id ON purchase_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION check_movement_variant();
+
+CREATE TRIGGER audit_purchase_orders
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_supplier_payments
+  AFTER INSERT OR UPDATE OR DELETE ON supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_payments ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON suppliers, purchase_orders, purchase_order_lines, supplier_payments FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON purchase_order_lines FROM authenticated;
+REVOKE INSERT, UPDATE ON purchase_orders FROM authenticated;
+REVOKE UPDATE, DELETE ON supplier_payments FROM authenticated;
+
+CREATE POLICY "Purchasing managers can manage suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (has_permission('purchasing.manage'))
+  WITH CHECK (has_permission('purchasing.manage'));
+
+CREATE POLICY "Purchasing managers can read purchase_orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (has_permission('purchasing.manage'));
+
+CREATE POLICY "Purchasing managers can delete draft purchase_orders"
+  ON purchase_orders FOR DELETE
+  TO authenticated
+  USING (has_permission('purchasing.manage') AND status = 'draft');
+
+CREATE POLICY "Purchasing managers can read purchase_order_lines"
+  ON purchase_order_lines FOR SELECT
+  TO authenticated
+  USING (has_permission('purchasing.manage'));
+
+CREATE POLICY "Purchasing managers can read supplier_payments"
+  ON supplier_payments FOR SELECT
+  TO authenticated
+  USING (has_permission('purchasing.manage'));
+
+CREATE POLICY "Purchasing managers can add supplier_payments"
+  ON supplier_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('purchasing.manage'));
+
+-- Runs as the caller, so the policies above decide what each person sees
+CREATE OR REPLACE VIEW supplier_balances WITH (security_invoker = true) AS
+  SELECT
+    s.id AS supplier_id,
+    coalesce(o.open_orders, 0) AS open_orders,
+    coalesce(o.outstanding_value, 0) AS outstanding_value,
+    coalesce(o.received_value, 0) AS received_value,
+    coalesce(p.paid, 0) AS paid,
+    coalesce(o.received_value, 0) - coalesce(p.paid, 0) AS balance
+  FROM suppliers s
+  LEFT JOIN (
+    SELECT
+      po.supplier_id,
+      count(DISTINCT po.id) FILTER (WHERE po.status IN ('sent', 'partially_received')) AS open_orders,
+      sum((l.quantity_ordered - l.quantity_received) * l.unit_cost)
+        FILTER (WHERE po.status IN ('sent', 'partially_received')) AS outstanding_value,
+      sum(l.quantity_received * l.unit_cost) AS received_value
+    FROM purchase_orders po
+    JOIN purchase_order_lines l ON l.purchase_order_id = po.id
+    GROUP BY po.supplier_id
+  ) o ON o.supplier_id = s.id
+  LEFT JOIN (
+    SELECT supplier_id, sum(amount) AS paid
+    FROM supplier_payments
+    GROUP BY supplier_id
+  ) p ON p.supplier_id = s.id;
+
+REVOKE ALL ON supplier_balances FROM anon;
+GRANT SELECT ON supplier_balances TO authenticated;
+
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  order_id uuid,
+  supplier_id uuid,
+  expected_date date,
+  notes text,
+  lines jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_id uuid := order_id;
+BEGIN
+  IF NOT has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+  IF jsonb_array_length(lines) = 0 THEN
+    RAISE EXCEPTION 'The order has no lines' USING ERRCODE = '23514';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+    VALUES (save_purchase_order.supplier_id, save_purchase_order.expected_date, coalesce(btrim(save_purchase_order.notes), ''), auth.uid())
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE purchase_orders
+    SET supplier_id = save_purchase_order.supplier_id,
+      expected_date = save_purchase_order.expected_date,
+      notes = coalesce(btrim(save_purchase_order.notes), '')
+    WHERE id = saved_id AND status = 'draft';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only draft orders can be changed' USING ERRCODE = '55000';
+    END IF;
+
+    DELETE FROM purchase_order_lines WHERE purchase_order_id = saved_id;
+  END IF;
+
+  INSERT INTO purchase_order_lines (purchase_order_id, product_id, variant_id, quantity_ordered, unit_cost)
+  SELECT saved_id, (value ->> 'product_id')::uuid, (value ->> 'variant_id')::uuid,
+    (value ->> 'quantity_ordered')::integer, (value ->> 'unit_cost')::numeric
+  FROM jsonb_array_elements(lines);
+
+  RETURN saved_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION send_purchase_order(order_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = 'sent', sent_at = now()
+  WHERE id = order_id AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft orders can be sent' USING ERRCODE = '55000';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(order_id uuid, lines jsonb)
+RETURNS void AS $$
+DECLARE
+  item jsonb;
+  line purchase_order_lines%ROWTYPE;
+  received integer;
+BEGIN
+  IF NOT has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM purchase_orders
+  WHERE id = order_id AND status IN ('sent', 'partially_received')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only sent orders can be received' USING ERRCODE = '55000';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(lines) LOOP
+    received := coalesce((item ->> 'quantity')::integer, 0);
+    CONTINUE WHEN received = 0;
+
+    SELECT * INTO line FROM purchase_order_lines
+    WHERE id = (item ->> 'line_id')::uuid AND purchase_order_id = order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on this order' USING ERRCODE = '23503';
+    END IF;
+    IF received < 0 OR line.quantity_received + received > line.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % of a line with % still to come', received,
+        line.quantity_ordered - line.quantity_received USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + received
+    WHERE id = line.id;
+
+    INSERT INTO stock_entries (product_id, variant_id, quantity, purchase_order_line_id)
+    VALUES (line.product_id, line.variant_id, received, line.id);
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = order_id AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = order_id AND quantity_received > 0
+    ) THEN 'partially_received'
+    ELSE status
+  END
+  WHERE id = order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION save_purchase_order(uuid, uuid, date, text, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION send_purchase_order(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION receive_purchase_order(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_purchase_order(uuid, uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_purchase_order(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_purchase_order(uuid, jsonb) TO authenticated;
@@ -0,0 +1,24 @@
+/*
+  # Hold back database access until a temporary password is changed
+
+  1. Security
+    - `is_session_active()` treats the sessions of users with `must_change_password` as
+      inactive, so a temporary or reset password cannot be used against the API directly.
+      Access comes back on the same session as soon as the password is changed.
+*/
+
+CREATE OR REPLACE FUNCTION is_session_active(session_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions
+    JOIN users ON users.id = sessions.user_id
+    WHERE sessions.id = session_id
+      AND users.is_active
+      AND NOT users.must_change_password
+      AND sessions.revoked_at IS NULL
+      AND sessions.expires_at > now()
+      AND sessions.last_seen_at > now() - make_interval(mins => coalesce(
+        (SELECT value::integer FROM settings WHERE key = 'session_idle_minutes'), 30
+      ))
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,161 @@
+/*
+  # Product writes for editors who cannot see cost
+
+  1. New Functions
+    - `save_product(product_id uuid, product jsonb)` adds a product (when `product_id` is null)
+      or updates one, and returns its id. `buy_price` is only written when the payload carries it,
+      so editors without `cost.view` leave the stored cost alone.
+    - `set_product_archived(product_id uuid, archived boolean)` archives or restores a product
+    - `delete_product(product_id uuid)` deletes a product without history
+
+  2. Changes
+    - `import_products` and `reprice_products` now run as definer; `import_products` checks
+      `stock.edit` itself before recording opening stock
+
+  3. Notes
+    - The `products` SELECT policy needs `cost.view`, and UPDATE, DELETE and INSERT ... RETURNING
+      only reach rows the caller can select. Roles with `products.edit` but not `cost.view` were
+      silently matching no rows, so product writes go through these functions, which check the
+      write permission instead.
+*/
+
+CREATE OR REPLACE FUNCTION save_product(product_id uuid, product jsonb)
+RETURNS uuid AS $$
+DECLARE
+  saved_id uuid := product_id;
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO products (name, sku, buy_price, sell_price, category_id, brand_id, collection_id,
+      reorder_point, reorder_quantity)
+    VALUES (
+      product ->> 'name',
+      coalesce(product ->> 'sku', ''),
+      coalesce((product ->> 'buy_price')::numeric, 0),
+      (product ->> 'sell_price')::numeric,
+      (product ->> 'category_id')::uuid,
+      (product ->> 'brand_id')::uuid,
+      (product ->> 'collection_id')::uuid,
+      coalesce((product ->> 'reorder_point')::integer, 0),
+      coalesce((product ->> 'reorder_quantity')::integer, 0)
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE products p
+    SET name = product ->> 'name',
+      sku = product ->> 'sku',
+      buy_price = CASE WHEN product ? 'buy_price' THEN (product ->> 'buy_price')::numeric ELSE p.buy_price END,
+      sell_price = (product ->> 'sell_price')::numeric,
+      category_id = (product ->> 'category_id')::uuid,
+      brand_id = (product ->> 'brand_id')::uuid,
+      collection_id = (product ->> 'collection_id')::uuid,
+      reorder_point = coalesce((product ->> 'reorder_point')::integer, 0),
+      reorder_quantity = coalesce((product ->> 'reorder_quantity')::integer, 0)
+    WHERE p.id = saved_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  RETURN saved_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_product_archived(product_id uuid, archived boolean)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE products
+  SET archived_at = CASE WHEN archived THEN coalesce(archived_at, now()) END
+  WHERE id = set_product_archived.product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION delete_product(product_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('products.delete') THEN
+    RAISE EXCEPTION 'You are not allowed to delete products' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM products WHERE id = delete_product.product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION import_products(items jsonb)
+RETURNS integer AS $$
+DECLARE
+  item jsonb;
+  row_label text;
+  new_product_id uuid;
+  buy numeric;
+  sell numeric;
+  opening integer;
+  imported integer := 0;
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to add products' USING ERRCODE = '42501';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+    row_label := 'Row ' || coalesce(item ->> 'row', (imported + 1)::text);
+    buy := (item ->> 'buy_price')::numeric;
+    sell := (item ->> 'sell_price')::numeric;
+    opening := coalesce((item ->> 'quantity')::integer, 0);
+
+    IF coalesce(btrim(item ->> 'name'), '') = '' OR coalesce(btrim(item ->> 'sku'), '') = '' THEN
+      RAISE EXCEPTION '%: name and SKU are required', row_label USING ERRCODE = '23502';
+    END IF;
+    IF buy < 0 OR sell < 0 OR opening < 0 THEN
+      RAISE EXCEPTION '%: prices and quantity cannot be negative', row_label USING ERRCODE = '23514';
+    END IF;
+    IF sell < buy THEN
+      RAISE EXCEPTION '%: sell price is below buy price', row_label USING ERRCODE = '23514';
+    END IF;
+    IF opening > 0 AND NOT has_permission('stock.edit') THEN
+      RAISE EXCEPTION '%: you are not allowed to record opening stock', row_label USING ERRCODE = '42501';
+    END IF;
+
+    BEGIN
+      INSERT INTO products (name, sku, buy_price, sell_price)
+      VALUES (btrim(item ->> 'name'), btrim(item ->> 'sku'), buy, sell)
+      RETURNING id INTO new_product_id;
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION '%: SKU % already exists', row_label, btrim(item ->> 'sku') USING ERRCODE = '23505';
+    END;
+
+    IF opening > 0 THEN
+      INSERT INTO stock_entries (product_id, quantity)
+      VALUES (new_product_id, opening);
+    END IF;
+
+    imported := imported + 1;
+  END LOOP;
+
+  RETURN imported;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER FUNCTION reprice_products(jsonb) SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION save_product(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_product_archived(uuid, boolean) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION delete_product(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_product(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_product_archived(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_product(uuid) TO authenticated;
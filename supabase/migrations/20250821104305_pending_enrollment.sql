@@ -0,0 +1,27 @@
+/*
+  # Hold back database access until required two-factor sign-in is set up
+
+  1. Security
+    - `is_session_active()` also treats sessions as inactive while the user's role has
+      `requires_two_factor` and the user has not enrolled, so a password alone no longer
+      reaches the API directly. Access comes back on the same session once enrollment
+      is complete.
+*/
+
+CREATE OR REPLACE FUNCTION is_session_active(session_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions
+    JOIN users ON users.id = sessions.user_id
+    JOIN roles ON roles.key = users.role
+    WHERE sessions.id = session_id
+      AND users.is_active
+      AND NOT users.must_change_password
+      AND (users.totp_enabled_at IS NOT NULL OR NOT roles.requires_two_factor)
+      AND sessions.revoked_at IS NULL
+      AND sessions.expires_at > now()
+      AND sessions.last_seen_at > now() - make_interval(mins => coalesce(
+        (SELECT value::integer FROM settings WHERE key = 'session_idle_minutes'), 30
+      ))
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
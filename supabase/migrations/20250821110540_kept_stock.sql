@@ -0,0 +1,74 @@
+/*
+  # Keep stock when variants are added or removed
+
+  1. Changes
+    - `stock_entries.variant_id` and `sales.variant_id` now use ON DELETE RESTRICT, so a variant
+      with any sale or stock movement can no longer be deleted
+    - A variant that still holds stock cannot be deleted either; deleting it used to quietly
+      take that stock off the parent product
+    - When a product gets its first variant, the stock it already held moves onto that variant.
+      Movements must name a variant from then on, so stock left on the parent could never be sold.
+
+  2. Notes
+    - Variants removed along with their product are not checked, since the product delete is
+      already refused while it has history
+    - The parent's quantity is left as it was during the move, so no low-stock alert fires
+*/
+
+ALTER TABLE stock_entries DROP CONSTRAINT IF EXISTS stock_entries_variant_id_fkey;
+ALTER TABLE stock_entries
+  ADD CONSTRAINT stock_entries_variant_id_fkey
+  FOREIGN KEY (variant_id) REFERENCES product_variants(id) ON DELETE RESTRICT;
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_variant_id_fkey;
+ALTER TABLE sales
+  ADD CONSTRAINT sales_variant_id_fkey
+  FOREIGN KEY (variant_id) REFERENCES product_variants(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION check_variant_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.quantity <> 0 AND EXISTS (SELECT 1 FROM products WHERE id = OLD.product_id) THEN
+    RAISE EXCEPTION 'Variant % still has % in stock', OLD.sku, OLD.quantity USING ERRCODE = '23503';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_check_variant_delete
+  BEFORE DELETE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION check_variant_delete();
+
+-- The first variant takes over whatever the parent held. The parent's total does not change:
+-- on insert the sync trigger below sets it to the sum of its variants instead of adding to it.
+CREATE OR REPLACE FUNCTION move_parent_stock_to_first_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM product_variants WHERE product_id = NEW.product_id) THEN
+    NEW.quantity := NEW.quantity + coalesce((SELECT quantity FROM products WHERE id = NEW.product_id), 0);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_move_parent_stock_to_first_variant
+  BEFORE INSERT ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION move_parent_stock_to_first_variant();
+
+CREATE OR REPLACE FUNCTION sync_product_quantity_from_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE products
+    SET quantity = (SELECT sum(quantity) FROM product_variants WHERE product_id = NEW.product_id)
+    WHERE id = NEW.product_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE products SET quantity = quantity - OLD.quantity WHERE id = OLD.product_id;
+  ELSIF NEW.quantity <> OLD.quantity THEN
+    UPDATE products SET quantity = quantity + NEW.quantity - OLD.quantity WHERE id = NEW.product_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,21 @@
+/*
+  # Sales summary for the search and date range in use
+
+  1. Changes
+    - `sales_summary(term, date_from, date_to)` totals only the sales the Sales page is listing:
+      those `search_sales(term)` finds, dated within the range. Every argument is optional, and
+      leaving them all out still totals every sale the caller can read.
+*/
+
+DROP FUNCTION IF EXISTS sales_summary();
+
+CREATE OR REPLACE FUNCTION sales_summary(term text DEFAULT '', date_from date DEFAULT NULL, date_to date DEFAULT NULL)
+RETURNS TABLE (revenue numeric, sales_count bigint, items_sold bigint) AS $$
+  SELECT coalesce(sum(price * quantity), 0), count(*), coalesce(sum(quantity), 0)
+  FROM search_sales(term)
+  WHERE (date_from IS NULL OR date >= date_from)
+    AND (date_to IS NULL OR date <= date_to)
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION sales_summary(text, date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sales_summary(text, date, date) TO authenticated;
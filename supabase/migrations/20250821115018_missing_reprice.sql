@@ -0,0 +1,38 @@
+/*
+  # Refuse bulk repricing of products that do not exist
+
+  1. Changes
+    - `reprice_products` counted every item it was given, including ids that matched no product,
+      such as a product deleted while the Pricing page was open. Such an item now fails the whole
+      batch with "Product not found", so the count returned is always the products repriced.
+*/
+
+CREATE OR REPLACE FUNCTION reprice_products(items jsonb)
+RETURNS integer AS $$
+DECLARE
+  item jsonb;
+  repriced integer := 0;
+BEGIN
+  IF NOT has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to change prices' USING ERRCODE = '42501';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+    IF (item ->> 'sell_price')::numeric < 0 THEN
+      RAISE EXCEPTION 'Prices cannot be negative' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE products
+    SET sell_price = (item ->> 'sell_price')::numeric
+    WHERE id = (item ->> 'product_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    repriced := repriced + 1;
+  END LOOP;
+
+  RETURN repriced;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,11 @@
+/*
+  # Audit purchase order lines
+
+  1. Changes
+    - Adding, changing or removing a line on a purchase order, and receiving stock against it,
+      is now recorded in the audit log like the order itself
+*/
+
+CREATE TRIGGER audit_purchase_order_lines
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_order_lines
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
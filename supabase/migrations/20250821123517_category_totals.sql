@@ -0,0 +1,32 @@
+/*
+  # Sales totals by category
+
+  1. New Functions
+    - `sales_by_category(since date)` units sold, revenue and cost per category for the sales
+      dated on or after `since`, for the Analytics page. Products without a category are grouped
+      as "Uncategorised".
+
+  2. Notes
+    - Products are read through `product_catalog`, so roles without `cost.view` still get their
+      categories. `cost` is null for those roles rather than a total of the costs they cannot see.
+    - Totalling in the database also keeps the page clear of the API's cap on rows per request
+*/
+
+CREATE OR REPLACE FUNCTION sales_by_category(since date)
+RETURNS TABLE (category text, units_sold bigint, revenue numeric, cost numeric) AS $$
+  SELECT
+    coalesce(c.name, 'Uncategorised'),
+    sum(s.quantity),
+    sum(s.price * s.quantity),
+    CASE WHEN has_permission('cost.view') THEN coalesce(sum(sc.unit_cost * s.quantity), 0) END
+  FROM sales s
+  JOIN product_catalog p ON p.id = s.product_id
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN sale_costs sc ON sc.sale_id = s.id
+  WHERE s.date >= since
+  GROUP BY coalesce(c.name, 'Uncategorised')
+  ORDER BY sum(s.price * s.quantity) DESC
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION sales_by_category(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sales_by_category(date) TO authenticated;
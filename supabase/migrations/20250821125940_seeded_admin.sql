@@ -0,0 +1,34 @@
+/*
+  # Remove the seeded admin by its seed hashes
+
+  1. Data
+    - Remove the seeded `admin` account when it still has one of the hashes the earlier
+      migrations seeded and never recorded a sale
+    - If that account has been used, keep it but force a password change at next login
+    - Clear `setup_completed_at` again if no users remain, so first-run setup can start
+
+  2. Notes
+    - The cleanup in bright_summit matched the account by checking `admin123` against its hash,
+      but neither seeded hash is actually the hash of `admin123`. The account was never found,
+      and setup was marked complete because of it.
+*/
+
+DELETE FROM users
+WHERE username = 'admin'
+  AND (password IN (
+      '$2a$10$rOvHdyAiM3vKjGlgEWJK/ue5qC8jG8qBjFoqFVWcMZlGjEjKz6lBS',
+      '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi'
+    ) OR password = extensions.crypt('admin123', password))
+  AND NOT EXISTS (SELECT 1 FROM sales WHERE sales.recorded_by_user_id = users.id);
+
+UPDATE users
+SET must_change_password = true
+WHERE username = 'admin'
+  AND (password IN (
+      '$2a$10$rOvHdyAiM3vKjGlgEWJK/ue5qC8jG8qBjFoqFVWcMZlGjEjKz6lBS',
+      '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi'
+    ) OR password = extensions.crypt('admin123', password));
+
+DELETE FROM settings
+WHERE key = 'setup_completed_at'
+  AND NOT EXISTS (SELECT 1 FROM users);
@@ -0,0 +1,743 @@
+/*
+  # Row level security policies
+
+  Run against the local stack with `supabase start` followed by `supabase test db`.
+  Each block impersonates a role by setting the same claims auth-helpers signs
+  into session tokens; everything runs in one transaction and is rolled back.
+*/
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(98);
+
+-- Fixtures (inserted as the table owner, so RLS does not apply)
+INSERT INTO users (id, username, password, role) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'rls_super', 'x', 'super_admin'),
+  ('00000000-0000-0000-0000-000000000002', 'rls_admin', 'x', 'admin'),
+  ('00000000-0000-0000-0000-000000000003', 'rls_staff', 'x', 'sales_staff');
+
+INSERT INTO roles (key, name) VALUES ('rls_viewer', 'RLS Viewer');
+INSERT INTO role_permissions (role, permission) VALUES ('rls_viewer', 'sales.view');
+INSERT INTO users (id, username, password, role) VALUES
+  ('00000000-0000-0000-0000-000000000004', 'rls_viewer', 'x', 'rls_viewer');
+
+INSERT INTO sessions (id, user_id, expires_at) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-000000000001', now() + interval '1 hour'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-000000000002', now() + interval '1 hour'),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-000000000003', now() + interval '1 hour'),
+  ('00000000-0000-0000-0000-0000000000b4', '00000000-0000-0000-0000-000000000004', now() + interval '1 hour');
+
+INSERT INTO products (id, name, sku, buy_price, sell_price, quantity) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'RLS Test Shirt', 'RLS-SHIRT', 500, 1000, 10),
+  ('00000000-0000-0000-0000-0000000000a2', 'RLS Test Chino', 'RLS-CHINO', 800, 1500, 0);
+UPDATE products SET reorder_point = 9 WHERE sku = 'RLS-SHIRT';
+
+INSERT INTO categories (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'RLS Shirts');
+UPDATE products SET category_id = '00000000-0000-0000-0000-0000000000d1' WHERE sku = 'RLS-SHIRT';
+
+INSERT INTO product_variants (id, product_id, size, colour, sku) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', '32', 'Khaki', 'RLS-CHINO-32-KHAKI');
+
+-- Sales staff
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000003", "sid": "00000000-0000-0000-0000-0000000000b3", "role": "authenticated", "app_role": "sales_staff"}';
+
+SELECT is_empty(
+  $$ SELECT id FROM products $$,
+  'sales staff cannot read products directly'
+);
+
+SELECT results_eq(
+  $$ SELECT name FROM product_catalog WHERE sku = 'RLS-SHIRT' $$,
+  ARRAY['RLS Test Shirt'],
+  'sales staff can read the product catalog'
+);
+
+SELECT throws_ok(
+  $$ SELECT buy_price FROM product_catalog $$,
+  '42703',
+  NULL,
+  'the product catalog does not expose buy_price'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO sales (product_id, quantity, price, recorded_by_user_id)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', 1, 1000, '00000000-0000-0000-0000-000000000003') $$,
+  'sales staff can record a sale attributed to themselves'
+);
+
+SELECT is(
+  (SELECT quantity FROM product_catalog WHERE sku = 'RLS-SHIRT'),
+  9,
+  'a sale by sales staff still decrements stock'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO sales (product_id, quantity, price, recorded_by_user_id)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', 1, 1000, '00000000-0000-0000-0000-000000000002') $$,
+  '42501',
+  NULL,
+  'sales staff cannot attribute a sale to someone else'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO stock_entries (product_id, quantity)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', 5) $$,
+  '42501',
+  NULL,
+  'sales staff cannot add stock'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM users $$,
+  'sales staff cannot read users'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM product_variants WHERE sku = 'RLS-CHINO-32-KHAKI' $$,
+  'sales staff can read product variants'
+);
+
+SELECT results_eq(
+  $$ SELECT c.name FROM product_catalog p JOIN categories c ON c.id = p.category_id WHERE p.sku = 'RLS-SHIRT' $$,
+  ARRAY['RLS Shirts'],
+  'sales staff can see which category a product is in'
+);
+
+SELECT results_eq(
+  $$ SELECT sku FROM search_product_catalog('rls test sh') $$,
+  ARRAY['RLS-SHIRT'],
+  'sales staff can search the catalog by name'
+);
+
+SELECT results_eq(
+  $$ SELECT sku FROM search_product_catalog('32-khaki') $$,
+  ARRAY['RLS-CHINO'],
+  'catalog search matches variant SKUs'
+);
+
+SELECT throws_ok(
+  $$ SELECT reprice_products('[]') $$,
+  '42501',
+  NULL,
+  'sales staff cannot change prices in bulk'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO categories (name) VALUES ('RLS Staff Category') $$,
+  '42501',
+  NULL,
+  'sales staff cannot add categories'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM notifications $$,
+  'sales staff cannot read low-stock notifications'
+);
+
+SELECT results_eq(
+  $$ SELECT list_price FROM sales WHERE recorded_by_user_id = '00000000-0000-0000-0000-000000000003' $$,
+  ARRAY[1000::numeric(10,2)],
+  'sales record the list price at the time of sale'
+);
+
+SELECT is_empty(
+  $$ SELECT sale_id FROM sale_costs $$,
+  'sales staff cannot read sale costs'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO product_images (product_id, path, thumbnail_path)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', 'staff.jpg', 'staff-thumb.jpg') $$,
+  '42501',
+  NULL,
+  'sales staff cannot add product images'
+);
+
+SELECT throws_ok(
+  $$ SELECT import_products('[{"row": 2, "name": "RLS Staff Import", "sku": "RLS-STAFF-IMPORT", "buy_price": 1, "sell_price": 2, "quantity": 0}]') $$,
+  '42501',
+  NULL,
+  'sales staff cannot import products'
+);
+
+SELECT isnt_empty(
+  $$ SELECT username FROM staff_directory $$,
+  'sales staff can resolve who recorded a sale'
+);
+
+UPDATE settings SET value = 'USD' WHERE key = 'currency';
+SELECT is(
+  (SELECT value FROM settings WHERE key = 'currency'),
+  'KES',
+  'sales staff cannot change settings'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO suppliers (name) VALUES ('RLS Staff Supplier') $$,
+  '42501',
+  NULL,
+  'sales staff cannot add suppliers'
+);
+
+SELECT throws_ok(
+  $$ SELECT save_purchase_order(NULL, NULL, NULL, '', '[{"product_id": "00000000-0000-0000-0000-0000000000a1", "quantity_ordered": 1, "unit_cost": 1}]') $$,
+  '42501',
+  NULL,
+  'sales staff cannot raise purchase orders'
+);
+
+-- Admin
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000002", "sid": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated", "app_role": "admin"}';
+
+SELECT results_eq(
+  $$ SELECT buy_price FROM products WHERE sku = 'RLS-SHIRT' $$,
+  ARRAY[500::numeric(10,2)],
+  'admins can read buy_price'
+);
+
+SELECT results_eq(
+  $$ SELECT c.unit_cost FROM sale_costs c JOIN sales s ON s.id = c.sale_id
+     WHERE s.recorded_by_user_id = '00000000-0000-0000-0000-000000000003' $$,
+  ARRAY[500::numeric(10,2)],
+  'sales record the unit cost at the time of sale'
+);
+
+UPDATE products SET buy_price = 600 WHERE sku = 'RLS-SHIRT';
+
+SELECT results_eq(
+  $$ SELECT c.unit_cost FROM sale_costs c JOIN sales s ON s.id = c.sale_id
+     WHERE s.recorded_by_user_id = '00000000-0000-0000-0000-000000000003' $$,
+  ARRAY[500::numeric(10,2)],
+  'changing a buy price does not rewrite past sale costs'
+);
+
+SELECT results_eq(
+  $$ SELECT buy_price FROM product_prices
+     WHERE product_id = '00000000-0000-0000-0000-0000000000a1'
+     ORDER BY effective_from, effective_to NULLS LAST $$,
+  ARRAY[500::numeric(10,2), 600::numeric(10,2)],
+  'a price change opens a new price period'
+);
+
+SELECT results_eq(
+  $$ SELECT message FROM notifications WHERE product_id = '00000000-0000-0000-0000-0000000000a1' $$,
+  ARRAY['RLS Test Shirt is down to 9 (reorder point 9)'],
+  'a sale reaching the reorder point notifies stock managers'
+);
+
+UPDATE notifications SET read_at = now() WHERE product_id = '00000000-0000-0000-0000-0000000000a1';
+SELECT is_empty(
+  $$ SELECT id FROM notifications WHERE product_id = '00000000-0000-0000-0000-0000000000a1' AND read_at IS NULL $$,
+  'stock managers can mark notifications read'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO stock_entries (product_id, quantity)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', 5) $$,
+  'admins can add stock'
+);
+
+SELECT is(
+  (SELECT quantity FROM products WHERE sku = 'RLS-SHIRT'),
+  14,
+  'stock entries increment product quantity'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO stock_entries (product_id, variant_id, quantity)
+     VALUES ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000c1', 4) $$,
+  'admins can add stock to a variant'
+);
+
+SELECT is(
+  (SELECT quantity FROM products WHERE sku = 'RLS-CHINO'),
+  4,
+  'variant stock entries increment the parent product too'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO stock_entries (product_id, quantity)
+     VALUES ('00000000-0000-0000-0000-0000000000a2', 1) $$,
+  '23502',
+  NULL,
+  'stock for a product with variants must name a variant'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO stock_entries (product_id, variant_id, quantity)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1', 1) $$,
+  '23503',
+  NULL,
+  'a variant cannot be booked against another product'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO sales (product_id, variant_id, quantity, price, recorded_by_user_id)
+     VALUES ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000c1', 1, 1500, '00000000-0000-0000-0000-000000000002') $$,
+  'admins can sell a variant'
+);
+
+SELECT is(
+  (SELECT quantity FROM product_variants WHERE sku = 'RLS-CHINO-32-KHAKI'),
+  3,
+  'variant sales decrement the variant'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM search_sales('RLS-CHINO-32') WHERE variant_id = '00000000-0000-0000-0000-0000000000c1' $$,
+  'sales search finds sales of a matching variant'
+);
+
+SELECT is(
+  (SELECT sales_count FROM sales_summary('RLS-CHINO-32')),
+  1::bigint,
+  'the sales summary only counts sales matching the search'
+);
+
+SELECT is(
+  (SELECT sales_count FROM sales_summary('RLS-CHINO-32', date_from => current_date + 1)),
+  0::bigint,
+  'the sales summary only counts sales within the date range'
+);
+
+SELECT is(
+  import_products('[
+    {"row": 2, "name": "RLS Import Tie", "sku": "RLS-TIE", "buy_price": 200, "sell_price": 450, "quantity": 6},
+    {"row": 3, "name": "RLS Import Belt", "sku": "RLS-BELT", "buy_price": 300, "sell_price": 700, "quantity": 0}
+  ]'),
+  2,
+  'admins can import products'
+);
+
+SELECT is(
+  (SELECT quantity FROM products WHERE sku = 'RLS-TIE'),
+  6,
+  'imported opening quantities are recorded as stock'
+);
+
+SELECT throws_ok(
+  $$ SELECT import_products('[
+       {"row": 2, "name": "RLS Import Scarf", "sku": "RLS-SCARF", "buy_price": 100, "sell_price": 250, "quantity": 0},
+       {"row": 3, "name": "RLS Import Tie Again", "sku": "RLS-TIE", "buy_price": 200, "sell_price": 450, "quantity": 0}
+     ]') $$,
+  '23505',
+  'Row 3: SKU RLS-TIE already exists',
+  'an import with a duplicate SKU fails as a whole'
+);
+
+SELECT throws_ok(
+  $$ DELETE FROM products WHERE sku = 'RLS-TIE' $$,
+  '23503',
+  NULL,
+  'products with stock or sales history cannot be deleted'
+);
+
+SELECT lives_ok(
+  $$ DELETE FROM products WHERE sku = 'RLS-BELT' $$,
+  'products without any history can still be deleted'
+);
+
+INSERT INTO product_variants (product_id, size, sku)
+SELECT id, 'One Size', 'RLS-TIE-OS' FROM products WHERE sku = 'RLS-TIE';
+SELECT is(
+  (SELECT quantity FROM product_variants WHERE sku = 'RLS-TIE-OS'),
+  6,
+  'the first variant takes over the stock its product already held'
+);
+
+SELECT is(
+  (SELECT quantity FROM products WHERE sku = 'RLS-TIE'),
+  6,
+  'moving stock onto the first variant leaves the product total alone'
+);
+
+SELECT throws_ok(
+  $$ DELETE FROM product_variants WHERE id = '00000000-0000-0000-0000-0000000000c1' $$,
+  '23503',
+  NULL,
+  'variants with stock or history cannot be deleted'
+);
+
+UPDATE products SET archived_at = now() WHERE sku = 'RLS-TIE';
+SELECT isnt_empty(
+  $$ SELECT id FROM product_catalog WHERE sku = 'RLS-TIE' AND archived_at IS NOT NULL $$,
+  'archived products stay in the catalog, marked archived'
+);
+
+INSERT INTO products (name, sku, buy_price, sell_price, category_id)
+VALUES ('RLS Generated Shirt', '', 400, 900, '00000000-0000-0000-0000-0000000000d1');
+SELECT isnt_empty(
+  $$ SELECT id FROM products WHERE name = 'RLS Generated Shirt' AND sku = 'RLS-00001' $$,
+  'products added without a SKU get the next one for their category'
+);
+
+SELECT is(
+  preview_sku('00000000-0000-0000-0000-0000000000d1'),
+  'RLS-00002',
+  'the SKU preview shows the next number without using it up'
+);
+
+SELECT throws_ok(
+  $$ SELECT next_sku(NULL, NULL, NULL) $$,
+  '42501',
+  NULL,
+  'SKU numbers can only be taken by adding a product'
+);
+
+SELECT is(
+  reprice_products(jsonb_build_array(jsonb_build_object(
+    'product_id', (SELECT id FROM products WHERE sku = 'RLS-00001'), 'sell_price', 950
+  ))),
+  1,
+  'admins can reprice products in bulk'
+);
+
+SELECT throws_ok(
+  $$ SELECT reprice_products(jsonb_build_array(jsonb_build_object(
+       'product_id', '00000000-0000-0000-0000-0000000000ff', 'sell_price', 950
+     ))) $$,
+  'P0002',
+  'Product not found',
+  'bulk repricing refuses products that do not exist'
+);
+
+SELECT lives_ok(
+  $$ SELECT schedule_markdown('RLS Sale', now() - interval '1 minute', now() + interval '1 day', jsonb_build_array(jsonb_build_object(
+       'product_id', (SELECT id FROM products WHERE sku = 'RLS-00001'), 'sell_price', 700
+     ))) $$,
+  'admins can schedule a markdown'
+);
+
+SELECT is(
+  (SELECT sell_price FROM products WHERE sku = 'RLS-00001'),
+  700.00,
+  'a markdown that has started sets the markdown price'
+);
+
+SELECT throws_ok(
+  $$ SELECT schedule_markdown('RLS Clash', now(), now() + interval '2 days', jsonb_build_array(jsonb_build_object(
+       'product_id', (SELECT id FROM products WHERE sku = 'RLS-00001'), 'sell_price', 600
+     ))) $$,
+  '23P01',
+  NULL,
+  'a product cannot be in two markdowns at once'
+);
+
+SELECT lives_ok(
+  $$ SELECT end_markdown((SELECT id FROM markdowns WHERE name = 'RLS Sale')) $$,
+  'admins can end a markdown early'
+);
+
+SELECT is(
+  (SELECT sell_price FROM products WHERE sku = 'RLS-00001'),
+  950.00,
+  'ending a markdown puts the original price back'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO suppliers (id, name) VALUES ('00000000-0000-0000-0000-0000000000e1', 'RLS Supplier') $$,
+  'admins can add suppliers'
+);
+
+SELECT lives_ok(
+  $$ SELECT save_purchase_order(NULL, '00000000-0000-0000-0000-0000000000e1', NULL, 'RLS order', jsonb_build_array(jsonb_build_object(
+       'product_id', '00000000-0000-0000-0000-0000000000a2', 'variant_id', '00000000-0000-0000-0000-0000000000c1',
+       'quantity_ordered', 5, 'unit_cost', 400
+     ))) $$,
+  'admins can raise a purchase order'
+);
+
+SELECT throws_ok(
+  $$ SELECT receive_purchase_order(
+       (SELECT id FROM purchase_orders WHERE notes = 'RLS order'),
+       jsonb_build_array(jsonb_build_object('line_id', (SELECT l.id FROM purchase_order_lines l JOIN purchase_orders o ON o.id = l.purchase_order_id WHERE o.notes = 'RLS order'), 'quantity', 1))
+     ) $$,
+  '55000',
+  NULL,
+  'a draft order cannot be received'
+);
+
+SELECT lives_ok(
+  $$ SELECT send_purchase_order((SELECT id FROM purchase_orders WHERE notes = 'RLS order')) $$,
+  'admins can mark an order as sent'
+);
+
+SELECT lives_ok(
+  $$ SELECT receive_purchase_order(
+       (SELECT id FROM purchase_orders WHERE notes = 'RLS order'),
+       jsonb_build_array(jsonb_build_object('line_id', (SELECT l.id FROM purchase_order_lines l JOIN purchase_orders o ON o.id = l.purchase_order_id WHERE o.notes = 'RLS order'), 'quantity', 3))
+     ) $$,
+  'admins can receive part of an order'
+);
+
+SELECT is(
+  (SELECT status FROM purchase_orders WHERE notes = 'RLS order'),
+  'partially_received',
+  'an order with goods still to come is partially received'
+);
+
+SELECT is(
+  (SELECT quantity FROM product_variants WHERE sku = 'RLS-CHINO-32-KHAKI'),
+  6,
+  'receiving an order adds a stock entry for the variant'
+);
+
+SELECT throws_ok(
+  $$ SELECT receive_purchase_order(
+       (SELECT id FROM purchase_orders WHERE notes = 'RLS order'),
+       jsonb_build_array(jsonb_build_object('line_id', (SELECT l.id FROM purchase_order_lines l JOIN purchase_orders o ON o.id = l.purchase_order_id WHERE o.notes = 'RLS order'), 'quantity', 3))
+     ) $$,
+  '23514',
+  NULL,
+  'more than was ordered cannot be received'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO supplier_payments (supplier_id, amount) VALUES ('00000000-0000-0000-0000-0000000000e1', 500) $$,
+  'admins can record a supplier payment'
+);
+
+SELECT results_eq(
+  $$ SELECT open_orders, outstanding_value, balance FROM supplier_balances WHERE supplier_id = '00000000-0000-0000-0000-0000000000e1' $$,
+  $$ VALUES (1::bigint, 800.00, 700.00) $$,
+  'supplier balances show what is still on order and what is owed'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO product_images (product_id, path, thumbnail_path) VALUES
+       ('00000000-0000-0000-0000-0000000000a1', 'a1/front.jpg', 'a1/front-thumb.jpg'),
+       ('00000000-0000-0000-0000-0000000000a1', 'a1/back.jpg', 'a1/back-thumb.jpg') $$,
+  'admins can add product images'
+);
+
+SELECT results_eq(
+  $$ SELECT path FROM product_images WHERE product_id = '00000000-0000-0000-0000-0000000000a1' AND is_primary $$,
+  ARRAY['a1/front.jpg'],
+  'the first image of a product becomes its primary image'
+);
+
+UPDATE product_images SET is_primary = true WHERE path = 'a1/back.jpg';
+SELECT results_eq(
+  $$ SELECT path FROM product_images WHERE product_id = '00000000-0000-0000-0000-0000000000a1' AND is_primary $$,
+  ARRAY['a1/back.jpg'],
+  'choosing a new primary image demotes the old one'
+);
+
+DELETE FROM product_images WHERE path = 'a1/back.jpg';
+SELECT results_eq(
+  $$ SELECT path FROM product_images WHERE product_id = '00000000-0000-0000-0000-0000000000a1' AND is_primary $$,
+  ARRAY['a1/front.jpg'],
+  'removing the primary image promotes the next one'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM users $$,
+  'admins cannot read users'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM audit_log $$,
+  'admins cannot read the audit log'
+);
+
+UPDATE settings SET value = 'USD' WHERE key = 'currency';
+SELECT is(
+  (SELECT value FROM settings WHERE key = 'currency'),
+  'KES',
+  'admins cannot change settings'
+);
+
+-- Super admin
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000001", "sid": "00000000-0000-0000-0000-0000000000b1", "role": "authenticated", "app_role": "super_admin"}';
+
+SELECT isnt_empty(
+  $$ SELECT id FROM users WHERE username = 'rls_staff' $$,
+  'super admins can read users'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM audit_log
+     WHERE table_name = 'stock_entries'
+       AND actor_id = '00000000-0000-0000-0000-000000000002' $$,
+  'stock entries are audited with the user who made them'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM audit_log
+     WHERE table_name = 'purchase_order_lines'
+       AND actor_id = '00000000-0000-0000-0000-000000000002' $$,
+  'purchase order lines are audited with the user who changed them'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM audit_log WHERE new_data ? 'password' OR old_data ? 'password' $$,
+  'password hashes are never copied into the audit log'
+);
+
+SELECT throws_ok(
+  $$ SELECT password FROM users $$,
+  '42501',
+  NULL,
+  'password hashes are never exposed over the API'
+);
+
+SELECT throws_ok(
+  $$ SELECT pin_hash FROM users $$,
+  '42501',
+  NULL,
+  'PIN hashes are never exposed over the API'
+);
+
+SELECT throws_ok(
+  $$ SELECT totp_secret FROM users $$,
+  '42501',
+  NULL,
+  'TOTP secrets are never exposed over the API'
+);
+
+SELECT throws_ok(
+  $$ UPDATE roles SET is_system = false WHERE key = 'super_admin' $$,
+  '42501',
+  NULL,
+  'system roles cannot be made editable over the API'
+);
+
+UPDATE settings SET value = 'USD' WHERE key = 'currency';
+SELECT is(
+  (SELECT value FROM settings WHERE key = 'currency'),
+  'USD',
+  'super admins can change settings'
+);
+
+-- Writes auth-helpers makes with the service role on behalf of a signed-in user
+RESET role;
+SET LOCAL role service_role;
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+SET LOCAL request.headers = '{"x-actor-id": "00000000-0000-0000-0000-000000000001"}';
+UPDATE users SET username = 'rls_staff_renamed' WHERE id = '00000000-0000-0000-0000-000000000003';
+RESET role;
+
+SELECT results_eq(
+  $$ SELECT actor_username FROM audit_log
+     WHERE table_name = 'users' AND new_data ->> 'username' = 'rls_staff_renamed' $$,
+  ARRAY['rls_super'],
+  'service-role writes are audited with the user named in x-actor-id'
+);
+
+UPDATE users SET username = 'rls_staff' WHERE id = '00000000-0000-0000-0000-000000000003';
+SET LOCAL role authenticated;
+
+-- Custom role with only sales.view
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000004", "sid": "00000000-0000-0000-0000-0000000000b4", "role": "authenticated", "app_role": "rls_viewer"}';
+
+SELECT isnt_empty(
+  $$ SELECT id FROM sales $$,
+  'a custom role with sales.view can read sales'
+);
+
+SELECT results_eq(
+  $$ SELECT cost FROM sales_by_category(current_date - 1) WHERE category = 'RLS Shirts' $$,
+  ARRAY[NULL::numeric],
+  'sales by category reach roles without cost.view, without their cost'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO sales (product_id, quantity, price, recorded_by_user_id)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', 1, 1000, '00000000-0000-0000-0000-000000000004') $$,
+  '42501',
+  NULL,
+  'a custom role without sales.record cannot record sales'
+);
+
+-- Custom role with products.edit but not cost.view
+RESET role;
+INSERT INTO role_permissions (role, permission) VALUES ('rls_viewer', 'products.edit');
+SET LOCAL role authenticated;
+
+SELECT lives_ok(
+  $$ SELECT save_product('00000000-0000-0000-0000-0000000000a1', jsonb_build_object(
+       'name', 'RLS Test Shirt', 'sku', 'RLS-SHIRT', 'sell_price', 1100, 'category_id', '00000000-0000-0000-0000-0000000000d1'
+     )) $$,
+  'editors who cannot see cost can still update products'
+);
+
+RESET role;
+SELECT results_eq(
+  $$ SELECT buy_price, sell_price FROM products WHERE id = '00000000-0000-0000-0000-0000000000a1' $$,
+  $$ VALUES (600.00, 1100.00) $$,
+  'an edit without the buy price keeps the stored cost'
+);
+
+DELETE FROM role_permissions WHERE role = 'rls_viewer' AND permission = 'products.edit';
+SET LOCAL role authenticated;
+
+-- Temporary passwords
+RESET role;
+UPDATE users SET must_change_password = true WHERE id = '00000000-0000-0000-0000-000000000004';
+SET LOCAL role authenticated;
+
+SELECT is_empty(
+  $$ SELECT id FROM sales $$,
+  'a session on a temporary password cannot read sales'
+);
+
+RESET role;
+UPDATE users SET must_change_password = false WHERE id = '00000000-0000-0000-0000-000000000004';
+SET LOCAL role authenticated;
+
+SELECT isnt_empty(
+  $$ SELECT id FROM sales $$,
+  'changing the password restores access on the same session'
+);
+
+-- Two-factor sign-in required but not set up
+RESET role;
+UPDATE roles SET requires_two_factor = true WHERE key = 'rls_viewer';
+SET LOCAL role authenticated;
+
+SELECT is_empty(
+  $$ SELECT id FROM sales $$,
+  'a session that still has to enroll in two-factor sign-in cannot read sales'
+);
+
+RESET role;
+UPDATE roles SET requires_two_factor = false WHERE key = 'rls_viewer';
+SET LOCAL role authenticated;
+
+-- Revoked sessions
+RESET role;
+UPDATE sessions SET revoked_at = now() WHERE id = '00000000-0000-0000-0000-0000000000b3';
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000003", "sid": "00000000-0000-0000-0000-0000000000b3", "role": "authenticated", "app_role": "sales_staff"}';
+
+SELECT is_empty(
+  $$ SELECT id FROM sales $$,
+  'a revoked session cannot read sales'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM product_catalog $$,
+  'a revoked session cannot read the product catalog'
+);
+
+-- Anonymous callers
+SET LOCAL role anon;
+SET LOCAL request.jwt.claims = '{"role": "anon"}';
+
+SELECT is_empty(
+  $$ SELECT id FROM sales $$,
+  'anonymous callers cannot read sales'
+);
+
+SELECT throws_ok(
+  $$ SELECT id FROM product_catalog $$,
+  '42501',
+  NULL,
+  'anonymous callers cannot read the product catalog'
+);
+
+SELECT * FROM finish();
+ROLLBACK;